@@ -1,3 +1,4 @@
+import { useEffect } from "react";
 import { BrowserRouter as Router, Routes, Route } from "react-router-dom";
 import EditorPage from "./page-editor/EditorPage";
 import EntriesPage from "./page-list-entries/EntriesPage";
@@ -5,12 +6,35 @@ import TagsPage from "./page-tags/TagsPage";
 import ApiKeyPage from "./page-api-key/ApiKeyPage";
 import EditEntryPage from "./page-editor/EditEntryPage";
 import ExportPage from "./page-export/ExportPage";
+import SummariesPage from "./page-summaries/SummariesPage";
+import DraftsPage from "./page-drafts/DraftsPage";
+import TemplatesPage from "./page-templates/TemplatesPage";
 import { ThemeProvider } from "./theming/ThemeProvider";
 import "./themes/default.css";
 import "./theming/variants.css";
 import NavBar from "./components/NavBar";
+import AuthBanner from "./components/AuthBanner";
+import { startOfflineSync } from "./services/offlineQueue";
+import { clearQueryCache } from "./services/queryCache";
+import { clearMediaUrls } from "./services/mediaUrls";
+import { onActiveProfileChange } from "./utils/serverProfiles";
+import { useActiveProfile } from "./hooks/useServerProfiles";
 
 function App() {
+  const activeProfile = useActiveProfile();
+
+  useEffect(() => startOfflineSync(), []);
+
+  // Data cached for one server or key must not leak into another
+  useEffect(
+    () =>
+      onActiveProfileChange(() => {
+        clearQueryCache();
+        clearMediaUrls();
+      }),
+    []
+  );
+
   return (
     <ThemeProvider>
       <Router basename="/life-log-web">
@@ -24,12 +48,20 @@ function App() {
           }}
         >
           <NavBar />
-          <div style={{ flex: 1, minHeight: 0, display: "flex", flexDirection: "column", overflow: "auto" }}>
+          <AuthBanner />
+          {/* Remount every page on server switch so none keeps the old server's data */}
+          <div
+            key={activeProfile.id}
+            style={{ flex: 1, minHeight: 0, display: "flex", flexDirection: "column", overflow: "auto" }}
+          >
             <Routes>
               <Route path="/" element={<EditorPage />} />
+              <Route path="/drafts" element={<DraftsPage />} />
               <Route path="/entries" element={<EntriesPage />} />
               <Route path="/edit/:id" element={<EditEntryPage />} />
               <Route path="/tags" element={<TagsPage />} />
+              <Route path="/templates" element={<TemplatesPage />} />
+              <Route path="/summaries" element={<SummariesPage />} />
               <Route path="/export" element={<ExportPage />} />
               <Route path="/api-key" element={<ApiKeyPage />} />
             </Routes>
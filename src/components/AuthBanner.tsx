@@ -0,0 +1,40 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { ShieldAlert, X } from "lucide-react";
+import { onUnauthorized } from "../services/http";
+import { onActiveProfileChange } from "../utils/serverProfiles";
+import "./AuthBanner.css";
+
+/**
+ * App-wide notice shown after the server rejects the API key.
+ * Cleared when the key or server changes, or when dismissed.
+ */
+function AuthBanner() {
+  const [rejected, setRejected] = useState(false);
+
+  useEffect(() => onUnauthorized(() => setRejected(true)), []);
+  useEffect(() => onActiveProfileChange(() => setRejected(false)), []);
+
+  if (!rejected) return null;
+
+  return (
+    <div className="auth-banner" role="alert">
+      <ShieldAlert size={16} aria-hidden="true" />
+      <span className="auth-banner__text">Your API key was rejected by the server.</span>
+      <Link to="/api-key" className="auth-banner__link">
+        Update API key
+      </Link>
+      <button
+        type="button"
+        className="auth-banner__dismiss"
+        onClick={() => setRejected(false)}
+        title="Dismiss"
+        aria-label="Dismiss"
+      >
+        <X size={14} aria-hidden="true" />
+      </button>
+    </div>
+  );
+}
+
+export default AuthBanner;
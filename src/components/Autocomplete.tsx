@@ -1,4 +1,5 @@
-import { useState, useEffect, useRef, type KeyboardEvent } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import { useListNavigation } from '../hooks/useListNavigation';
 
 export interface AutocompleteOption {
   value: string;
@@ -29,11 +30,15 @@ export default function Autocomplete({
 }: AutocompleteProps) {
   const [suggestions, setSuggestions] = useState<AutocompleteOption[]>([]);
   const [isOpen, setIsOpen] = useState(false);
-  const [selectedIndex, setSelectedIndex] = useState(-1);
   const [isLoading, setIsLoading] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
   const debounceTimerRef = useRef<number | null>(null);
+  const { selectedIndex, setSelectedIndex, handleKeyDown: navigate } = useListNavigation({
+    count: suggestions.length,
+    onSelect: (index) => handleSelect(suggestions[index]),
+    onClose: () => setIsOpen(false),
+  });
 
   useEffect(() => {
     const loadSuggestions = async () => {
@@ -71,7 +76,7 @@ export default function Autocomplete({
         clearTimeout(debounceTimerRef.current);
       }
     };
-  }, [value, fetchSuggestions, minChars, debounceMs]);
+  }, [value, fetchSuggestions, minChars, debounceMs, setSelectedIndex]);
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -91,30 +96,6 @@ export default function Autocomplete({
     };
   }, []);
 
-  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
-    if (!isOpen) return;
-
-    switch (e.key) {
-      case 'ArrowDown':
-        e.preventDefault();
-        setSelectedIndex((prev) => (prev < suggestions.length - 1 ? prev + 1 : prev));
-        break;
-      case 'ArrowUp':
-        e.preventDefault();
-        setSelectedIndex((prev) => (prev > 0 ? prev - 1 : -1));
-        break;
-      case 'Enter':
-        e.preventDefault();
-        if (selectedIndex >= 0 && selectedIndex < suggestions.length) {
-          handleSelect(suggestions[selectedIndex]);
-        }
-        break;
-      case 'Escape':
-        setIsOpen(false);
-        break;
-    }
-  };
-
   const handleSelect = (option: AutocompleteOption) => {
     onChange(option.value);
     if (onSelect) {
@@ -160,7 +141,9 @@ export default function Autocomplete({
         type="text"
         value={value}
         onChange={(e) => onChange(e.target.value)}
-        onKeyDown={handleKeyDown}
+        onKeyDown={(e) => {
+          if (isOpen) navigate(e);
+        }}
         onFocus={handleFocus}
         placeholder={placeholder}
         style={{
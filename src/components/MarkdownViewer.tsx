@@ -1,8 +1,10 @@
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useMemo } from "react";
 import Markdown from "react-markdown";
-import { getSignedUrls, type SignedUrlResponse } from "../services/api";
-import { API_CONFIG } from "../config/constants";
+import { extractMediaFilenames, isMediaFilename } from "../services/mediaUrls";
+import { useMediaUrls } from "../hooks/useMediaUrls";
+import { mediaKindOfFilename, parseClipTitle } from "../utils/mediaUtils";
 import LinkCard from "./LinkCard";
+import MediaClip from "./MediaClip";
 
 interface MarkdownViewerProps {
   content: string;
@@ -11,79 +13,14 @@ interface MarkdownViewerProps {
 
 export default function MarkdownViewer({
   content,
-  mediaPaths = [],
+  mediaPaths,
 }: MarkdownViewerProps) {
-  const [imageUrlMap, setImageUrlMap] = useState<Map<string, string>>(
-    new Map()
+  // Get filenames from both markdown content and mediaPaths
+  const filenames = useMemo(
+    () => [...extractMediaFilenames(content), ...(mediaPaths ?? [])],
+    [content, mediaPaths]
   );
-
-  // Extract image filenames from markdown content
-  const extractImageFilenames = useCallback((markdown: string): string[] => {
-    const imageRegex = /!\[.*?\]\(([^)]+)\)/g;
-    const filenames: string[] = [];
-    let match;
-
-    while ((match = imageRegex.exec(markdown)) !== null) {
-      const url = match[1];
-      // Extract just the filename (handle both relative and absolute URLs)
-      const filename = url.split("/").pop() || url;
-
-      // Only include if it looks like a timestamp-based filename
-      if (filename && /^\d+\.\w+/.test(filename)) {
-        filenames.push(filename);
-      }
-    }
-
-    return [...new Set(filenames)]; // Remove duplicates
-  }, []);
-
-  // Fetch signed URLs for images
-  useEffect(() => {
-    const fetchSignedUrls = async () => {
-      if (!content) return;
-
-      // Get filenames from both markdown content and mediaPaths
-      const contentFilenames = extractImageFilenames(content);
-      const allFilenames = [...new Set([...contentFilenames, ...mediaPaths])];
-
-      if (allFilenames.length === 0) return;
-
-      // Filter out filenames we already have valid URLs for
-      const missingFilenames = allFilenames.filter((filename) => {
-        const existingUrl = imageUrlMap.get(filename);
-        if (!existingUrl) return true;
-
-        // Check if URL has expired by parsing the expires query param
-        try {
-          const url = new URL(existingUrl, API_CONFIG.API_BASE_URL);
-          const expires = parseInt(url.searchParams.get("expires") || "0");
-          return Date.now() > expires - 60000; // Refresh if less than 1 minute left
-        } catch {
-          return true;
-        }
-      });
-
-      if (missingFilenames.length === 0) return;
-
-      try {
-        const signedUrls: SignedUrlResponse[] = await getSignedUrls(
-          missingFilenames
-        );
-        const newMap = new Map(imageUrlMap);
-        signedUrls.forEach((result) => {
-          newMap.set(
-            result.filename,
-            `${API_CONFIG.API_BASE_URL}${result.url}`
-          );
-        });
-        setImageUrlMap(newMap);
-      } catch (error) {
-        console.error("Failed to fetch signed URLs:", error);
-      }
-    };
-
-    fetchSignedUrls();
-  }, [content, mediaPaths, extractImageFilenames, imageUrlMap]);
+  const mediaUrls = useMediaUrls(filenames);
 
   // URL transform function for Markdown component
   const urlTransform = useCallback(
@@ -93,11 +30,14 @@ export default function MarkdownViewer({
         return url;
       }
 
-      // If it's a filename, look up the signed URL
-      const signedUrl = imageUrlMap.get(url);
-      return signedUrl || url;
+      // If it's a media filename, look up the signed URL
+      const filename = url.split("/").pop() || url;
+      if (!isMediaFilename(filename)) return url;
+      // Clips keep their filename; MediaClip looks up their URLs itself
+      if (mediaKindOfFilename(filename) !== "image") return url;
+      return mediaUrls.get(filename) || url;
     },
-    [imageUrlMap]
+    [mediaUrls]
   );
 
   return (
@@ -105,6 +45,22 @@ export default function MarkdownViewer({
       <Markdown
         urlTransform={urlTransform}
         components={{
+          img: ({ src, alt, title }) => {
+            const filename = typeof src === "string" ? src.split("/").pop() || src : "";
+            const kind = isMediaFilename(filename) ? mediaKindOfFilename(filename) : "image";
+            if (kind === "image") return <img src={src} alt={alt} title={title} />;
+
+            const info = parseClipTitle(title);
+            return (
+              <MediaClip
+                kind={kind}
+                src={mediaUrls.get(filename)}
+                poster={info.poster ? mediaUrls.get(info.poster) : undefined}
+                label={alt}
+                info={info}
+              />
+            );
+          },
           a: ({ href, children, ...props }) => {
             // Check if this is a link card (marked with 🔗 emoji)
             const isLinkCard =
@@ -0,0 +1,54 @@
+import { Film, Music } from "lucide-react";
+import { formatDuration, type ClipInfo } from "../utils/mediaUtils";
+import "./MediaClip.css";
+
+interface MediaClipProps {
+  kind: "video" | "audio";
+  /** Signed URL of the clip; undefined while it is being signed */
+  src?: string;
+  /** Signed URL of the video's poster frame */
+  poster?: string;
+  label?: string;
+  info: ClipInfo;
+}
+
+/**
+ * Native player for a video or audio clip embedded in an entry. Only
+ * metadata is fetched until the user presses play.
+ */
+export default function MediaClip({ kind, src, poster, label, info }: MediaClipProps) {
+  const Icon = kind === "video" ? Film : Music;
+
+  return (
+    <span className={`media-clip media-clip--${kind}`}>
+      {src ? (
+        kind === "video" ? (
+          <video
+            className="media-clip__player"
+            src={src}
+            poster={poster}
+            controls
+            playsInline
+            preload={poster ? "none" : "metadata"}
+            aria-label={label}
+          />
+        ) : (
+          <audio
+            className="media-clip__player"
+            src={src}
+            controls
+            preload="none"
+            aria-label={label}
+          />
+        )
+      ) : (
+        <span className="media-clip__pending">Loading {kind}…</span>
+      )}
+      <span className="media-clip__caption">
+        <Icon size={12} aria-hidden />
+        {kind === "video" ? "Video" : "Audio"}
+        {info.duration !== undefined && ` · ${formatDuration(info.duration)}`}
+      </span>
+    </span>
+  );
+}
@@ -1,6 +1,16 @@
 import { NavLink } from "react-router-dom";
-import { Pencil, List, Tag, Download, Key } from "lucide-react";
-import { hasApiKey } from "../utils/apiKeyStorage";
+import {
+  Pencil,
+  Inbox,
+  List,
+  Tag,
+  LayoutTemplate,
+  CalendarRange,
+  Download,
+  Key,
+} from "lucide-react";
+import { useActiveProfile } from "../hooks/useServerProfiles";
+import { useEntryDrafts } from "../hooks/useEntryDrafts";
 import { ThemeToggle } from "./ThemeToggle";
 import { ThemePicker } from "./ThemePicker";
 import "./NavBar.css";
@@ -8,7 +18,9 @@ import "./NavBar.css";
 const ICON_SIZE = 16;
 
 function NavBar() {
-  const noApiKey = !hasApiKey();
+  const activeProfile = useActiveProfile();
+  const noApiKey = !activeProfile.apiKey;
+  const draftCount = useEntryDrafts().length;
 
   const linkClass = ({ isActive }: { isActive: boolean }) =>
     "nav-pill nav-icon-btn" + (isActive ? " nav-pill--active" : "");
@@ -24,16 +36,40 @@ function NavBar() {
         <NavLink to="/" end className={linkClass} title="Editor" aria-label="Editor">
           <Pencil size={ICON_SIZE} />
         </NavLink>
+        <NavLink
+          to="/drafts"
+          className={linkClass}
+          title="Drafts"
+          aria-label={draftCount > 0 ? `Drafts (${draftCount})` : "Drafts"}
+        >
+          <Inbox size={ICON_SIZE} />
+          {draftCount > 0 && (
+            <span className="nav-pill__badge" aria-hidden>
+              {draftCount > 99 ? "99+" : draftCount}
+            </span>
+          )}
+        </NavLink>
         <NavLink to="/entries" className={linkClass} title="Entries" aria-label="Entries">
           <List size={ICON_SIZE} />
         </NavLink>
         <NavLink to="/tags" className={linkClass} title="Tags" aria-label="Tags">
           <Tag size={ICON_SIZE} />
         </NavLink>
+        <NavLink to="/templates" className={linkClass} title="Templates" aria-label="Templates">
+          <LayoutTemplate size={ICON_SIZE} />
+        </NavLink>
+        <NavLink to="/summaries" className={linkClass} title="Summaries" aria-label="Summaries">
+          <CalendarRange size={ICON_SIZE} />
+        </NavLink>
         <NavLink to="/export" className={linkClass} title="Export" aria-label="Export">
           <Download size={ICON_SIZE} />
         </NavLink>
-        <NavLink to="/api-key" className={apiKeyClass} title="API Key" aria-label="API Key">
+        <NavLink
+          to="/api-key"
+          className={apiKeyClass}
+          title={`API Key (${activeProfile.name})`}
+          aria-label="API Key"
+        >
           <Key size={ICON_SIZE} />
         </NavLink>
       </div>
@@ -7,14 +7,17 @@
  * API Configuration
  */
 export const API_CONFIG = {
+  // Base URL of the "Default" server profile; more can be added on the API Key page
   API_BASE_URL: "https://09176645.xyz/life-log-api",
   ENDPOINTS: {
     ENTRIES: "/entries",
     MEDIA_UPLOAD: "/media/upload",
+    MEDIA_UPLOADS: "/media/uploads",
     MEDIA_DOWNLOAD: "/media/download",
     TAGS: "/tags",
     SUMMARIES: "/summaries",
     THEMES: "/themes",
+    TEMPLATES: "/templates",
   },
 } as const;
 
@@ -22,7 +25,10 @@ export const API_CONFIG = {
  * Media Configuration
  */
 export const MEDIA_CONFIG = {
-  MAX_FILE_SIZE: 10 * 1024 * 1024, // 10MB
+  MAX_FILE_SIZE: 10 * 1024 * 1024, // 10MB; larger files are uploaded in chunks
+  MAX_CHUNKED_FILE_SIZE: 2 * 1024 * 1024 * 1024, // 2GB
+  CHUNK_SIZE: 5 * 1024 * 1024, // 5MB
+  MAX_CONCURRENT_UPLOADS: 3,
   ACCEPTED_IMAGE_TYPES: [
     "image/jpeg",
     "image/png",
@@ -31,4 +37,16 @@ export const MEDIA_CONFIG = {
     "image/heic",
     "image/heif",
   ],
+  ACCEPTED_VIDEO_TYPES: ["video/mp4", "video/webm", "video/quicktime"],
+  ACCEPTED_AUDIO_TYPES: [
+    "audio/mpeg",
+    "audio/mp4",
+    "audio/x-m4a",
+    "audio/aac",
+    "audio/wav",
+    "audio/ogg",
+    "audio/webm",
+  ],
+  MAX_CLIP_DURATION_SECONDS: 5 * 60, // Videos and audio clips are meant to be short
+  POSTER_WIDTH: 640,
 } as const;
@@ -0,0 +1,13 @@
+import { useEffect, useState } from "react";
+import { subscribeToEntryDrafts, type EntryDraft } from "../services/entryDrafts";
+
+/**
+ * Returns the active server profile's entry drafts, kept up to date as they change
+ */
+export const useEntryDrafts = (): EntryDraft[] => {
+  const [drafts, setDrafts] = useState<EntryDraft[]>([]);
+
+  useEffect(() => subscribeToEntryDrafts(setDrafts), []);
+
+  return drafts;
+};
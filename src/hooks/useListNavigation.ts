@@ -0,0 +1,44 @@
+import { useState, type KeyboardEvent } from "react";
+
+interface ListNavigationOptions {
+  /** Number of items in the list */
+  count: number;
+  onSelect: (index: number) => void;
+  onClose: () => void;
+}
+
+/**
+ * Arrow key, Enter and Escape handling for a popup list driven from a text
+ * field, which keeps the focus while the list is open
+ * @returns The highlighted index (-1 for none), a setter for mouse hover and
+ * a keydown handler that reports whether it handled the key
+ */
+export const useListNavigation = ({ count, onSelect, onClose }: ListNavigationOptions) => {
+  const [selectedIndex, setSelectedIndex] = useState(-1);
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLElement>): boolean => {
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault();
+        setSelectedIndex((prev) => (prev < count - 1 ? prev + 1 : prev));
+        return true;
+      case "ArrowUp":
+        e.preventDefault();
+        setSelectedIndex((prev) => (prev > 0 ? prev - 1 : -1));
+        return true;
+      case "Enter":
+        e.preventDefault();
+        if (selectedIndex >= 0 && selectedIndex < count) {
+          onSelect(selectedIndex);
+        }
+        return true;
+      case "Escape":
+        onClose();
+        return true;
+      default:
+        return false;
+    }
+  };
+
+  return { selectedIndex, setSelectedIndex, handleKeyDown };
+};
@@ -0,0 +1,35 @@
+import { useEffect, useMemo, useSyncExternalStore } from "react";
+import {
+  getMediaUrl,
+  getMediaUrlsVersion,
+  retainMediaUrls,
+  subscribeToMediaUrls,
+} from "../services/mediaUrls";
+
+/**
+ * Signed URLs for media files, kept fresh while the component is mounted
+ * @param filenames - Media filenames to show
+ * @returns Map from filename to URL; files still being signed are missing
+ */
+export const useMediaUrls = (filenames: string[]): Map<string, string> => {
+  // Compare by content so a new array with the same files doesn't resubscribe
+  const key = [...new Set(filenames)].sort().join("\n");
+  const version = useSyncExternalStore(subscribeToMediaUrls, getMediaUrlsVersion);
+
+  useEffect(() => {
+    if (!key) return;
+    return retainMediaUrls(key.split("\n"));
+  }, [key]);
+
+  return useMemo(() => {
+    const urls = new Map<string, string>();
+    if (!key) return urls;
+    key.split("\n").forEach((filename) => {
+      const url = getMediaUrl(filename);
+      if (url) urls.set(filename, url);
+    });
+    return urls;
+    // version changes whenever the cache does
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key, version]);
+};
@@ -0,0 +1,13 @@
+import { useEffect, useState } from "react";
+import { subscribeToQueue, type QueuedWrite } from "../services/offlineQueue";
+
+/**
+ * Returns the current offline write queue, kept up to date as it changes
+ */
+export const useOfflineQueue = (): QueuedWrite[] => {
+  const [writes, setWrites] = useState<QueuedWrite[]>([]);
+
+  useEffect(() => subscribeToQueue(setWrites), []);
+
+  return writes;
+};
@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from "react";
+import {
+  fetchQuery,
+  getQueryState,
+  hashQueryKey,
+  invalidateQueries,
+  subscribeToQuery,
+  type FetchQueryOptions,
+  type QueryKey,
+} from "../services/queryCache";
+
+interface UseQueryOptions extends FetchQueryOptions {
+  /** Set to false to skip fetching (e.g. until an ID is known) */
+  enabled?: boolean;
+}
+
+export interface UseQueryResult<T> {
+  data: T | undefined;
+  error: unknown;
+  /** True only while there is no cached data to show yet */
+  isLoading: boolean;
+  /** True whenever a request for this key is in flight */
+  isFetching: boolean;
+  refetch: () => void;
+}
+
+/**
+ * Reads a query through the stale-while-revalidate cache.
+ * Cached data renders immediately; the query revalidates in the background
+ * on mount and whenever a mutation invalidates its key.
+ */
+export const useQuery = <T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>,
+  options: UseQueryOptions = {}
+): UseQueryResult<T> => {
+  const { enabled = true, staleTime } = options;
+  const hash = hashQueryKey(key);
+
+  // Keep the latest key and fetcher without re-subscribing on every render
+  const keyRef = useRef(key);
+  const fetcherRef = useRef(fetcher);
+  useEffect(() => {
+    keyRef.current = key;
+    fetcherRef.current = fetcher;
+  });
+
+  const subscribe = useCallback(
+    (onChange: () => void) => subscribeToQuery(JSON.parse(hash), onChange),
+    [hash]
+  );
+  const getSnapshot = useCallback(
+    () => getQueryState<T>(JSON.parse(hash)),
+    [hash]
+  );
+  const state = useSyncExternalStore(subscribe, getSnapshot);
+
+  const needsFetch = state.updatedAt === 0 || state.isInvalidated;
+  const revalidatedHashRef = useRef<string | null>(null);
+
+  // Revalidate once per key on mount, then again whenever it's invalidated
+  useEffect(() => {
+    if (!enabled) return;
+    if (revalidatedHashRef.current === hash && !needsFetch) return;
+    revalidatedHashRef.current = hash;
+    fetchQuery(keyRef.current, () => fetcherRef.current(), { staleTime }).catch(
+      () => {
+        // Errors are exposed through the query state
+      }
+    );
+  }, [hash, enabled, needsFetch, staleTime]);
+
+  const refetch = useCallback(() => {
+    invalidateQueries(keyRef.current);
+  }, []);
+
+  return {
+    data: state.data,
+    error: state.error,
+    isLoading: enabled && state.data === undefined && state.error === undefined,
+    isFetching: state.isFetching,
+    refetch,
+  };
+};
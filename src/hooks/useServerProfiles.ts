@@ -0,0 +1,19 @@
+import { useSyncExternalStore } from "react";
+import {
+  getActiveProfile,
+  listProfiles,
+  subscribeToProfiles,
+  type ServerProfile,
+} from "../utils/serverProfiles";
+
+/**
+ * All saved server profiles, re-rendering when they change
+ */
+export const useServerProfiles = (): ServerProfile[] =>
+  useSyncExternalStore(subscribeToProfiles, listProfiles);
+
+/**
+ * The profile requests are currently sent to
+ */
+export const useActiveProfile = (): ServerProfile =>
+  useSyncExternalStore(subscribeToProfiles, getActiveProfile);
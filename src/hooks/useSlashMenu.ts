@@ -0,0 +1,246 @@
+import { useEffect, useState, type KeyboardEvent, type RefObject } from "react";
+import type { LucideIcon } from "lucide-react";
+import { useListNavigation } from "./useListNavigation";
+import { getCaretCoordinates } from "../utils/caretCoordinates";
+import type { TokenPrefix } from "../utils/tagTokens";
+
+export interface SlashCommand {
+  id: string;
+  label: string;
+  hint?: string;
+  icon: LucideIcon;
+  /** Extra words the command can be found by */
+  keywords?: string[];
+  /**
+   * Commands that search for something, e.g. "/tag walk". Choosing the
+   * command types "/tag " and the menu then lists the search results.
+   */
+  argument?: {
+    name: string;
+    search: (query: string) => Promise<SlashCommand[]>;
+  };
+  /**
+   * Runs the command
+   * @returns Text to put where "/command" was typed
+   */
+  run?: () => string | void;
+}
+
+interface SlashTrigger {
+  /** Offset of the "/", "#" or "@" */
+  start: number;
+  prefix: "/" | TokenPrefix;
+  /** Text typed after the prefix */
+  query: string;
+  position: { top: number; left: number };
+}
+
+interface UseSlashMenuOptions {
+  textareaRef: RefObject<HTMLTextAreaElement | null>;
+  commands: SlashCommand[];
+  /** Replaces a range of the text and puts the cursor after the replacement */
+  replaceText: (from: number, to: number, replacement: string) => void;
+  /** Searches for words starting with "#" or "@", e.g. inline tags */
+  tokenSearches?: Partial<Record<TokenPrefix, (query: string) => Promise<SlashCommand[]>>>;
+}
+
+const MAX_QUERY_LENGTH = 40;
+const SEARCH_DEBOUNCE_MS = 200;
+const MENU_GAP = 4;
+
+function matches(command: SlashCommand, query: string): boolean {
+  const q = query.toLowerCase();
+  return (
+    command.label.toLowerCase().includes(q) ||
+    (command.keywords ?? []).some((keyword) => keyword.startsWith(q))
+  );
+}
+
+/**
+ * Finds what the menu should open for in the text between the line start
+ * and the cursor: a "/" starting the line or a "#" or "@" starting a word
+ */
+function findTrigger(
+  beforeCursor: string
+): { offset: number; prefix: SlashTrigger["prefix"]; query: string } | null {
+  const slash = /^\/([^ ].*)?$/.exec(beforeCursor);
+  if (slash) return { offset: 0, prefix: "/", query: slash[1] ?? "" };
+
+  // A word, so "# heading" and e-mail addresses don't count
+  const token = /(^|\s)([#@])([^\s#@]+)$/.exec(beforeCursor);
+  if (!token) return null;
+  return {
+    offset: token.index + token[1].length,
+    prefix: token[2] as TokenPrefix,
+    query: token[3],
+  };
+}
+
+/**
+ * A command menu for a textarea that opens when a line starts with "/", and
+ * a list of search results while typing a word that starts with one of the
+ * `tokenSearches` prefixes
+ * @returns Menu state for SlashMenu, `update` to call whenever the text or
+ * cursor changes, and a keydown handler that reports whether it used the key
+ */
+export const useSlashMenu = ({
+  textareaRef,
+  commands,
+  replaceText,
+  tokenSearches,
+}: UseSlashMenuOptions) => {
+  const [trigger, setTrigger] = useState<SlashTrigger | null>(null);
+  // Escape closes the menu until the "/" it belongs to is gone
+  const [dismissedStart, setDismissedStart] = useState<number | null>(null);
+  const [results, setResults] = useState<{ key: string; items: SlashCommand[] } | null>(null);
+
+  const argumentMatch = trigger?.prefix === "/" ? /^(\S+) (.*)$/.exec(trigger.query) : null;
+  const argumentCommand = argumentMatch
+    ? commands.find((command) => command.argument?.name === argumentMatch[1])
+    : undefined;
+
+  let search: ((query: string) => Promise<SlashCommand[]>) | undefined;
+  let searchQuery = "";
+  if (trigger && trigger.prefix !== "/") {
+    search = tokenSearches?.[trigger.prefix];
+    searchQuery = trigger.query;
+  } else if (argumentCommand?.argument && argumentMatch) {
+    search = argumentCommand.argument.search;
+    searchQuery = argumentMatch[2];
+  }
+  // Identifies a search and the results it found
+  const searchKey = trigger && search ? trigger.prefix + trigger.query : null;
+
+  let items: SlashCommand[] = [];
+  let status: string | undefined;
+  if (searchKey !== null) {
+    if (results?.key === searchKey) {
+      items = results.items;
+      if (items.length === 0) status = "No matches";
+    } else {
+      status = "Searching…";
+    }
+  } else if (trigger?.prefix === "/" && !trigger.query.includes(" ")) {
+    items = commands.filter((command) => matches(command, trigger.query));
+  }
+  const isOpen = trigger !== null && (items.length > 0 || status !== undefined);
+
+  const close = () => {
+    if (trigger) setDismissedStart(trigger.start);
+    setTrigger(null);
+  };
+
+  const run = (index: number) => {
+    const command = items[index];
+    if (!trigger || !command) return;
+    const end = trigger.start + 1 + trigger.query.length;
+
+    if (command.argument && trigger.prefix === "/") {
+      const text = `/${command.argument.name} `;
+      replaceText(trigger.start, end, text);
+      setTrigger({ ...trigger, query: text.slice(1) });
+      setSelectedIndex(0);
+      return;
+    }
+
+    setTrigger(null);
+    const replacement = command.run?.() ?? "";
+    replaceText(trigger.start, end, replacement);
+  };
+
+  const { selectedIndex, setSelectedIndex, handleKeyDown: navigate } = useListNavigation({
+    count: items.length,
+    onSelect: run,
+    onClose: close,
+  });
+
+  // Searches of argument commands and tokens, e.g. the tags matching "/tag wa"
+  useEffect(() => {
+    if (searchKey === null || !search) return;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const found = await search(searchQuery);
+        if (cancelled) return;
+        setResults({ key: searchKey, items: found });
+        setSelectedIndex(0);
+      } catch (error) {
+        console.error("Slash command search failed:", error);
+        if (!cancelled) setResults({ key: searchKey, items: [] });
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+    // Searches are recreated on every render; only a new query means a new search
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchKey, setSelectedIndex]);
+
+  /**
+   * Opens, updates or closes the menu for the textarea's current text and cursor
+   */
+  const update = () => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const { value, selectionStart, selectionEnd } = textarea;
+    const lineStart = value.lastIndexOf("\n", selectionStart - 1) + 1;
+    const beforeCursor = value.slice(lineStart, selectionStart);
+    const found = selectionStart === selectionEnd ? findTrigger(beforeCursor) : null;
+
+    if (
+      !found ||
+      found.query.length > MAX_QUERY_LENGTH ||
+      (found.prefix !== "/" && !tokenSearches?.[found.prefix])
+    ) {
+      if (trigger) setTrigger(null);
+      if (dismissedStart !== null) setDismissedStart(null);
+      return;
+    }
+    const start = lineStart + found.offset;
+    if (dismissedStart === start) return;
+
+    const { prefix, query } = found;
+    if (trigger?.start === start && trigger.query === query) return;
+
+    const caret = getCaretCoordinates(textarea, start);
+    setTrigger({
+      start,
+      prefix,
+      query,
+      position: {
+        top: textarea.offsetTop + caret.top + caret.height + MENU_GAP,
+        left: textarea.offsetLeft + caret.left,
+      },
+    });
+    setSelectedIndex(0);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>): boolean => {
+    if (!isOpen) return false;
+    // Nothing highlighted: Enter is a plain line break
+    if (e.key === "Enter" && selectedIndex < 0) {
+      close();
+      return false;
+    }
+    if (e.key === "Tab") {
+      e.preventDefault();
+      run(Math.max(selectedIndex, 0));
+      return true;
+    }
+    return navigate(e);
+  };
+
+  return {
+    isOpen,
+    items,
+    status,
+    position: trigger?.position ?? { top: 0, left: 0 },
+    selectedIndex,
+    setSelectedIndex,
+    select: run,
+    update,
+    close,
+    handleKeyDown,
+  };
+};
@@ -0,0 +1,13 @@
+import { useEffect, useState } from "react";
+import { subscribeToVoiceDrafts, type VoiceDraft } from "../services/voiceDrafts";
+
+/**
+ * Returns the saved voice drafts, kept up to date as they change
+ */
+export const useVoiceDrafts = (): VoiceDraft[] => {
+  const [drafts, setDrafts] = useState<VoiceDraft[]>([]);
+
+  useEffect(() => subscribeToVoiceDrafts(setDrafts), []);
+
+  return drafts;
+};
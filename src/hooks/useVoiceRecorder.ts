@@ -0,0 +1,253 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  createVoiceDraft,
+  deleteVoiceDraft,
+  finishVoiceDraft,
+  saveVoiceDraftProgress,
+  type VoiceDraft,
+} from "../services/voiceDrafts";
+
+export type RecorderStatus = "idle" | "starting" | "recording" | "paused";
+
+/**
+ * How often the recorder hands over data, which is also how much a reload
+ * can lose
+ */
+const TIMESLICE_MS = 1_000;
+
+/**
+ * Preferred recording formats, best supported first
+ */
+const MIME_TYPES = ["audio/webm;codecs=opus", "audio/mp4", "audio/ogg;codecs=opus"];
+
+function pickMimeType(): string {
+  return MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? "";
+}
+
+interface Session {
+  recorder: MediaRecorder;
+  stream: MediaStream;
+  audioContext: AudioContext;
+  draftId: string;
+  chunks: Blob[];
+  /** Recorded time before the current stretch, excluding pauses */
+  recordedMs: number;
+  /** When the current stretch of recording started, or null while paused */
+  resumedAt: number | null;
+  frame: number;
+  /** Draft writes run one after another so they never overwrite each other */
+  saving: Promise<void>;
+}
+
+function recordedTime(session: Session): number {
+  return (
+    session.recordedMs +
+    (session.resumedAt !== null ? performance.now() - session.resumedAt : 0)
+  );
+}
+
+/**
+ * Records voice notes with MediaRecorder. Data is saved as a voice draft
+ * while recording, so an interrupted recording can still be used.
+ * @returns Recorder status, elapsed time, input level (0–1) and controls
+ */
+export const useVoiceRecorder = () => {
+  const [status, setStatus] = useState<RecorderStatus>("idle");
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const [level, setLevel] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const sessionRef = useRef<Session | null>(null);
+  // start() awaits the microphone and the draft; these tell it whether it
+  // is still wanted once they are there
+  const mountedRef = useRef(false);
+  const startingRef = useRef(false);
+
+  const release = useCallback((session: Session) => {
+    cancelAnimationFrame(session.frame);
+    session.stream.getTracks().forEach((track) => track.stop());
+    session.audioContext.close().catch(() => undefined);
+    if (sessionRef.current === session) sessionRef.current = null;
+    setStatus("idle");
+    setLevel(0);
+    setElapsedMs(0);
+  }, []);
+
+  // Leaving the page stops the microphone; what was recorded stays a draft
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+      const session = sessionRef.current;
+      if (!session) return;
+      const durationMs = recordedTime(session);
+      session.recorder.onstop = () => {
+        session.saving
+          .then(() => finishVoiceDraft(session.draftId, session.chunks, durationMs))
+          .catch((err) => console.error("Failed to save voice draft:", err));
+      };
+      if (session.recorder.state !== "inactive") session.recorder.stop();
+      cancelAnimationFrame(session.frame);
+      session.stream.getTracks().forEach((track) => track.stop());
+      session.audioContext.close().catch(() => undefined);
+      sessionRef.current = null;
+    };
+  }, []);
+
+  const start = useCallback(async () => {
+    if (sessionRef.current || startingRef.current) return;
+    if (typeof MediaRecorder === "undefined" || !navigator.mediaDevices) {
+      setError("This browser can't record audio.");
+      return;
+    }
+    setError(null);
+    setStatus("starting");
+    startingRef.current = true;
+
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (err) {
+      startingRef.current = false;
+      if (!mountedRef.current) return;
+      setStatus("idle");
+      setError(
+        err instanceof DOMException && err.name === "NotAllowedError"
+          ? "Microphone access was denied."
+          : "Couldn't start the microphone."
+      );
+      return;
+    }
+    const stopStream = () => stream.getTracks().forEach((track) => track.stop());
+    // The editor closed while the browser asked for the microphone
+    if (!mountedRef.current) {
+      startingRef.current = false;
+      stopStream();
+      return;
+    }
+
+    const mimeType = pickMimeType();
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    let draft: VoiceDraft;
+    try {
+      draft = await createVoiceDraft(recorder.mimeType || mimeType || "audio/webm");
+    } catch (err) {
+      // Without a draft a reload would lose the recording; don't start one
+      console.error("Failed to create voice draft:", err);
+      startingRef.current = false;
+      stopStream();
+      if (!mountedRef.current) return;
+      setStatus("idle");
+      setError("Couldn't save the recording on this device.");
+      return;
+    }
+    startingRef.current = false;
+    if (!mountedRef.current) {
+      stopStream();
+      deleteVoiceDraft(draft.id).catch((err) =>
+        console.error("Failed to remove voice draft:", err)
+      );
+      return;
+    }
+
+    // Level meter: RMS of the input, smoothed by the animation frame rate
+    const audioContext = new AudioContext();
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 512;
+    audioContext.createMediaStreamSource(stream).connect(analyser);
+    const samples = new Uint8Array(analyser.fftSize);
+
+    const session: Session = {
+      recorder,
+      stream,
+      audioContext,
+      draftId: draft.id,
+      chunks: [],
+      recordedMs: 0,
+      resumedAt: performance.now(),
+      frame: 0,
+      saving: Promise.resolve(),
+    };
+    sessionRef.current = session;
+
+    const tick = () => {
+      analyser.getByteTimeDomainData(samples);
+      let sum = 0;
+      samples.forEach((sample) => {
+        const centered = (sample - 128) / 128;
+        sum += centered * centered;
+      });
+      setLevel(session.resumedAt !== null ? Math.min(1, Math.sqrt(sum / samples.length) * 3) : 0);
+      setElapsedMs(recordedTime(session));
+      session.frame = requestAnimationFrame(tick);
+    };
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size === 0) return;
+      session.chunks.push(event.data);
+      const chunks = [...session.chunks];
+      const durationMs = recordedTime(session);
+      session.saving = session.saving
+        .then(() => saveVoiceDraftProgress(session.draftId, chunks, durationMs))
+        .catch((err) => console.error("Failed to save voice draft:", err));
+    };
+
+    recorder.start(TIMESLICE_MS);
+    session.frame = requestAnimationFrame(tick);
+    setStatus("recording");
+  }, []);
+
+  const pause = useCallback(() => {
+    const session = sessionRef.current;
+    if (!session || session.recorder.state !== "recording") return;
+    session.recorder.pause();
+    session.recordedMs = recordedTime(session);
+    session.resumedAt = null;
+    setStatus("paused");
+  }, []);
+
+  const resume = useCallback(() => {
+    const session = sessionRef.current;
+    if (!session || session.recorder.state !== "paused") return;
+    session.recorder.resume();
+    session.resumedAt = performance.now();
+    setStatus("recording");
+  }, []);
+
+  /**
+   * Stops recording and finishes the draft
+   * @returns The finished draft, or undefined if nothing was recorded
+   */
+  const stop = useCallback(async (): Promise<VoiceDraft | undefined> => {
+    const session = sessionRef.current;
+    if (!session) return undefined;
+    const durationMs = recordedTime(session);
+    const stopped = new Promise((resolve) => {
+      session.recorder.onstop = resolve;
+    });
+    session.recorder.stop();
+    await stopped;
+    release(session);
+
+    await session.saving;
+    if (session.chunks.length === 0) {
+      await deleteVoiceDraft(session.draftId);
+      return undefined;
+    }
+    return finishVoiceDraft(session.draftId, session.chunks, durationMs);
+  }, [release]);
+
+  /**
+   * Stops recording and throws the recording away
+   */
+  const discard = useCallback(async () => {
+    const session = sessionRef.current;
+    if (!session) return;
+    session.recorder.ondataavailable = null;
+    session.recorder.stop();
+    release(session);
+    await session.saving;
+    await deleteVoiceDraft(session.draftId);
+  }, [release]);
+
+  return { status, elapsedMs, level, error, start, pause, resume, stop, discard };
+};
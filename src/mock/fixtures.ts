@@ -0,0 +1,156 @@
+/**
+ * Seed data for the in-browser mock backend.
+ * Shapes mirror the server records behind the types in services/api.ts.
+ */
+import type { ThemeConfig } from "../services/api";
+
+export interface MockTagRecord {
+  id: number;
+  name: string;
+  searchHint: string;
+  type: string;
+  config: Record<string, unknown>;
+  parentId: number | null;
+  lastUsed?: string;
+}
+
+export interface MockEntryRecord {
+  id: number;
+  content: string;
+  searchHint: string;
+  isHighlighted: boolean;
+  mediaPaths: string[];
+  locationId: number | null;
+  tagIds: number[];
+  createdAt: string;
+}
+
+export interface MockThemeRecord {
+  id: number;
+  name: string;
+  config: ThemeConfig;
+  isDefault: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MockFixtures {
+  tags: MockTagRecord[];
+  entries: MockEntryRecord[];
+  themes: MockThemeRecord[];
+}
+
+export const DEFAULT_THEME_CONFIG: ThemeConfig = {
+  colors: {
+    text: "#1f2328",
+    secondary: "#656d76",
+    tertiary: "#8c959f",
+    background: "#ffffff",
+    paper: "#ffffff",
+    border: "#d0d7de",
+    accent: "#0969da",
+    error: "#cf222e",
+    success: "#1a7f37",
+  },
+  darkColors: {
+    text: "#e6edf3",
+    secondary: "#8b949e",
+    tertiary: "#656d76",
+    background: "#0d1117",
+    paper: "#0d1117",
+    border: "#30363d",
+    accent: "#4493f8",
+    error: "#f85149",
+    success: "#2ea043",
+  },
+  typography: {
+    fontFamily: "Georgia, serif",
+    fontSize: "16px",
+    lineHeight: 1.6,
+    headingFont: "Georgia, serif",
+  },
+  formatting: {
+    dateFormat: "MMM d, yyyy",
+    timeFormat: "HH:mm",
+    locale: "en-US",
+  },
+  export: {
+    pageSize: "A5",
+    fontFamily: "Georgia, serif",
+    fontSize: "10pt",
+    lineHeight: 1.4,
+    margins: { top: 12, right: 12, bottom: 12, left: 12 },
+    showTags: true,
+    showLocation: true,
+  },
+};
+
+const SAMPLE_CONTENT = [
+  "Morning run along the lake. Cold, but the light was *beautiful*.",
+  "Long planning meeting. Agreed to ship the **search rewrite** next sprint.",
+  "Tried the new phở place around the corner — broth was rich, noodles a bit soft.",
+  "Reading before bed:  \nfinished the second part, the ending felt rushed.",
+  "Called mom. She's planting tomatoes again this year.",
+  "Bookmarking this for later:\n\n[🔗](https://example.com/article)",
+  "Rainy afternoon. Coffee, jazz, and finally cleared the inbox.",
+  "Train to the coast. Notes:\n\n- window seat\n- forgot the charger\n- sea at 16:40",
+];
+
+/**
+ * Builds a fresh copy of the default fixtures, with entries spread
+ * over the weeks before `now`
+ * @param now - Reference time for entry dates (defaults to the current time)
+ * @param entryCount - How many entries to generate
+ */
+export function createFixtures(
+  now: Date = new Date(),
+  entryCount: number = 30
+): MockFixtures {
+  const iso = (offsetHours: number) =>
+    new Date(now.getTime() - offsetHours * 60 * 60 * 1000).toISOString();
+
+  const tags: MockTagRecord[] = [
+    { id: 1, name: "work", searchHint: "work job", type: "tag", config: { backgroundColor: "hsl(210, 70%, 70%)", textColor: "#000000" }, parentId: null },
+    { id: 2, name: "family", searchHint: "family gia dinh", type: "tag", config: { backgroundColor: "hsl(20, 75%, 70%)", textColor: "#000000" }, parentId: null },
+    { id: 3, name: "food", searchHint: "food an uong", type: "tag", config: { backgroundColor: "hsl(45, 80%, 65%)", textColor: "#000000" }, parentId: null },
+    { id: 4, name: "running", searchHint: "running chay bo", type: "tag", config: { backgroundColor: "hsl(140, 55%, 65%)", textColor: "#000000" }, parentId: null },
+    { id: 5, name: "books", searchHint: "books sach", type: "tag", config: { backgroundColor: "hsl(280, 55%, 75%)", textColor: "#000000" }, parentId: null },
+    { id: 6, name: "travel", searchHint: "travel du lich", type: "tag", config: { backgroundColor: "hsl(180, 55%, 65%)", textColor: "#000000" }, parentId: null },
+    { id: 7, name: "meetings", searchHint: "meetings hop", type: "tag", config: { backgroundColor: "hsl(220, 60%, 78%)", textColor: "#000000" }, parentId: 1 },
+    { id: 101, name: "Home", searchHint: "home nha", type: "location", config: { latitude: 21.03621, longitude: 105.83501, radius: 100 }, parentId: null },
+    { id: 102, name: "Office", searchHint: "office van phong", type: "location", config: { latitude: 21.02302, longitude: 105.84117, radius: 150 }, parentId: null },
+    { id: 103, name: "Hanoi", searchHint: "hanoi ha noi", type: "location", config: { latitude: 21.0285, longitude: 105.8542, radius: 15000 }, parentId: null },
+    { id: 104, name: "Hoan Kiem", searchHint: "hoan kiem", type: "location", config: { latitude: 21.02875, longitude: 105.85237, radius: 1500 }, parentId: 103 },
+  ];
+
+  const tagSets = [[4], [1, 7], [3], [5], [2], [], [], [6]];
+  const locations = [104, 102, 103, 101, 101, 101, 101, 103];
+
+  const entries: MockEntryRecord[] = Array.from({ length: entryCount }, (_, i) => {
+    const sample = i % SAMPLE_CONTENT.length;
+    const createdAt = iso(6 + i * 17);
+    return {
+      id: new Date(createdAt).getTime(),
+      content: SAMPLE_CONTENT[sample],
+      searchHint: SAMPLE_CONTENT[sample].toLowerCase(),
+      isHighlighted: i % 9 === 0,
+      mediaPaths: [],
+      locationId: locations[sample],
+      tagIds: tagSets[sample],
+      createdAt,
+    };
+  });
+
+  const themes: MockThemeRecord[] = [
+    {
+      id: 1,
+      name: "Default",
+      config: DEFAULT_THEME_CONFIG,
+      isDefault: true,
+      createdAt: iso(24 * 60),
+      updatedAt: iso(24 * 60),
+    },
+  ];
+
+  return { tags, entries, themes };
+}
@@ -0,0 +1,914 @@
+/**
+ * In-browser stand-in for the life-log API.
+ * `mockFetch` has the same signature as `fetch` and is swapped in by the
+ * HTTP core when the mock backend is enabled, so every endpoint in
+ * services/api.ts can be exercised without a server or a real API key.
+ */
+import type { UploadProgressListener } from "../services/http";
+import type {
+  Entry,
+  EntryRevision,
+  EntryTemplate,
+  FetchEntriesResponse,
+  Summary,
+  SummaryPeriod,
+  Tag,
+  Theme,
+} from "../services/api";
+import { parseEntry } from "../services/schemas";
+import { buildSummary } from "../utils/summaries";
+import {
+  createFixtures,
+  DEFAULT_THEME_CONFIG,
+  type MockEntryRecord,
+  type MockFixtures,
+  type MockTagRecord,
+  type MockThemeRecord,
+} from "./fixtures";
+
+/**
+ * Simulated round-trip time for every request
+ */
+const MOCK_LATENCY_MS = 150;
+
+/**
+ * Lifetime of signed media URLs when the caller doesn't ask for one
+ */
+const DEFAULT_SIGNED_URL_EXPIRY_MS = 60 * 60 * 1000;
+
+/**
+ * Simulated upload bandwidth, slow enough to watch progress and cancel
+ */
+const MOCK_UPLOAD_BYTES_PER_SECOND = 1024 * 1024;
+
+const MOCK_PROGRESS_INTERVAL_MS = 100;
+
+interface MockUploadSession {
+  uploadId: string;
+  filename: string;
+  size: number;
+  mimeType: string;
+  chunkSize: number;
+  chunks: Map<number, Blob>;
+}
+
+interface MockRevisionRecord {
+  id: number;
+  entryId: number;
+  content: string;
+  tagIds: number[];
+  locationId: number | null;
+  mediaPaths: string[];
+  createdAt: string;
+}
+
+interface MockTemplateRecord {
+  id: number;
+  name: string;
+  content: string;
+  tagIds: number[];
+  locationId: number | null;
+  defaultWeekdays: number[];
+  updatedAt: string;
+}
+
+interface MockDatabase extends MockFixtures {
+  media: Map<string, Blob>;
+  uploadSessions: Map<string, MockUploadSession>;
+  objectUrls: Map<string, string>;
+  nextTagId: number;
+  nextThemeId: number;
+  summaries: Summary[];
+  nextSummaryId: number;
+  templates: MockTemplateRecord[];
+  nextTemplateId: number;
+  revisions: MockRevisionRecord[];
+  nextRevisionId: number;
+}
+
+let db: MockDatabase | null = null;
+
+/**
+ * Replaces the mock database contents
+ * @param fixtures - Records to load (defaults to freshly generated fixtures)
+ */
+export function seedMockDatabase(fixtures: MockFixtures = createFixtures()): void {
+  db?.objectUrls.forEach((url) => URL.revokeObjectURL(url));
+  const copy = structuredClone(fixtures);
+  db = {
+    ...copy,
+    media: new Map(),
+    uploadSessions: new Map(),
+    objectUrls: new Map(),
+    nextTagId: Math.max(0, ...copy.tags.map((t) => t.id)) + 1,
+    nextThemeId: Math.max(0, ...copy.themes.map((t) => t.id)) + 1,
+    summaries: [],
+    nextSummaryId: 1,
+    templates: [],
+    nextTemplateId: 1,
+    revisions: [],
+    nextRevisionId: 1,
+  };
+}
+
+/**
+ * Empties the mock database
+ */
+export function resetMockDatabase(): void {
+  seedMockDatabase({ tags: [], entries: [], themes: [] });
+}
+
+function getDb(): MockDatabase {
+  if (!db) seedMockDatabase();
+  return db!;
+}
+
+// ---- Record → response shape conversion ----
+
+function toTag(record: MockTagRecord, withParent = true): Tag {
+  const parentRecord =
+    withParent && record.parentId !== null
+      ? getDb().tags.find((t) => t.id === record.parentId)
+      : undefined;
+  return {
+    id: record.id,
+    name: record.name,
+    searchHint: record.searchHint,
+    type: record.type,
+    lastUsed: record.lastUsed,
+    config: { ...record.config },
+    parent: parentRecord ? toTag(parentRecord, false) : null,
+  };
+}
+
+/**
+ * Entries as the real server sends them: embedded tags carry only id and name
+ */
+type EntryResponse = Omit<Entry, "tags"> & {
+  tags: Array<{ id: number; name: string }>;
+};
+
+function toEntry(record: MockEntryRecord): EntryResponse {
+  const { tags } = getDb();
+  const location = tags.find((t) => t.id === record.locationId);
+  return {
+    id: record.id,
+    content: record.content,
+    searchHint: record.searchHint,
+    isHighlighted: record.isHighlighted,
+    mediaPaths: [...record.mediaPaths],
+    location: location ? toTag(location) : null,
+    createdAt: record.createdAt,
+    tags: record.tagIds
+      .map((id) => tags.find((t) => t.id === id))
+      .filter((t): t is MockTagRecord => Boolean(t))
+      .map((t) => ({ id: t.id, name: t.name })),
+  };
+}
+
+function toRevision(record: MockRevisionRecord): EntryRevision {
+  const { tags } = getDb();
+  const location = tags.find((t) => t.id === record.locationId);
+  return {
+    id: record.id,
+    entryId: record.entryId,
+    content: record.content,
+    tags: record.tagIds
+      .map((id) => tags.find((t) => t.id === id))
+      .filter((t): t is MockTagRecord => Boolean(t))
+      .map((t) => toTag(t)),
+    location: location ? toTag(location) : null,
+    mediaPaths: [...record.mediaPaths],
+    createdAt: record.createdAt,
+  };
+}
+
+function toTemplate(record: MockTemplateRecord): EntryTemplate {
+  const { tags } = getDb();
+  const location = tags.find((t) => t.id === record.locationId);
+  return {
+    id: record.id,
+    name: record.name,
+    content: record.content,
+    tags: record.tagIds
+      .map((id) => tags.find((t) => t.id === id))
+      .filter((t): t is MockTagRecord => Boolean(t))
+      .map((t) => toTag(t)),
+    location: location ? toTag(location) : null,
+    defaultWeekdays: [...record.defaultWeekdays],
+    updatedAt: record.updatedAt,
+  };
+}
+
+function toTheme(record: MockThemeRecord): Theme {
+  return structuredClone(record);
+}
+
+// ---- Responses ----
+
+class MockHttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+function json(data: unknown, status = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function notFound(what: string): never {
+  throw new MockHttpError(404, `${what} not found`);
+}
+
+// ---- Request context ----
+
+interface MockRequest {
+  method: string;
+  params: string[];
+  query: URLSearchParams;
+  body: unknown;
+  formData: FormData | null;
+}
+
+type Handler = (req: MockRequest) => Response | Promise<Response>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handler: Handler;
+}
+
+const routes: Route[] = [];
+
+function route(method: string, pattern: RegExp, handler: Handler): void {
+  routes.push({ method, pattern, handler });
+}
+
+function bodyOf<T>(req: MockRequest): Partial<T> {
+  return (req.body ?? {}) as Partial<T>;
+}
+
+function markUsed(ids: Array<number | null | undefined>, at: string): void {
+  getDb().tags.forEach((tag) => {
+    if (ids.includes(tag.id)) tag.lastUsed = at;
+  });
+}
+
+function paginate(
+  records: MockEntryRecord[],
+  query: URLSearchParams
+): Omit<FetchEntriesResponse, "entries"> & { entries: EntryResponse[] } {
+  const page = Math.max(1, parseInt(query.get("page") || "1", 10));
+  const pageSize = Math.max(1, parseInt(query.get("pageSize") || "10", 10));
+  const sorted = [...records].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  const start = (page - 1) * pageSize;
+  return {
+    entries: sorted.slice(start, start + pageSize).map(toEntry),
+    total: sorted.length,
+    page,
+    pageSize,
+    hasMore: start + pageSize < sorted.length,
+  };
+}
+
+function findEntry(id: string): MockEntryRecord {
+  return getDb().entries.find((e) => e.id === Number(id)) ?? notFound("Entry");
+}
+
+/**
+ * Keeps a copy of the entry as it is now
+ */
+function recordRevision(entry: MockEntryRecord, at: string): void {
+  const data = getDb();
+  data.revisions.push({
+    id: data.nextRevisionId++,
+    entryId: entry.id,
+    content: entry.content,
+    tagIds: [...entry.tagIds],
+    locationId: entry.locationId,
+    mediaPaths: [...entry.mediaPaths],
+    createdAt: at,
+  });
+}
+
+function findTag(id: string): MockTagRecord {
+  return getDb().tags.find((t) => t.id === Number(id)) ?? notFound("Tag");
+}
+
+function findTheme(id: string): MockThemeRecord {
+  return getDb().themes.find((t) => t.id === Number(id)) ?? notFound("Theme");
+}
+
+// ---- Entries ----
+
+route("GET", /^\/entries$/, (req) => json(paginate(getDb().entries, req.query)));
+
+route("GET", /^\/entries\/search$/, (req) => {
+  const q = (req.query.get("q") || "").toLowerCase().trim();
+  const tagIds = (req.query.get("tagIds") || "")
+    .split(",")
+    .filter(Boolean)
+    .map(Number);
+  const matches = getDb().entries.filter(
+    (entry) =>
+      (!q ||
+        entry.searchHint.toLowerCase().includes(q) ||
+        entry.content.toLowerCase().includes(q)) &&
+      tagIds.every((id) => entry.tagIds.includes(id))
+  );
+  return json(paginate(matches, req.query));
+});
+
+route("POST", /^\/entries$/, (req) => {
+  const body = bodyOf<MockEntryRecord & { locationId: number; tagIds: number[] }>(req);
+  if (typeof body.content !== "string") {
+    throw new MockHttpError(400, "content is required");
+  }
+  const createdAt = body.createdAt || new Date().toISOString();
+  const id = body.id ?? Date.now();
+  if (getDb().entries.some((e) => e.id === id)) {
+    throw new MockHttpError(409, `Entry ${id} already exists`);
+  }
+  const record: MockEntryRecord = {
+    id,
+    content: body.content,
+    searchHint: body.searchHint || body.content.toLowerCase(),
+    isHighlighted: body.isHighlighted ?? false,
+    mediaPaths: body.mediaPaths ?? [],
+    locationId: body.locationId ?? null,
+    tagIds: body.tagIds ?? [],
+    createdAt,
+  };
+  getDb().entries.push(record);
+  markUsed([record.locationId, ...record.tagIds], new Date().toISOString());
+  recordRevision(record, createdAt);
+  return json(toEntry(record), 201);
+});
+
+route("POST", /^\/entries\/export-pdf$/, (req) => {
+  const { startDate, endDate } = bodyOf<{ startDate: string; endDate: string }>(req);
+  if (!startDate || !endDate) {
+    throw new MockHttpError(400, "startDate and endDate are required");
+  }
+  const end = `${endDate}T23:59:59.999Z`;
+  const lines = getDb()
+    .entries.filter((e) => e.createdAt >= startDate && e.createdAt <= end)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .map((e) => `${e.createdAt.slice(0, 16).replace("T", " ")}  ${e.content.split("\n")[0]}`);
+  return new Response(buildPdf([`Life log ${startDate} to ${endDate}`, "", ...lines]), {
+    status: 200,
+    headers: { "Content-Type": "application/pdf" },
+  });
+});
+
+route("GET", /^\/entries\/(\d+)$/, (req) => json(toEntry(findEntry(req.params[0]))));
+
+route("PUT", /^\/entries\/(\d+)$/, (req) => {
+  const record = findEntry(req.params[0]);
+  const body = bodyOf<MockEntryRecord>(req);
+  // Fixture entries have no history yet; keep the version being replaced
+  if (!getDb().revisions.some((r) => r.entryId === record.id)) {
+    recordRevision(record, record.createdAt);
+  }
+  Object.assign(
+    record,
+    Object.fromEntries(Object.entries(body).filter(([, v]) => v !== undefined))
+  );
+  const now = new Date().toISOString();
+  markUsed([record.locationId, ...record.tagIds], now);
+  recordRevision(record, now);
+  return json(toEntry(record));
+});
+
+route("GET", /^\/entries\/(\d+)\/revisions$/, (req) => {
+  const record = findEntry(req.params[0]);
+  return json(
+    getDb()
+      .revisions.filter((r) => r.entryId === record.id)
+      .sort((a, b) => b.id - a.id)
+      .map(toRevision)
+  );
+});
+
+route("DELETE", /^\/entries\/(\d+)$/, (req) => {
+  const record = findEntry(req.params[0]);
+  const data = getDb();
+  data.entries = data.entries.filter((e) => e !== record);
+  data.revisions = data.revisions.filter((r) => r.entryId !== record.id);
+  return json({ message: "Entry deleted successfully" });
+});
+
+// ---- Tags ----
+
+route("GET", /^\/tags$/, () => json(getDb().tags.map((t) => toTag(t))));
+
+route("GET", /^\/tags\/suggestions\/search$/, (req) => {
+  const q = (req.query.get("q") || "").toLowerCase().trim();
+  const type = req.query.get("type");
+  const limit = parseInt(req.query.get("limit") || "10", 10);
+  const matches = getDb()
+    .tags.filter(
+      (tag) =>
+        (!type || tag.type === type) &&
+        (!q ||
+          tag.name.toLowerCase().includes(q) ||
+          tag.searchHint.toLowerCase().includes(q))
+    )
+    .sort((a, b) => (b.lastUsed || "").localeCompare(a.lastUsed || ""))
+    .slice(0, limit);
+  return json(matches.map((t) => toTag(t)));
+});
+
+route("POST", /^\/tags$/, (req) => {
+  const body = bodyOf<MockTagRecord>(req);
+  if (!body.name) throw new MockHttpError(400, "name is required");
+  const data = getDb();
+  if (data.tags.some((t) => t.name === body.name && t.type === (body.type || "tag"))) {
+    throw new MockHttpError(409, `Tag "${body.name}" already exists`);
+  }
+  const record: MockTagRecord = {
+    id: data.nextTagId++,
+    name: body.name,
+    searchHint: body.searchHint || body.name,
+    type: body.type || "tag",
+    config: body.config ?? {},
+    parentId: body.parentId ?? null,
+  };
+  data.tags.push(record);
+  return json(toTag(record), 201);
+});
+
+route("PUT", /^\/tags\/(\d+)$/, (req) => {
+  const record = findTag(req.params[0]);
+  const body = bodyOf<MockTagRecord>(req);
+  Object.assign(
+    record,
+    Object.fromEntries(Object.entries(body).filter(([, v]) => v !== undefined))
+  );
+  return json(toTag(record));
+});
+
+route("DELETE", /^\/tags\/(\d+)$/, (req) => {
+  const record = findTag(req.params[0]);
+  const data = getDb();
+  data.tags = data.tags.filter((t) => t !== record);
+  data.tags.forEach((t) => {
+    if (t.parentId === record.id) t.parentId = null;
+  });
+  data.entries.forEach((e) => {
+    e.tagIds = e.tagIds.filter((id) => id !== record.id);
+    if (e.locationId === record.id) e.locationId = null;
+  });
+  return json({ message: "Tag deleted successfully" });
+});
+
+// ---- Media ----
+
+function signedUrlFor(filename: string, expiryMs?: number) {
+  const data = getDb();
+  const blob = data.media.get(filename) ?? notFound("Media file");
+  let url = data.objectUrls.get(filename);
+  if (!url) {
+    url = URL.createObjectURL(blob);
+    data.objectUrls.set(filename, url);
+  }
+  return {
+    url,
+    signature: "mock",
+    expires: Date.now() + (expiryMs ?? DEFAULT_SIGNED_URL_EXPIRY_MS),
+    filename,
+  };
+}
+
+/**
+ * Stores an uploaded file under a timestamp-based name like the real server
+ * @returns Upload response body
+ */
+function storeMedia(file: Blob, name: string) {
+  const data = getDb();
+  const ext = name.split(".").pop() || "bin";
+  let stamp = Date.now();
+  while (data.media.has(`${stamp}.${ext}`)) stamp++;
+  const filename = `${stamp}.${ext}`;
+  data.media.set(filename, file);
+  const signed = signedUrlFor(filename);
+  return { id: String(stamp), path: filename, filename, url: signed.url };
+}
+
+route("POST", /^\/media\/upload$/, (req) => {
+  const file = req.formData?.get("file");
+  if (!(file instanceof Blob)) throw new MockHttpError(400, "file is required");
+  return json(storeMedia(file, file instanceof File ? file.name : "upload.bin"), 201);
+});
+
+// Chunked uploads: init → chunks in any order → complete
+
+const MOCK_MAX_CHUNK_SIZE = 8 * 1024 * 1024;
+
+function findUploadSession(id: string): MockUploadSession {
+  return getDb().uploadSessions.get(id) ?? notFound("Upload session");
+}
+
+function chunkCountOf(session: MockUploadSession): number {
+  return Math.max(1, Math.ceil(session.size / session.chunkSize));
+}
+
+function describeSession(session: MockUploadSession) {
+  return {
+    uploadId: session.uploadId,
+    chunkSize: session.chunkSize,
+    receivedChunks: [...session.chunks.keys()].sort((a, b) => a - b),
+  };
+}
+
+route("POST", /^\/media\/uploads$/, (req) => {
+  const body = bodyOf<{ filename: string; size: number; mimeType: string; chunkSize: number }>(req);
+  if (!body.filename || typeof body.size !== "number" || body.size < 0) {
+    throw new MockHttpError(400, "filename and size are required");
+  }
+  const session: MockUploadSession = {
+    uploadId: `upload-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+    filename: body.filename,
+    size: body.size,
+    mimeType: body.mimeType || "application/octet-stream",
+    chunkSize: Math.min(body.chunkSize || MOCK_MAX_CHUNK_SIZE, MOCK_MAX_CHUNK_SIZE),
+    chunks: new Map(),
+  };
+  getDb().uploadSessions.set(session.uploadId, session);
+  return json(describeSession(session), 201);
+});
+
+route("GET", /^\/media\/uploads\/([^/]+)$/, (req) =>
+  json(describeSession(findUploadSession(decodeURIComponent(req.params[0]))))
+);
+
+route("PUT", /^\/media\/uploads\/([^/]+)\/chunks\/(\d+)$/, (req) => {
+  const session = findUploadSession(decodeURIComponent(req.params[0]));
+  const index = Number(req.params[1]);
+  const chunk = req.formData?.get("chunk");
+  if (!(chunk instanceof Blob)) throw new MockHttpError(400, "chunk is required");
+  if (index >= chunkCountOf(session)) {
+    throw new MockHttpError(400, `Chunk ${index} is out of range`);
+  }
+  const expected = Math.min(session.chunkSize, session.size - index * session.chunkSize);
+  if (chunk.size !== expected) {
+    throw new MockHttpError(400, `Chunk ${index} should be ${expected} bytes, got ${chunk.size}`);
+  }
+  session.chunks.set(index, chunk);
+  return json(describeSession(session));
+});
+
+route("POST", /^\/media\/uploads\/([^/]+)\/complete$/, (req) => {
+  const session = findUploadSession(decodeURIComponent(req.params[0]));
+  const missing = Array.from({ length: chunkCountOf(session) }, (_, i) => i).filter(
+    (i) => !session.chunks.has(i)
+  );
+  if (missing.length > 0) {
+    throw new MockHttpError(409, `Missing chunks: ${missing.join(", ")}`);
+  }
+  const parts = [...session.chunks.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([, chunk]) => chunk);
+  getDb().uploadSessions.delete(session.uploadId);
+  return json(
+    storeMedia(new Blob(parts, { type: session.mimeType }), session.filename),
+    201
+  );
+});
+
+route("DELETE", /^\/media\/uploads\/([^/]+)$/, (req) => {
+  const session = findUploadSession(decodeURIComponent(req.params[0]));
+  getDb().uploadSessions.delete(session.uploadId);
+  return json({ message: "Upload discarded" });
+});
+
+route("POST", /^\/media\/sign$/, (req) => {
+  const { filename, expiryMs } = bodyOf<{ filename: string; expiryMs: number }>(req);
+  if (!filename) throw new MockHttpError(400, "filename is required");
+  return json(signedUrlFor(filename, expiryMs));
+});
+
+route("POST", /^\/media\/sign\/batch$/, (req) => {
+  const { filenames, expiryMs } = bodyOf<{ filenames: string[]; expiryMs: number }>(req);
+  if (!Array.isArray(filenames)) throw new MockHttpError(400, "filenames is required");
+  // Unknown files are left out rather than failing the whole batch
+  return json(
+    filenames
+      .filter((filename) => getDb().media.has(filename))
+      .map((filename) => signedUrlFor(filename, expiryMs))
+  );
+});
+
+route("GET", /^\/media\/download\/([^/]+)$/, (req) => {
+  const blob = getDb().media.get(decodeURIComponent(req.params[0])) ?? notFound("Media file");
+  return new Response(blob, { status: 200, headers: { "Content-Type": blob.type } });
+});
+
+// ---- Summaries ----
+
+const SUMMARY_PERIODS: SummaryPeriod[] = ["week", "month", "year"];
+
+function readPeriod(period: string | null | undefined, startDate: string | null | undefined) {
+  if (!period || !SUMMARY_PERIODS.includes(period as SummaryPeriod) || !startDate) {
+    throw new MockHttpError(400, "period and startDate are required");
+  }
+  return { period: period as SummaryPeriod, startDate };
+}
+
+function findSummary(period: SummaryPeriod, startDate: string): Summary | undefined {
+  return getDb().summaries.find((s) => s.period === period && s.startDate === startDate);
+}
+
+/**
+ * Inserts a summary, or replaces the stored one for the same period
+ */
+function storeSummary(summary: Summary): Summary {
+  const data = getDb();
+  const existing = findSummary(summary.period, summary.startDate);
+  const stored: Summary = {
+    ...summary,
+    id: existing?.id ?? data.nextSummaryId++,
+    updatedAt: new Date().toISOString(),
+  };
+  data.summaries = [...data.summaries.filter((s) => s !== existing), stored];
+  return stored;
+}
+
+route("GET", /^\/summaries$/, (req) => {
+  const { period, startDate } = readPeriod(req.query.get("period"), req.query.get("startDate"));
+  return json(findSummary(period, startDate) ?? notFound("Summary"));
+});
+
+route("POST", /^\/summaries\/generate$/, (req) => {
+  const body = bodyOf<Summary>(req);
+  const { period, startDate } = readPeriod(body.period, body.startDate);
+  const entries = getDb().entries.map((record) => parseEntry(toEntry(record)));
+  return json(storeSummary(buildSummary(period, startDate, entries)));
+});
+
+route("POST", /^\/summaries$/, (req) => {
+  const body = bodyOf<Summary>(req);
+  const { period, startDate } = readPeriod(body.period, body.startDate);
+  return json(storeSummary({ ...(body as Summary), period, startDate }), 201);
+});
+
+route("PUT", /^\/summaries\/(\d+)$/, (req) => {
+  const data = getDb();
+  const summary =
+    data.summaries.find((s) => s.id === Number(req.params[0])) ?? notFound("Summary");
+  const { recap } = bodyOf<Summary>(req);
+  if (typeof recap !== "string") {
+    throw new MockHttpError(400, "recap is required");
+  }
+  return json(storeSummary({ ...summary, recap }));
+});
+
+// ---- Templates ----
+
+function findTemplate(id: string): MockTemplateRecord {
+  return getDb().templates.find((t) => t.id === Number(id)) ?? notFound("Template");
+}
+
+function readTemplateBody(req: MockRequest): Omit<MockTemplateRecord, "id"> {
+  const body = bodyOf<MockTemplateRecord>(req);
+  if (!body.name) throw new MockHttpError(400, "name is required");
+  return {
+    name: body.name,
+    content: body.content ?? "",
+    tagIds: body.tagIds ?? [],
+    locationId: body.locationId ?? null,
+    defaultWeekdays: body.defaultWeekdays ?? [],
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+route("GET", /^\/templates$/, () => json(getDb().templates.map(toTemplate)));
+
+route("POST", /^\/templates$/, (req) => {
+  const data = getDb();
+  const record: MockTemplateRecord = { id: data.nextTemplateId++, ...readTemplateBody(req) };
+  data.templates.push(record);
+  return json(toTemplate(record), 201);
+});
+
+route("PUT", /^\/templates\/(\d+)$/, (req) => {
+  const record = findTemplate(req.params[0]);
+  Object.assign(record, readTemplateBody(req));
+  return json(toTemplate(record));
+});
+
+route("DELETE", /^\/templates\/(\d+)$/, (req) => {
+  const record = findTemplate(req.params[0]);
+  const data = getDb();
+  data.templates = data.templates.filter((t) => t !== record);
+  return json({ message: "Template deleted successfully" });
+});
+
+// ---- Themes ----
+
+route("GET", /^\/themes$/, () => json(getDb().themes.map(toTheme)));
+
+route("GET", /^\/themes\/active$/, () => {
+  const active = getDb().themes.find((t) => t.isDefault) ?? notFound("Active theme");
+  return json(toTheme(active));
+});
+
+route("GET", /^\/themes\/defaults\/config$/, () => json(DEFAULT_THEME_CONFIG));
+
+route("GET", /^\/themes\/(\d+)$/, (req) => json(toTheme(findTheme(req.params[0]))));
+
+route("POST", /^\/themes$/, (req) => {
+  const body = bodyOf<MockThemeRecord>(req);
+  if (!body.name || !body.config) {
+    throw new MockHttpError(400, "name and config are required");
+  }
+  const data = getDb();
+  const now = new Date().toISOString();
+  const record: MockThemeRecord = {
+    id: data.nextThemeId++,
+    name: body.name,
+    config: body.config,
+    isDefault: false,
+    createdAt: now,
+    updatedAt: now,
+  };
+  data.themes.push(record);
+  if (body.isDefault) setDefault(record);
+  return json(toTheme(record), 201);
+});
+
+route("PUT", /^\/themes\/(\d+)$/, (req) => {
+  const record = findTheme(req.params[0]);
+  const body = bodyOf<MockThemeRecord>(req);
+  if (body.name !== undefined) record.name = body.name;
+  if (body.config !== undefined) record.config = body.config;
+  if (body.isDefault) setDefault(record);
+  record.updatedAt = new Date().toISOString();
+  return json(toTheme(record));
+});
+
+route("DELETE", /^\/themes\/(\d+)$/, (req) => {
+  const record = findTheme(req.params[0]);
+  if (record.isDefault) {
+    throw new MockHttpError(400, "Cannot delete the default theme");
+  }
+  const data = getDb();
+  data.themes = data.themes.filter((t) => t !== record);
+  return json({ message: "Theme deleted successfully" });
+});
+
+route("POST", /^\/themes\/(\d+)\/set-default$/, (req) => {
+  const record = findTheme(req.params[0]);
+  setDefault(record);
+  return json(toTheme(record));
+});
+
+function setDefault(record: MockThemeRecord): void {
+  getDb().themes.forEach((t) => {
+    t.isDefault = t === record;
+  });
+}
+
+// ---- PDF export ----
+
+/**
+ * Builds a minimal single-page PDF listing the given lines
+ */
+function buildPdf(lines: string[]): Blob {
+  const escape = (text: string) =>
+    text.replace(/[^\x20-\x7e]/g, "?").replace(/([()\\])/g, "\\$1");
+  const stream = [
+    "BT /F1 10 Tf 40 800 Td 14 TL",
+    ...lines.slice(0, 54).map((line) => `(${escape(line.slice(0, 95))}) '`),
+    "ET",
+  ].join("\n");
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    "<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>",
+    `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>",
+  ];
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((object, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF`;
+  return new Blob([pdf], { type: "application/pdf" });
+}
+
+// ---- fetch-compatible entry point ----
+
+function delay(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const abort = () => {
+      clearTimeout(timer);
+      reject(new DOMException("The operation was aborted.", "AbortError"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", abort);
+      resolve();
+    }, ms);
+    if (signal?.aborted) abort();
+    else signal?.addEventListener("abort", abort, { once: true });
+  });
+}
+
+async function readBody(init: RequestInit): Promise<{ body: unknown; formData: FormData | null }> {
+  if (init.body instanceof FormData) return { body: null, formData: init.body };
+  if (typeof init.body === "string" && init.body) {
+    return { body: JSON.parse(init.body), formData: null };
+  }
+  return { body: null, formData: null };
+}
+
+/**
+ * Takes as long as sending a multipart body would at the simulated
+ * bandwidth, reporting progress along the way
+ */
+async function simulateUpload(
+  formData: FormData,
+  onUploadProgress: UploadProgressListener,
+  signal?: AbortSignal | null
+): Promise<void> {
+  let total = 0;
+  formData.forEach((value) => {
+    total += typeof value === "string" ? value.length : value.size;
+  });
+  const perTick = (MOCK_UPLOAD_BYTES_PER_SECOND * MOCK_PROGRESS_INTERVAL_MS) / 1000;
+  for (let loaded = 0; loaded < total; ) {
+    await delay(MOCK_PROGRESS_INTERVAL_MS, signal);
+    loaded = Math.min(total, loaded + perTick);
+    onUploadProgress({ loaded, total });
+  }
+}
+
+/**
+ * Handles a request the way the real API would
+ * @param input - Absolute request URL (any scheme/host; only the path is used)
+ * @param init - Standard fetch options
+ * @param onUploadProgress - Called while a multipart body is "sent"
+ * @returns Promise with the simulated response
+ */
+export async function mockFetch(
+  input: RequestInfo | URL,
+  init: RequestInit = {},
+  onUploadProgress?: UploadProgressListener
+): Promise<Response> {
+  if (onUploadProgress && init.body instanceof FormData) {
+    await simulateUpload(init.body, onUploadProgress, init.signal);
+  }
+  await delay(MOCK_LATENCY_MS, init.signal);
+
+  const url = new URL(input instanceof Request ? input.url : String(input));
+  const method = (init.method || "GET").toUpperCase();
+  const headers = new Headers(init.headers);
+
+  if (!headers.get("x-api-key")) {
+    return json({ error: "Missing API key" }, 401);
+  }
+
+  for (const r of routes) {
+    if (r.method !== method) continue;
+    const match = url.pathname.match(r.pattern);
+    if (!match) continue;
+    try {
+      const { body, formData } = await readBody(init);
+      return await r.handler({
+        method,
+        params: match.slice(1),
+        query: url.searchParams,
+        body,
+        formData,
+      });
+    } catch (error) {
+      if (error instanceof MockHttpError) {
+        return json({ error: error.message }, error.status);
+      }
+      console.error("Mock backend error:", error);
+      return json({ error: "Internal mock error" }, 500);
+    }
+  }
+
+  return json({ error: `No mock route for ${method} ${url.pathname}` }, 404);
+}
+
+// Expose seeding helpers for the browser console during development
+if (import.meta.env.DEV) {
+  (window as unknown as { lifeLogMock: object }).lifeLogMock = {
+    seed: (fixtures?: MockFixtures) => seedMockDatabase(fixtures),
+    reset: resetMockDatabase,
+    createFixtures,
+  };
+}
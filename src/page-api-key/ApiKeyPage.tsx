@@ -1,28 +1,80 @@
 import { useState } from "react";
-import { KeyRound, Eye, EyeOff, Save, Check, CircleAlert } from "lucide-react";
-import { saveApiKey, getApiKey } from "../utils/apiKeyStorage";
+import { KeyRound, Eye, EyeOff, Save, Check, CircleAlert, Loader2 } from "lucide-react";
+import { saveApiKey } from "../utils/apiKeyStorage";
+import { verifyApiKey } from "../services/api";
+import { useActiveProfile } from "../hooks/useServerProfiles";
+import ServerProfiles from "./ServerProfiles";
 import "./ApiKeyPage.css";
 
 function ApiKeyPage() {
-  const initial = getApiKey() || "";
-  const [apiKey, setApiKey] = useState(initial);
-  const [savedKey, setSavedKey] = useState(initial);
+  const activeProfile = useActiveProfile();
+  const savedKey = activeProfile.apiKey;
+  const [apiKey, setApiKey] = useState(savedKey);
+  // The stored key the input last followed; it can change under the page,
+  // e.g. when the profile is edited in the list below
+  const [syncedProfile, setSyncedProfile] = useState(activeProfile);
   const [message, setMessage] = useState<{ kind: "success" | "error"; text: string } | null>(null);
   const [showKey, setShowKey] = useState(false);
+  const [checking, setChecking] = useState(false);
+  // Key the user chose to keep although the server couldn't be reached
+  const [unverifiedKey, setUnverifiedKey] = useState<string | null>(null);
+
+  if (activeProfile !== syncedProfile) {
+    setSyncedProfile(activeProfile);
+    // Keep what the user typed unless it is for another profile
+    if (activeProfile.id !== syncedProfile.id || apiKey.trim() === syncedProfile.apiKey) {
+      setApiKey(savedKey);
+      setUnverifiedKey(null);
+    }
+  }
 
   const trimmed = apiKey.trim();
   const isDirty = trimmed !== savedKey;
-  const canSave = trimmed.length > 0 && isDirty;
+  const canSave = trimmed.length > 0 && isDirty && !checking;
+  const saveAnyway = unverifiedKey !== null && unverifiedKey === trimmed;
 
-  const handleSave = () => {
+  const storeKey = (key: string, text: string) => {
+    saveApiKey(key);
+    setUnverifiedKey(null);
+    setMessage({ kind: "success", text });
+    window.setTimeout(() => setMessage(null), 2500);
+  };
+
+  const handleSave = async () => {
     if (!trimmed) {
       setMessage({ kind: "error", text: "API key cannot be empty" });
       return;
     }
-    saveApiKey(trimmed);
-    setSavedKey(trimmed);
-    setMessage({ kind: "success", text: "API key saved" });
-    window.setTimeout(() => setMessage(null), 2500);
+    if (saveAnyway) {
+      storeKey(trimmed, "API key saved without verification");
+      return;
+    }
+
+    setChecking(true);
+    setMessage(null);
+    try {
+      const result = await verifyApiKey(trimmed);
+      switch (result.status) {
+        case "valid":
+          storeKey(trimmed, "API key verified and saved");
+          break;
+        case "invalid":
+          setMessage({
+            kind: "error",
+            text: "The server rejected this key. It was not saved.",
+          });
+          break;
+        case "unreachable":
+          setUnverifiedKey(trimmed);
+          setMessage({
+            kind: "error",
+            text: `Couldn't reach the server to check this key: ${result.message} Save again to keep it anyway.`,
+          });
+          break;
+      }
+    } finally {
+      setChecking(false);
+    }
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -42,7 +94,7 @@ function ApiKeyPage() {
           API Key
         </h1>
         <p className="api-key-page__lede">
-          Used to authenticate requests to the diary API. Stored locally in a cookie on this device.
+          Used to authenticate requests to the diary API. Each server keeps its own key, stored locally on this device.
         </p>
         <span
           className={`api-key-page__status ${
@@ -57,7 +109,7 @@ function ApiKeyPage() {
       <section className="api-key-card">
         <div className="api-key-card__field">
           <label className="api-key-card__label" htmlFor="api-key-input">
-            API Key
+            API Key for {activeProfile.name}
           </label>
           <div className="api-key-card__input-wrap">
             <input
@@ -83,7 +135,7 @@ function ApiKeyPage() {
             </button>
           </div>
           <p className="api-key-card__hint">
-            Press Enter to save. The key is sent as the <code>x-api-key</code> header.
+            Press Enter to check and save. The key is sent as the <code>x-api-key</code> header.
           </p>
         </div>
 
@@ -108,11 +160,23 @@ function ApiKeyPage() {
             onClick={handleSave}
             disabled={!canSave}
           >
-            <Save size={14} aria-hidden />
-            {hasKey && !isDirty ? "Saved" : "Save API key"}
+            {checking ? (
+              <Loader2 size={14} className="api-key-btn__spin" aria-hidden />
+            ) : (
+              <Save size={14} aria-hidden />
+            )}
+            {checking
+              ? "Checking…"
+              : hasKey && !isDirty
+                ? "Saved"
+                : saveAnyway
+                  ? "Save anyway"
+                  : "Save API key"}
           </button>
         </div>
       </section>
+
+      <ServerProfiles />
     </div>
   );
 }
@@ -0,0 +1,270 @@
+import { useState } from "react";
+import { Server, Plus, Pencil, Trash2, Check, X, CircleAlert, Loader2 } from "lucide-react";
+import { MOCK_API_BASE_URL } from "../services/http";
+import { verifyApiKey } from "../services/api";
+import {
+  createProfileId,
+  deleteProfile,
+  saveProfile,
+  setActiveProfile,
+  type ServerProfile,
+} from "../utils/serverProfiles";
+import { useActiveProfile, useServerProfiles } from "../hooks/useServerProfiles";
+
+const EMPTY_FORM: ServerProfile = { id: "", name: "", baseUrl: "", apiKey: "" };
+
+/**
+ * Checks a base URL entered by the user
+ * @returns Error message, or null if the URL is usable
+ */
+function validateBaseUrl(baseUrl: string): string | null {
+  if (baseUrl === MOCK_API_BASE_URL) return null;
+  try {
+    const url = new URL(baseUrl);
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      return "Base URL must start with http:// or https://";
+    }
+    return null;
+  } catch {
+    return "Base URL is not a valid URL";
+  }
+}
+
+function ServerProfiles() {
+  const profiles = useServerProfiles();
+  const activeProfile = useActiveProfile();
+  const [form, setForm] = useState<ServerProfile | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+  // Server and key the user chose to keep although the server was unreachable
+  const [unverified, setUnverified] = useState<string | null>(null);
+
+  const isNew = form !== null && !profiles.some((p) => p.id === form.id);
+
+  const handleAdd = () => {
+    setForm({ ...EMPTY_FORM, id: createProfileId() });
+    setFormError(null);
+  };
+
+  const handleEdit = (profile: ServerProfile) => {
+    setForm({ ...profile });
+    setFormError(null);
+  };
+
+  const handleCancel = () => {
+    setForm(null);
+    setFormError(null);
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    const profile = {
+      ...form,
+      name: form.name.trim(),
+      baseUrl: form.baseUrl.trim().replace(/\/+$/, ""),
+      apiKey: form.apiKey.trim(),
+    };
+    if (!profile.name) {
+      setFormError("Name is required");
+      return;
+    }
+    const urlError = validateBaseUrl(profile.baseUrl);
+    if (urlError) {
+      setFormError(urlError);
+      return;
+    }
+
+    // Check the key before saving it, like the API key field above
+    const signature = `${profile.baseUrl}\n${profile.apiKey}`;
+    if (profile.apiKey && unverified !== signature) {
+      setChecking(true);
+      try {
+        const result = await verifyApiKey(profile.apiKey, profile.baseUrl);
+        if (result.status === "invalid") {
+          setFormError("The server rejected this key.");
+          return;
+        }
+        if (result.status === "unreachable") {
+          setUnverified(signature);
+          setFormError(
+            `Couldn't reach the server to check this key: ${result.message} Save again to keep it anyway.`
+          );
+          return;
+        }
+      } finally {
+        setChecking(false);
+      }
+    }
+
+    saveProfile(profile);
+    setForm(null);
+    setUnverified(null);
+  };
+
+  const handleDelete = (profile: ServerProfile) => {
+    if (!confirm(`Remove the server profile "${profile.name}"?`)) return;
+    deleteProfile(profile.id);
+  };
+
+  const updateForm = (patch: Partial<ServerProfile>) => {
+    setForm((prev) => (prev ? { ...prev, ...patch } : prev));
+    setFormError(null);
+  };
+
+  return (
+    <section className="api-key-card">
+      <div className="server-profiles__header">
+        <h2 className="server-profiles__title">
+          <Server size={16} aria-hidden />
+          Servers
+        </h2>
+        {!form && (
+          <button type="button" className="api-key-btn" onClick={handleAdd}>
+            <Plus size={14} aria-hidden />
+            Add server
+          </button>
+        )}
+      </div>
+
+      <ul className="server-profiles__list">
+        {profiles.map((profile) => {
+          const isActive = profile.id === activeProfile.id;
+          return (
+            <li
+              key={profile.id}
+              className={`server-profiles__item${
+                isActive ? " server-profiles__item--active" : ""
+              }`}
+            >
+              <div className="server-profiles__info">
+                <span className="server-profiles__name">{profile.name}</span>
+                <span className="server-profiles__url">{profile.baseUrl}</span>
+                {!profile.apiKey && (
+                  <span className="server-profiles__warning">
+                    <CircleAlert size={12} aria-hidden />
+                    No key set
+                  </span>
+                )}
+              </div>
+              <div className="server-profiles__actions">
+                {isActive ? (
+                  <span className="server-profiles__badge">
+                    <Check size={12} aria-hidden />
+                    Active
+                  </span>
+                ) : (
+                  <button
+                    type="button"
+                    className="api-key-btn"
+                    onClick={() => setActiveProfile(profile.id)}
+                  >
+                    Use
+                  </button>
+                )}
+                <button
+                  type="button"
+                  className="api-key-btn"
+                  onClick={() => handleEdit(profile)}
+                  title="Edit server"
+                  aria-label={`Edit ${profile.name}`}
+                >
+                  <Pencil size={14} aria-hidden />
+                </button>
+                {profiles.length > 1 && (
+                  <button
+                    type="button"
+                    className="api-key-btn"
+                    onClick={() => handleDelete(profile)}
+                    title="Remove server"
+                    aria-label={`Remove ${profile.name}`}
+                  >
+                    <Trash2 size={14} aria-hidden />
+                  </button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {form && (
+        <div className="server-profiles__form">
+          <div className="api-key-card__field">
+            <label className="api-key-card__label" htmlFor="server-name">
+              Name
+            </label>
+            <input
+              id="server-name"
+              className="api-key-card__input"
+              value={form.name}
+              onChange={(e) => updateForm({ name: e.target.value })}
+              placeholder="Staging"
+              autoComplete="off"
+            />
+          </div>
+          <div className="api-key-card__field">
+            <label className="api-key-card__label" htmlFor="server-url">
+              Base URL
+            </label>
+            <input
+              id="server-url"
+              className="api-key-card__input"
+              value={form.baseUrl}
+              onChange={(e) => updateForm({ baseUrl: e.target.value })}
+              placeholder="https://example.com/life-log-api"
+              autoComplete="off"
+              spellCheck={false}
+            />
+            <p className="api-key-card__hint">
+              Use <code>{MOCK_API_BASE_URL}</code> for the built-in mock backend.
+            </p>
+          </div>
+          <div className="api-key-card__field">
+            <label className="api-key-card__label" htmlFor="server-key">
+              API Key
+            </label>
+            <input
+              id="server-key"
+              className="api-key-card__input"
+              type="password"
+              value={form.apiKey}
+              onChange={(e) => updateForm({ apiKey: e.target.value })}
+              placeholder="Paste the API key for this server"
+              autoComplete="off"
+              spellCheck={false}
+            />
+          </div>
+
+          {formError && (
+            <div className="api-key-page__message api-key-page__message--error" role="alert">
+              <CircleAlert size={14} aria-hidden />
+              {formError}
+            </div>
+          )}
+
+          <div className="api-key-card__actions">
+            <button type="button" className="api-key-btn" onClick={handleCancel}>
+              <X size={14} aria-hidden />
+              Cancel
+            </button>
+            <button
+              type="button"
+              className="api-key-btn api-key-btn--primary"
+              onClick={handleSave}
+              disabled={checking}
+            >
+              {checking ? (
+                <Loader2 size={14} className="api-key-btn__spin" aria-hidden />
+              ) : (
+                <Check size={14} aria-hidden />
+              )}
+              {checking ? "Checking…" : isNew ? "Add server" : "Save server"}
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
+
+export default ServerProfiles;
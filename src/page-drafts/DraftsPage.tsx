@@ -0,0 +1,190 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { FilePlus, MapPin, Paperclip, Pencil, Send, Trash2, Loader2 } from "lucide-react";
+import MarkdownViewer from "../components/MarkdownViewer";
+import { useEntryDrafts } from "../hooks/useEntryDrafts";
+import {
+  createEntryDraftId,
+  deleteEntryDraft,
+  publishEntry,
+  type EntryDraft,
+} from "../services/entryDrafts";
+import type { EditorLocationState } from "../page-editor/Editor";
+import { formatTimeAgo } from "../utils/relativeTime";
+import "./DraftsPage.css";
+
+const ICON_SIZE = 14;
+
+function describeDraft(draft: EntryDraft): string {
+  return draft.entryId ? `Edit to entry #${draft.entryId}` : "New entry";
+}
+
+function DraftsPage() {
+  const navigate = useNavigate();
+  const drafts = useEntryDrafts();
+  const [publishing, setPublishing] = useState<string | null>(null);
+  const [error, setError] = useState<{ draftId: string; message: string } | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleResume = (draft: EntryDraft) => {
+    const state: EditorLocationState = { draftId: draft.id };
+    navigate(draft.entryId ? `/edit/${draft.entryId}` : "/", { state });
+  };
+
+  const handleNew = () => {
+    const state: EditorLocationState = { draftId: createEntryDraftId() };
+    navigate("/", { state });
+  };
+
+  const handleDelete = async (draft: EntryDraft) => {
+    if (!confirm("Delete this draft? It cannot be recovered.")) return;
+    try {
+      await deleteEntryDraft(draft.id);
+    } catch (err) {
+      console.error("Failed to delete draft:", err);
+      setError({ draftId: draft.id, message: "Failed to delete draft" });
+    }
+  };
+
+  const handlePublish = async (draft: EntryDraft) => {
+    setPublishing(draft.id);
+    setError(null);
+    setMessage(null);
+    try {
+      const { queued, id } = await publishEntry(draft, draft.entryId);
+      await deleteEntryDraft(draft.id);
+      if (queued) {
+        setMessage("Saved offline. It will sync when you're back online.");
+      } else if (draft.entryId) {
+        setMessage(`Entry updated (ID: ${draft.entryId})`);
+      } else {
+        setMessage(`Entry saved successfully (ID: ${id})`);
+      }
+    } catch (err) {
+      console.error("Failed to publish draft:", err);
+      setError({
+        draftId: draft.id,
+        message: err instanceof Error ? err.message : "An error occurred while saving",
+      });
+    } finally {
+      setPublishing(null);
+    }
+  };
+
+  return (
+    <div className="page-container drafts-page">
+      <div className="drafts-page__header">
+        <h2 className="drafts-page__title">Drafts</h2>
+        <button type="button" className="drafts-btn drafts-btn--primary" onClick={handleNew}>
+          <FilePlus size={ICON_SIZE} />
+          New draft
+        </button>
+      </div>
+
+      {message && (
+        <div className="drafts-page__message drafts-page__message--success" role="status">
+          {message}
+        </div>
+      )}
+
+      {drafts.length === 0 ? (
+        <p className="drafts-page__empty">
+          No drafts. Anything typed in the editor is kept here until it is saved.
+        </p>
+      ) : (
+        <ul className="drafts-page__list">
+          {drafts.map((draft) => {
+            const busy = publishing === draft.id;
+            return (
+              <li key={draft.id} className="drafts-page__draft">
+                <div className="drafts-page__meta">
+                  <span className="drafts-page__kind">{describeDraft(draft)}</span>
+                  <span title={new Date(draft.updatedAt).toLocaleString()}>
+                    {formatTimeAgo(draft.updatedAt)}
+                  </span>
+                  {draft.customDateTime && (
+                    <span>for {new Date(draft.customDateTime).toLocaleString()}</span>
+                  )}
+                </div>
+
+                <div className="drafts-page__tags">
+                  <span
+                    className={`drafts-page__tag drafts-page__tag--location${
+                      draft.location ? "" : " drafts-page__tag--missing"
+                    }`}
+                  >
+                    <MapPin size={12} aria-hidden />
+                    {draft.location?.name ?? "No location"}
+                  </span>
+                  {draft.tags.map((tag) => (
+                    <span key={tag.id} className="drafts-page__tag">
+                      {tag.name}
+                    </span>
+                  ))}
+                  {draft.mediaPaths.length > 0 && (
+                    <span className="drafts-page__tag">
+                      <Paperclip size={12} aria-hidden />
+                      {draft.mediaPaths.length}
+                    </span>
+                  )}
+                </div>
+
+                <div className="drafts-page__content">
+                  {draft.content.trim() ? (
+                    <MarkdownViewer content={draft.content} mediaPaths={draft.mediaPaths} />
+                  ) : (
+                    <span className="drafts-page__placeholder">Empty</span>
+                  )}
+                </div>
+
+                {error?.draftId === draft.id && (
+                  <div className="drafts-page__message" role="alert">
+                    {error.message}
+                  </div>
+                )}
+
+                <div className="drafts-page__actions">
+                  <button
+                    type="button"
+                    className="drafts-btn"
+                    onClick={() => handleResume(draft)}
+                    title="Continue in the editor"
+                  >
+                    <Pencil size={ICON_SIZE} />
+                    Resume
+                  </button>
+                  <button
+                    type="button"
+                    className="drafts-btn drafts-btn--primary"
+                    onClick={() => handlePublish(draft)}
+                    disabled={!draft.location || publishing !== null}
+                    title={draft.location ? "Save as an entry" : "Add a location before publishing"}
+                  >
+                    {busy ? (
+                      <Loader2 size={ICON_SIZE} className="drafts-spin" />
+                    ) : (
+                      <Send size={ICON_SIZE} />
+                    )}
+                    Publish
+                  </button>
+                  <button
+                    type="button"
+                    className="drafts-btn drafts-btn--icon drafts-btn--danger"
+                    onClick={() => handleDelete(draft)}
+                    disabled={busy}
+                    title="Delete draft"
+                    aria-label="Delete draft"
+                  >
+                    <Trash2 size={ICON_SIZE} />
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default DraftsPage;
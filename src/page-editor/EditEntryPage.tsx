@@ -1,9 +1,15 @@
+import { useState } from "react";
 import { useParams, useNavigate } from "react-router-dom";
+import { History } from "lucide-react";
 import Editor from "./Editor";
+import RevisionHistory from "./RevisionHistory";
 
 function EditEntryPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const [showHistory, setShowHistory] = useState(false);
+  // Bumped to reload the editor after restoring a revision
+  const [editorKey, setEditorKey] = useState(0);
 
   const entryId = id ? parseInt(id, 10) : undefined;
 
@@ -11,7 +17,37 @@ function EditEntryPage() {
     navigate("/entries");
   };
 
-  return <Editor entryId={entryId} onSaveSuccess={handleSaveSuccess} />;
+  return (
+    <>
+      <Editor
+        key={editorKey}
+        entryId={entryId}
+        onSaveSuccess={handleSaveSuccess}
+        toolbarActions={
+          entryId && (
+            <button
+              type="button"
+              className="ed-btn"
+              aria-pressed={showHistory}
+              onClick={() => setShowHistory((v) => !v)}
+              title="Earlier versions of this entry"
+              aria-label="Toggle history"
+            >
+              <History size={16} />
+              <span>History</span>
+            </button>
+          )
+        }
+      />
+      {showHistory && entryId && (
+        <RevisionHistory
+          entryId={entryId}
+          onRestored={() => setEditorKey((k) => k + 1)}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+    </>
+  );
 }
 
 export default EditEntryPage;
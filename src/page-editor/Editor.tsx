@@ -1,28 +1,126 @@
-import { useState, useEffect, useCallback } from "react";
-import { Tags, CalendarClock, X } from "lucide-react";
+import { useState, useEffect, useRef, type ReactNode } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { Tags, CalendarClock, X, Trash2, FilePlus, Star } from "lucide-react";
 import {
-  saveContent,
-  uploadImages,
-  getSignedUrls,
-  getLatestLocation,
+  uploadImage,
   fetchEntry,
-  updateEntry,
+  getLatestLocation,
+  isApiError,
+  type Entry,
+  type EntryTemplate,
   type Tag,
+  type UploadImageResponse,
+  type UploadOptions,
 } from "../services/api";
+import { getLatestLocationCached, loadTemplatesCached } from "../services/queries";
+import { defaultTemplateFor, loadTemplates } from "../services/templates";
+import { suggestLocation, type LocationSuggestion } from "../services/locationTags";
+import { useQuery } from "../hooks/useQuery";
+import { getQueryState, setQueryData } from "../services/queryCache";
+import { queryKeys } from "../services/queryKeys";
+import { listQueuedWrites } from "../services/offlineQueue";
+import {
+  NEW_ENTRY_DRAFT_ID,
+  deleteEntryDraft,
+  createEntryDraftId,
+  entryDraftId,
+  getEntryDraft,
+  publishEntry,
+  sameDraftFields,
+  saveEntryDraft,
+  type EntryDraft,
+  type EntryDraftFields,
+} from "../services/entryDrafts";
 import { processImages } from "../utils/imageUtils";
-import { API_CONFIG } from "../config/constants";
+import {
+  formatDuration,
+  mediaKindOfFile,
+  mediaMarkdown,
+  readClipMetadata,
+} from "../utils/mediaUtils";
+import { formatTimeAgo, toDateTimeLocal } from "../utils/relativeTime";
+import { getTagTokenMode, setTagTokenMode, type TagTokenMode } from "../utils/tagTokens";
+import { fillTemplate, templateValues } from "../utils/templateVariables";
+import { MEDIA_CONFIG } from "../config/constants";
+import { primeMediaUrl } from "../services/mediaUrls";
+import { discardChunkedUpload, fileFingerprint } from "../services/chunkedUpload";
 import "./Editor.css";
 import TagAutocomplete from "./TagAutocomplete";
 import MarkdownEditor from "./MarkdownEditor";
+import TemplatePicker from "./TemplatePicker";
+import LocationSuggestions from "./LocationSuggestions";
 
 interface EditorProps {
   entryId?: number;
   onSaveSuccess?: () => void;
+  /** Extra buttons for the toolbar */
+  toolbarActions?: ReactNode;
 }
 
 const ICON_SIZE = 16;
 
-export default function Editor({ entryId, onSaveSuccess }: EditorProps) {
+/**
+ * How long typing has to pause before the draft is saved
+ */
+const DRAFT_SAVE_DELAY_MS = 1_000;
+
+/**
+ * Picked images and what they were converted to for upload
+ */
+const processedImages = new WeakMap<File, File>();
+
+const EMPTY_FIELDS: EntryDraftFields = {
+  content: "",
+  tags: [],
+  location: null,
+  customDateTime: "",
+  mediaPaths: [],
+  isHighlighted: false,
+};
+
+function mergeTags(current: Tag[], added: Tag[]): Tag[] {
+  return [...current, ...added.filter((tag) => !current.some((t) => t.id === tag.id))];
+}
+
+/**
+ * The template's text with its variables filled in
+ */
+function templateText(template: EntryTemplate, latestLocation: Tag | null): string {
+  return fillTemplate(template.content, templateValues(new Date(), latestLocation?.name));
+}
+
+/**
+ * Fields after starting from a template: its text replaces the content and
+ * its tags and location are added
+ */
+function withTemplate(
+  fields: EntryDraftFields,
+  template: EntryTemplate,
+  latestLocation: Tag | null
+): EntryDraftFields {
+  return {
+    ...fields,
+    content: templateText(template, latestLocation),
+    tags: mergeTags(fields.tags, template.tags),
+    location: template.location ?? fields.location,
+  };
+}
+
+/**
+ * Router state used to reopen a queued offline write that the server
+ * rejected, or to resume a saved draft
+ */
+export interface EditorLocationState {
+  queuedWriteId?: string;
+  /** Draft to restore right away, without asking */
+  draftId?: string;
+}
+
+export default function Editor({ entryId, onSaveSuccess, toolbarActions }: EditorProps) {
+  const routerLocation = useLocation();
+  const navigate = useNavigate();
+  const locationState = routerLocation.state as EditorLocationState | null;
+  const queuedWriteId = locationState?.queuedWriteId;
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
@@ -30,132 +128,452 @@ export default function Editor({ entryId, onSaveSuccess }: EditorProps) {
   const [content, setContent] = useState("");
   const [locationTag, setLocationTag] = useState<Tag | null>(null);
   const [selectedTags, setSelectedTags] = useState<Tag[]>([]);
-  const [imageUrlMap, setImageUrlMap] = useState<Map<string, string>>(
-    new Map(),
+  const [tagTokenMode, setTagTokenModeState] = useState<TagTokenMode>(getTagTokenMode);
+  // Read through the same cache entries the new entry's defaults load from
+  const { data: loadedTemplates } = useQuery(queryKeys.templates(), () => loadTemplates());
+  const templates = loadedTemplates?.templates ?? [];
+  // Fills {{lastLocation}} in templates
+  const { data: latestLocation = null } = useQuery(queryKeys.latestLocation(), () =>
+    getLatestLocation()
   );
+  const [locationSuggestion, setLocationSuggestion] = useState<LocationSuggestion | null>(null);
   const [showTagsSection, setShowTagsSection] = useState(false);
   const [showDateTimeSection, setShowDateTimeSection] = useState(false);
   const [customDateTime, setCustomDateTime] = useState<string>("");
+  // When the edited entry was logged; shown until another time is picked
+  const [entryCreatedAt, setEntryCreatedAt] = useState<string | null>(null);
+  const [isHighlighted, setIsHighlighted] = useState(false);
+  const resumeDraft = locationState?.draftId !== undefined;
+  const draftId =
+    locationState?.draftId ?? (entryId ? entryDraftId(entryId) : NEW_ENTRY_DRAFT_ID);
+  // Autosave waits until the form is loaded and any older draft was dealt with
+  const [autosaveReady, setAutosaveReady] = useState(false);
+  const [offeredDraft, setOfferedDraft] = useState<EntryDraft | null>(null);
+  const [draftSavedAt, setDraftSavedAt] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  /** The fields as loaded or last saved; a draft is only kept while they differ */
+  const baselineRef = useRef<EntryDraftFields | null>(null);
+  const hasDraftRef = useRef(false);
+  const pendingDraftSave = useRef<(() => void) | null>(null);
+  const draftIdRef = useRef(draftId);
+
+  const applyFields = (fields: EntryDraftFields) => {
+    setContent(fields.content);
+    setSelectedTags(fields.tags);
+    setLocationTag(fields.location);
+    setCustomDateTime(fields.customDateTime);
+    setUploadedImagePaths(fields.mediaPaths);
+    setIsHighlighted(Boolean(fields.isHighlighted));
+    if (fields.customDateTime) setShowDateTimeSection(true);
+  };
 
   useEffect(() => {
-    const loadEntryData = async () => {
+    let cancelled = false;
+
+    const applyEntry = (entry: Entry) => {
+      setContent(entry.content);
+      setLocationTag(entry.location || null);
+      setSelectedTags(entry.tags || []);
+      setUploadedImagePaths(entry.mediaPaths || []);
+      setEntryCreatedAt(entry.createdAt);
+      setIsHighlighted(entry.isHighlighted);
+    };
+
+    const fieldsOfEntry = (entry: Entry): EntryDraftFields => ({
+      content: entry.content,
+      tags: entry.tags || [],
+      location: entry.location || null,
+      customDateTime: "",
+      mediaPaths: entry.mediaPaths || [],
+      isHighlighted: entry.isHighlighted,
+    });
+
+    /**
+     * Fills the form
+     * @returns The fields as loaded, or null when nothing could be loaded
+     */
+    const loadEntryData = async (): Promise<EntryDraftFields | null> => {
+      let loaded: EntryDraftFields | null = null;
+
       if (entryId) {
+        // Fill the form from the cache first, then replace it with the
+        // server copy so edits never start from a stale version
+        const cached = getQueryState<Entry>(queryKeys.entry(entryId)).data;
+        if (cached) applyEntry(cached);
         try {
           const entry = await fetchEntry(entryId);
-          setContent(entry.content);
-          setLocationTag(entry.location || null);
-          setSelectedTags(
-            (entry.tags || []).map((tag) => ({
-              ...tag,
-              searchHint: "",
-              type: "tag",
-              config: {},
-            })),
-          );
-          setUploadedImagePaths(entry.mediaPaths || []);
+          setQueryData(queryKeys.entry(entryId), entry);
+          applyEntry(entry);
+          loaded = fieldsOfEntry(entry);
+          if (!queuedWriteId) return loaded;
         } catch (error) {
           console.error("Failed to load entry:", error);
-          setError("Failed to load entry for editing");
+          if (isApiError(error) && error.isNotFound) {
+            setError("This entry no longer exists");
+          } else if (cached && isApiError(error) && error.isOffline) {
+            // Offline: keep editing the cached copy
+            loaded = fieldsOfEntry(cached);
+          } else if (isApiError(error) && (error.isOffline || error.isUnauthorized)) {
+            setError(error.message);
+          } else {
+            setError("Failed to load entry for editing");
+          }
+          if (!queuedWriteId) return loaded;
         }
-      } else {
+      }
+
+      // Reopening a rejected offline write: show the user's queued version
+      if (queuedWriteId) {
         try {
-          const latestLocation = await getLatestLocation();
-          if (latestLocation) {
-            setLocationTag(latestLocation);
+          const queued = (await listQueuedWrites()).find(
+            (write) => write.id === queuedWriteId,
+          );
+          if (queued?.snapshot) {
+            setContent(queued.snapshot.content);
+            setSelectedTags(queued.snapshot.tags);
+            setLocationTag(queued.snapshot.location);
+            const op = queued.operation;
+            const mediaPaths =
+              op.type !== "delete" && op.request.mediaPaths ? op.request.mediaPaths : [];
+            if (mediaPaths.length > 0) {
+              setUploadedImagePaths(mediaPaths);
+            }
+            const queuedDateTime =
+              op.type !== "delete" && op.request.createdAt
+                ? toDateTimeLocal(op.request.createdAt)
+                : "";
+            const queuedHighlight = op.type !== "delete" && Boolean(op.request.isHighlighted);
+            setCustomDateTime(queuedDateTime);
+            if (queuedDateTime) setShowDateTimeSection(true);
+            setIsHighlighted(queuedHighlight);
+            setError(
+              queued.error
+                ? `Sync failed: ${queued.error}. Review and save again.`
+                : null,
+            );
+            loaded = {
+              content: queued.snapshot.content,
+              tags: queued.snapshot.tags,
+              location: queued.snapshot.location,
+              customDateTime: queuedDateTime,
+              mediaPaths,
+              isHighlighted: queuedHighlight,
+            };
           }
         } catch (error) {
-          console.error("Failed to load latest location:", error);
+          console.error("Failed to load queued write:", error);
         }
+        return loaded;
       }
+
+      // A new entry starts empty, also when switching from another draft
+      setContent("");
+      setSelectedTags([]);
+      setUploadedImagePaths([]);
+      setCustomDateTime("");
+      setEntryCreatedAt(null);
+      setIsHighlighted(false);
+      setLocationTag(null);
+      let latestLocation: Tag | null = null;
+      try {
+        latestLocation = await getLatestLocationCached();
+        if (latestLocation) {
+          setLocationTag(latestLocation);
+        }
+      } catch (error) {
+        console.error("Failed to load latest location:", error);
+      }
+      const fields = { ...EMPTY_FIELDS, location: latestLocation };
+
+      // Some weekdays start from a template, e.g. a weekly review on Sundays
+      try {
+        const template = defaultTemplateFor((await loadTemplatesCached()).templates, new Date());
+        if (template) {
+          const templated = withTemplate(fields, template, latestLocation);
+          applyFields(templated);
+          return templated;
+        }
+      } catch (error) {
+        console.error("Failed to load templates:", error);
+      }
+      return fields;
     };
 
-    loadEntryData();
-  }, [entryId]);
+    const load = async () => {
+      const loaded = await loadEntryData();
+      if (cancelled || !loaded) return;
+      baselineRef.current = loaded;
 
-  const handleImageUpload = async (files: File[]): Promise<string[]> => {
-    try {
-      const processedImages = await processImages(files);
-      const uploadedFiles = processedImages.map((img) => img.file);
-      const uploadResults = await uploadImages(uploadedFiles);
-
-      const newPaths = uploadResults.map((result) => result.path);
-      setUploadedImagePaths((prev) => [...prev, ...newPaths]);
-
-      const newMap = new Map(imageUrlMap);
-      uploadResults.forEach((result) => {
-        newMap.set(
-          result.filename || result.path,
-          `${API_CONFIG.API_BASE_URL}${result.url}`,
+      // A queued write already holds the user's latest version
+      if (!queuedWriteId) {
+        try {
+          const draft = await getEntryDraft(draftId);
+          if (cancelled) return;
+          if (draft && resumeDraft) {
+            applyFields(draft);
+            hasDraftRef.current = true;
+            setDraftSavedAt(draft.updatedAt);
+          } else if (draft && !sameDraftFields(draft, loaded)) {
+            setOfferedDraft(draft);
+          }
+        } catch (error) {
+          console.error("Failed to read entry draft:", error);
+        }
+      }
+      setAutosaveReady(true);
+    };
+
+    // Changes to the previous draft still get saved under its own ID
+    pendingDraftSave.current?.();
+    draftIdRef.current = draftId;
+    setAutosaveReady(false);
+    setOfferedDraft(null);
+    setDraftSavedAt(null);
+    hasDraftRef.current = false;
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [entryId, queuedWriteId, draftId, resumeDraft]);
+
+  // A new entry starts at the saved place the device is in, rather than the
+  // most recently used location when that one is known to be elsewhere
+  useEffect(() => {
+    if (entryId || queuedWriteId || resumeDraft || !autosaveReady) return;
+    let cancelled = false;
+    suggestLocation()
+      .then((suggestion) => {
+        const baseline = baselineRef.current;
+        if (cancelled || !suggestion || !baseline) return;
+        setLocationSuggestion(suggestion);
+        const prefilled = baseline.location;
+        const prefilledIsElsewhere = suggestion.ranked.some(
+          (place) => place.tag.id === prefilled?.id && !place.isNearby
         );
-      });
-      setImageUrlMap(newMap);
+        const next = suggestion.nearby?.tag ?? (prefilledIsElsewhere ? null : prefilled);
+        if (next?.id === prefilled?.id) return;
+        // Leave a location the user already picked alone
+        setLocationTag((current) => (current?.id === prefilled?.id ? next : current));
+        baselineRef.current = { ...baseline, location: next };
+      })
+      .catch((error) => console.error("Failed to suggest a location:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [entryId, queuedWriteId, resumeDraft, autosaveReady]);
 
-      return uploadResults.map((result) => result.filename || result.path);
-    } catch (error) {
-      console.error("Image upload failed:", error);
-      throw error;
-    }
+  // Save the form as a draft shortly after every change; changes undone
+  // back to the loaded version remove the draft instead
+  useEffect(() => {
+    if (!autosaveReady || offeredDraft) return;
+    const fields: EntryDraftFields = {
+      content,
+      tags: selectedTags,
+      location: locationTag,
+      customDateTime,
+      mediaPaths: uploadedImagePaths,
+      isHighlighted,
+    };
+    const save = () => {
+      pendingDraftSave.current = null;
+      const baseline = baselineRef.current;
+      if (baseline && sameDraftFields(fields, baseline)) {
+        if (!hasDraftRef.current) return;
+        hasDraftRef.current = false;
+        setDraftSavedAt(null);
+        deleteEntryDraft(draftId).catch((error) =>
+          console.error("Failed to remove entry draft:", error)
+        );
+        return;
+      }
+      hasDraftRef.current = true;
+      saveEntryDraft(draftId, fields, entryId)
+        .then((draft) => {
+          if (draftIdRef.current === draft.id) setDraftSavedAt(draft.updatedAt);
+        })
+        .catch((error) => console.error("Failed to save entry draft:", error));
+    };
+    pendingDraftSave.current = save;
+    const timer = setTimeout(save, DRAFT_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [
+    autosaveReady,
+    offeredDraft,
+    draftId,
+    entryId,
+    content,
+    selectedTags,
+    locationTag,
+    customDateTime,
+    uploadedImagePaths,
+    isHighlighted,
+  ]);
+
+  // Don't wait for the delay when the tab goes away or the editor closes
+  useEffect(() => {
+    const flush = () => pendingDraftSave.current?.();
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") flush();
+    };
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    window.addEventListener("pagehide", flush);
+    return () => {
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      window.removeEventListener("pagehide", flush);
+      flush();
+    };
+  }, []);
+
+  // Keeps "saved 2 minutes ago" current
+  useEffect(() => {
+    if (!draftSavedAt && !offeredDraft) return;
+    const timer = setInterval(() => setNow(Date.now()), 30_000);
+    return () => clearInterval(timer);
+  }, [draftSavedAt, offeredDraft]);
+
+  const handleRestoreDraft = () => {
+    if (!offeredDraft) return;
+    applyFields(offeredDraft);
+    hasDraftRef.current = true;
+    setDraftSavedAt(offeredDraft.updatedAt);
+    setOfferedDraft(null);
   };
 
-  const handleContentChange = (newContent: string) => {
-    setContent(newContent);
+  /**
+   * Leaves the current draft in the drafts list and opens an empty one
+   */
+  const handleNewDraft = () => {
     setError(null);
     setSuccessMessage(null);
+    const state: EditorLocationState = { draftId: createEntryDraftId() };
+    navigate("/", { state });
   };
 
-  const extractImageFilenames = useCallback((markdown: string): string[] => {
-    const imageRegex = /!\[.*?\]\(([^)]+)\)/g;
-    const filenames: string[] = [];
-    let match;
-
-    while ((match = imageRegex.exec(markdown)) !== null) {
-      const url = match[1];
-      const filename = url.split("/").pop() || url;
-      if (filename && filename.startsWith("uploading-")) continue;
-      if (filename && /^\d+\.\w+/.test(filename)) filenames.push(filename);
+  /**
+   * Throws the draft away and puts the form back to how it was loaded
+   */
+  const handleDiscardDraft = async () => {
+    if (!confirm("Discard this draft?")) return;
+    pendingDraftSave.current = null;
+    hasDraftRef.current = false;
+    setDraftSavedAt(null);
+    if (offeredDraft) {
+      setOfferedDraft(null);
+    } else if (baselineRef.current) {
+      applyFields(baselineRef.current);
+    }
+    try {
+      await deleteEntryDraft(draftId);
+    } catch (error) {
+      console.error("Failed to discard entry draft:", error);
     }
+  };
 
-    return [...new Set(filenames)];
-  }, []);
+  /**
+   * Records an uploaded file in mediaPaths
+   * @returns Filename to reference in the markdown
+   */
+  const addUploadedMedia = (result: UploadImageResponse): string => {
+    setUploadedImagePaths((prev) => [...prev, result.path]);
+    // The upload response already carries a signed URL; no need to sign again
+    primeMediaUrl(result.filename || result.path, result.url);
+    return result.filename || result.path;
+  };
 
-  useEffect(() => {
-    const fetchSignedUrls = async () => {
-      if (!content) return;
-      const filenames = extractImageFilenames(content);
-      if (filenames.length === 0) return;
-
-      const missingFilenames = filenames.filter((filename) => {
-        const existingUrl = imageUrlMap.get(filename);
-        if (!existingUrl) return true;
-        try {
-          const url = new URL(existingUrl, API_CONFIG.API_BASE_URL);
-          const expires = parseInt(url.searchParams.get("expires") || "0");
-          return Date.now() > expires - 60000;
-        } catch {
-          return true;
-        }
+  const handleMediaUpload = async (
+    file: File,
+    options: UploadOptions
+  ): Promise<string> => {
+    const kind = mediaKindOfFile(file);
+    if (!kind) {
+      throw new Error(`${file.name} isn't an image, video or audio file`);
+    }
+
+    if (kind === "image") {
+      // Re-encoding gives different bytes each time, so retries reuse the
+      // first result; the chunked upload only resumes for the same bytes
+      let processed = processedImages.get(file);
+      if (!processed) {
+        processed = (await processImages([file]))[0].file;
+        processedImages.set(file, processed);
+      }
+      // Processing renames the file, so key the upload by the file the user picked
+      const result = await uploadImage(processed, {
+        ...options,
+        resumeKey: fileFingerprint(file),
       });
+      return mediaMarkdown("image", addUploadedMedia(result));
+    }
 
-      if (missingFilenames.length === 0) return;
+    // Clips are uploaded as recorded; only their metadata is read here
+    const { duration, poster } = await readClipMetadata(file, kind);
+    if (duration !== null && duration > MEDIA_CONFIG.MAX_CLIP_DURATION_SECONDS) {
+      throw new Error(
+        `${file.name} is longer than ${formatDuration(MEDIA_CONFIG.MAX_CLIP_DURATION_SECONDS)}`
+      );
+    }
 
+    let posterFilename: string | undefined;
+    if (poster) {
       try {
-        const signedUrls = await getSignedUrls(missingFilenames);
-        const newMap = new Map(imageUrlMap);
-        signedUrls.forEach((result) => {
-          newMap.set(
-            result.filename,
-            `${API_CONFIG.API_BASE_URL}${result.url}`,
-          );
-        });
-        setImageUrlMap(newMap);
+        const posterFile = new File([poster], `${file.name}.jpg`, { type: "image/jpeg" });
+        posterFilename = addUploadedMedia(
+          await uploadImage(posterFile, { signal: options.signal })
+        );
       } catch (error) {
-        console.error("Failed to fetch signed URLs:", error);
+        if (options.signal?.aborted) throw error;
+        // The clip still plays without a poster
+        console.error(`Failed to upload the poster frame of ${file.name}:`, error);
       }
-    };
+    }
 
-    fetchSignedUrls();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [content, extractImageFilenames]);
+    const result = await uploadImage(file, {
+      ...options,
+      resumeKey: fileFingerprint(file),
+    });
+    return mediaMarkdown(kind, addUploadedMedia(result), {
+      poster: posterFilename,
+      duration: duration ?? undefined,
+    });
+  };
+
+  const handleContentChange = (newContent: string) => {
+    setContent(newContent);
+    setError(null);
+    setSuccessMessage(null);
+  };
+
+  const formFields: EntryDraftFields = {
+    content,
+    tags: selectedTags,
+    location: locationTag,
+    customDateTime,
+    mediaPaths: uploadedImagePaths,
+    isHighlighted,
+  };
+
+  const handleApplyTemplate = (template: EntryTemplate) => {
+    if (content.trim() && !confirm(`Replace the text with the template "${template.name}"?`)) {
+      return;
+    }
+    applyFields(withTemplate(formFields, template, latestLocation));
+  };
+
+  /**
+   * Adds a template's tags and location for the /template command
+   * @returns The template's text, to insert at the cursor
+   */
+  const handleInsertTemplate = (template: EntryTemplate): string => {
+    setSelectedTags((prev) => mergeTags(prev, template.tags));
+    if (template.location) setLocationTag(template.location);
+    return templateText(template, latestLocation);
+  };
+
+  const handleTagTokenModeChange = (mode: TagTokenMode) => {
+    setTagTokenModeState(mode);
+    setTagTokenMode(mode);
+  };
 
   const handleSave = async (content: string) => {
     setIsSaving(true);
@@ -169,67 +587,44 @@ export default function Editor({ entryId, onSaveSuccess }: EditorProps) {
     }
 
     try {
-      const cleanContent = content
-        .replace(/!\[.*?\]\(.*?\)/g, " ")
-        .replace(/[#*_~`[\]()]/g, " ")
-        .replace(/\s+/g, " ")
-        .trim();
+      const { queued: savedOffline, id } = await publishEntry(
+        { ...formFields, content },
+        entryId,
+        queuedWriteId
+      );
+      const savedId = entryId ?? id;
+
+      // Back to the default new-entry draft after finishing another one
+      if ((queuedWriteId || locationState?.draftId) && !entryId) {
+        navigate(routerLocation.pathname, { replace: true, state: null });
+      }
 
-      const withDiacritics = cleanContent.toLocaleLowerCase("vi");
-      const withoutDiacritics = cleanContent
-        .normalize("NFD")
-        .replace(/[̀-ͯ]/g, "")
-        .toLowerCase();
+      // The entry is saved or queued, so its draft has served its purpose
+      baselineRef.current = entryId ? formFields : EMPTY_FIELDS;
+      pendingDraftSave.current = null;
+      hasDraftRef.current = false;
+      setDraftSavedAt(null);
+      deleteEntryDraft(draftId).catch((error) =>
+        console.error("Failed to remove entry draft:", error)
+      );
 
-      const searchHint = `${withDiacritics} ${withoutDiacritics}`.trim();
+      if (savedOffline) {
+        setSuccessMessage("Saved offline. It will sync when you're back online.");
+      } else if (entryId) {
+        setSuccessMessage(`Entry updated (ID: ${entryId})`);
+      } else {
+        setSuccessMessage(`Entry saved successfully (ID: ${savedId})`);
+      }
 
       if (entryId) {
-        await updateEntry(entryId, {
-          content,
-          searchHint,
-          locationId: locationTag?.id,
-          tagIds:
-            selectedTags.length > 0
-              ? selectedTags.map((tag) => tag.id)
-              : undefined,
-          mediaPaths:
-            uploadedImagePaths.length > 0 ? uploadedImagePaths : undefined,
-        });
-        setSuccessMessage(`Entry updated (ID: ${entryId})`);
         if (onSaveSuccess) onSaveSuccess();
       } else {
-        let customId: number | undefined;
-        let createdAtISO: string | undefined;
-        if (customDateTime) {
-          const dateObj = new Date(customDateTime);
-          customId = dateObj.getTime();
-          createdAtISO = dateObj.toISOString();
-        }
-
-        const response = await saveContent({
-          id: customId,
-          content,
-          searchHint,
-          locationId: locationTag?.id,
-          tagIds:
-            selectedTags.length > 0
-              ? selectedTags.map((tag) => tag.id)
-              : undefined,
-          mediaPaths:
-            uploadedImagePaths.length > 0 ? uploadedImagePaths : undefined,
-          createdAt: createdAtISO,
-        });
-
-        if (response.success) {
-          setSuccessMessage(`${response.message} (ID: ${response.id})`);
-          setContent("");
-          setUploadedImagePaths([]);
-          setLocationTag(null);
-          setSelectedTags([]);
-          setCustomDateTime("");
-        } else {
-          setError("Failed to save content");
-        }
+        setContent("");
+        setUploadedImagePaths([]);
+        setLocationTag(null);
+        setSelectedTags([]);
+        setCustomDateTime("");
+        setIsHighlighted(false);
       }
     } catch (err) {
       setError(
@@ -257,21 +652,79 @@ export default function Editor({ entryId, onSaveSuccess }: EditorProps) {
           {selectedTags.length > 0 && <span>· {selectedTags.length}</span>}
         </button>
 
+        <button
+          type="button"
+          className="ed-btn"
+          aria-pressed={showDateTimeSection}
+          onClick={() => setShowDateTimeSection((v) => !v)}
+          title="Date / time"
+          aria-label="Toggle date and time"
+        >
+          <CalendarClock size={ICON_SIZE} />
+          <span>Date</span>
+        </button>
+
+        <button
+          type="button"
+          className="ed-btn"
+          aria-pressed={isHighlighted}
+          onClick={() => setIsHighlighted((v) => !v)}
+          title="Highlight"
+          aria-label="Highlight entry"
+        >
+          <Star size={ICON_SIZE} fill={isHighlighted ? "currentColor" : "none"} />
+          <span>Highlight</span>
+        </button>
+
         {!entryId && (
           <button
             type="button"
             className="ed-btn"
-            aria-pressed={showDateTimeSection}
-            onClick={() => setShowDateTimeSection((v) => !v)}
-            title="Date / time"
-            aria-label="Toggle date and time"
+            onClick={handleNewDraft}
+            title="Keep this draft and start another"
+            aria-label="Start another draft"
           >
-            <CalendarClock size={ICON_SIZE} />
-            <span>Date</span>
+            <FilePlus size={ICON_SIZE} />
+            <span>New</span>
           </button>
         )}
+
+        <TemplatePicker templates={templates} onApply={handleApplyTemplate} />
+        {toolbarActions}
+
+        <div className="editor-toolbar__spacer" />
+        {draftSavedAt && (
+          <>
+            <span className="editor-draft-status" title={new Date(draftSavedAt).toLocaleString()}>
+              Draft saved {formatTimeAgo(draftSavedAt, now)}
+            </span>
+            <button
+              type="button"
+              className="ed-btn ed-btn--icon"
+              onClick={handleDiscardDraft}
+              title="Discard draft"
+              aria-label="Discard draft"
+            >
+              <Trash2 size={ICON_SIZE} />
+            </button>
+          </>
+        )}
       </div>
 
+      {offeredDraft && (
+        <div className="editor-message editor-draft-offer" role="status">
+          <span>
+            You have an unsaved draft from {formatTimeAgo(offeredDraft.updatedAt, now)}.
+          </span>
+          <button type="button" className="ed-btn ed-btn--primary" onClick={handleRestoreDraft}>
+            Restore
+          </button>
+          <button type="button" className="ed-btn" onClick={handleDiscardDraft}>
+            Discard
+          </button>
+        </div>
+      )}
+
       {error && (
         <div className="editor-message editor-message--error" role="alert">
           {error}
@@ -285,13 +738,23 @@ export default function Editor({ entryId, onSaveSuccess }: EditorProps) {
 
       <div className="editor-fields">
         {showTagsSection && (
-          <TagAutocomplete
-            selectedTags={selectedTags}
-            onTagsChange={setSelectedTags}
-          />
+          <>
+            <TagAutocomplete
+              selectedTags={selectedTags}
+              onTagsChange={setSelectedTags}
+            />
+            <label className="editor-token-mode">
+              <input
+                type="checkbox"
+                checked={tagTokenMode === "strip"}
+                onChange={(e) => handleTagTokenModeChange(e.target.checked ? "strip" : "keep")}
+              />
+              Remove #tags and @places from the text when saving
+            </label>
+          </>
         )}
 
-        {!entryId && showDateTimeSection && (
+        {showDateTimeSection && (
           <div className="editor-field">
             <label htmlFor="custom-datetime" className="editor-field__label">
               When
@@ -299,7 +762,7 @@ export default function Editor({ entryId, onSaveSuccess }: EditorProps) {
             <input
               id="custom-datetime"
               type="datetime-local"
-              value={customDateTime}
+              value={customDateTime || (entryCreatedAt ? toDateTimeLocal(entryCreatedAt) : "")}
               onChange={(e) => setCustomDateTime(e.target.value)}
               className="editor-datetime"
             />
@@ -308,8 +771,8 @@ export default function Editor({ entryId, onSaveSuccess }: EditorProps) {
                 type="button"
                 className="ed-btn ed-btn--icon"
                 onClick={() => setCustomDateTime("")}
-                title="Clear date"
-                aria-label="Clear date"
+                title={entryId ? "Keep the original time" : "Clear date"}
+                aria-label={entryId ? "Keep the original time" : "Clear date"}
               >
                 <X size={ICON_SIZE} />
               </button>
@@ -325,15 +788,27 @@ export default function Editor({ entryId, onSaveSuccess }: EditorProps) {
           placeholder="Enter location (required)..."
           singleSelect={true}
         />
+        {!entryId && locationSuggestion && (
+          <LocationSuggestions
+            suggestion={locationSuggestion}
+            selected={locationTag}
+            onSelect={setLocationTag}
+          />
+        )}
       </div>
 
       <div className="editor-main">
         <MarkdownEditor
           initialValue={content}
-          onImageUpload={handleImageUpload}
+          onMediaUpload={handleMediaUpload}
+          onUploadCancel={(file) => discardChunkedUpload(file)}
           onChange={handleContentChange}
           onSave={handleSave}
           isSaving={isSaving}
+          onTagSelect={(tag) => setSelectedTags((prev) => mergeTags(prev, [tag]))}
+          onLocationSelect={setLocationTag}
+          templates={templates}
+          onTemplateInsert={handleInsertTemplate}
         />
       </div>
     </div>
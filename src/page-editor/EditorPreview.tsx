@@ -0,0 +1,37 @@
+import { useDeferredValue, type Ref, type UIEventHandler } from "react";
+import MarkdownViewer from "../components/MarkdownViewer";
+
+interface EditorPreviewProps {
+  content: string;
+  ref?: Ref<HTMLDivElement>;
+  onScroll?: UIEventHandler<HTMLDivElement>;
+}
+
+/**
+ * Uploads still in progress show their label instead of a broken image
+ */
+const UPLOAD_PLACEHOLDER = /!\[([^\]]*)\]\(uploading-[^)]+\)/g;
+
+/**
+ * Renders the markdown being written the way the entries list will, inside
+ * the active theme's entry frame
+ */
+export default function EditorPreview({ content, ref, onScroll }: EditorPreviewProps) {
+  // Typing stays responsive while the preview catches up
+  const deferredContent = useDeferredValue(content);
+  const markdown = deferredContent.replace(UPLOAD_PLACEHOLDER, "*$1*");
+
+  return (
+    <div ref={ref} className="editor-preview" onScroll={onScroll} aria-label="Preview">
+      {markdown.trim() ? (
+        <div className="entry">
+          <div className="entry-content">
+            <MarkdownViewer content={markdown} />
+          </div>
+        </div>
+      ) : (
+        <p className="editor-preview__empty">Nothing to preview yet.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import {
+  Bold,
+  Italic,
+  Strikethrough,
+  Heading,
+  Quote,
+  List,
+  ListOrdered,
+  ListTodo,
+  Code,
+} from "lucide-react";
+import type { FormatAction } from "../utils/markdownFormat";
+
+interface FormatToolbarProps {
+  onFormat: (action: FormatAction) => void;
+}
+
+const ICON_SIZE = 16;
+
+const MOD = /Mac|iPhone|iPad/.test(navigator.platform) ? "⌘" : "Ctrl";
+
+const BUTTONS: Array<{
+  action: FormatAction;
+  label: string;
+  shortcut?: string;
+  icon: typeof Bold;
+}> = [
+  { action: "bold", label: "Bold", shortcut: `${MOD}+B`, icon: Bold },
+  { action: "italic", label: "Italic", shortcut: `${MOD}+I`, icon: Italic },
+  { action: "strikethrough", label: "Strikethrough", shortcut: `${MOD}+Shift+X`, icon: Strikethrough },
+  { action: "heading", label: "Heading", shortcut: `${MOD}+Alt+1–3`, icon: Heading },
+  { action: "quote", label: "Quote", shortcut: `${MOD}+Shift+.`, icon: Quote },
+  { action: "bulletList", label: "Bulleted list", shortcut: `${MOD}+Shift+8`, icon: List },
+  { action: "numberedList", label: "Numbered list", shortcut: `${MOD}+Shift+7`, icon: ListOrdered },
+  { action: "taskList", label: "Task list", shortcut: `${MOD}+Shift+9`, icon: ListTodo },
+  { action: "code", label: "Code", shortcut: `${MOD}+E`, icon: Code },
+];
+
+/**
+ * Formatting buttons above the editor textarea
+ */
+export default function FormatToolbar({ onFormat }: FormatToolbarProps) {
+  return (
+    <div className="editor-format" role="toolbar" aria-label="Formatting">
+      {BUTTONS.map(({ action, label, shortcut, icon: Icon }) => (
+        <button
+          key={action}
+          type="button"
+          className="ed-btn ed-btn--icon"
+          // Keep the textarea's selection while clicking
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onFormat(action)}
+          title={shortcut ? `${label} (${shortcut})` : label}
+          aria-label={label}
+        >
+          <Icon size={ICON_SIZE} />
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import { useState, type FormEvent } from "react";
+import { Loader2, LocateFixed, MapPinPlus } from "lucide-react";
+import { isApiError, type Tag } from "../services/api";
+import { createLocationAt, type LocationSuggestion } from "../services/locationTags";
+import { formatDistance } from "../utils/geo";
+
+interface LocationSuggestionsProps {
+  suggestion: LocationSuggestion;
+  selected: Tag | null;
+  onSelect: (tag: Tag) => void;
+}
+
+const ICON_SIZE = 14;
+
+/**
+ * How many of the nearest places are offered
+ */
+const MAX_PLACES = 3;
+
+/**
+ * Places near the device's position, and a way to save the position as a
+ * new place when none of the known ones is close
+ */
+export default function LocationSuggestions({
+  suggestion,
+  selected,
+  onSelect,
+}: LocationSuggestionsProps) {
+  const [name, setName] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const places = suggestion.ranked.slice(0, MAX_PLACES);
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    setIsCreating(true);
+    setError(null);
+    try {
+      const tag = await createLocationAt(trimmed, suggestion.coordinates);
+      setName("");
+      onSelect(tag);
+    } catch (err) {
+      console.error("Failed to create location:", err);
+      setError(
+        isApiError(err) && err.isOffline
+          ? "New places can only be added while online"
+          : "Failed to add this place"
+      );
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div className="location-suggestions">
+      <LocateFixed size={ICON_SIZE} aria-hidden className="location-suggestions__icon" />
+      {places.map((place) => (
+        <button
+          key={place.tag.id}
+          type="button"
+          className="ed-btn location-suggestions__place"
+          aria-pressed={selected?.id === place.tag.id}
+          onClick={() => onSelect(place.tag)}
+          title={place.isNearby ? "You are here" : "Nearest saved place"}
+        >
+          {place.tag.name}
+          <span className="location-suggestions__distance">
+            {formatDistance(place.distance)}
+          </span>
+        </button>
+      ))}
+
+      {!suggestion.nearby && (
+        <form className="location-suggestions__new" onSubmit={handleCreate}>
+          <span className="editor-field__label">No saved place here.</span>
+          <input
+            type="text"
+            className="location-suggestions__input"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name this place"
+            aria-label="Name of the new place"
+          />
+          <button
+            type="submit"
+            className="ed-btn"
+            disabled={isCreating || !name.trim()}
+            title="Save this position as a location"
+          >
+            {isCreating ? (
+              <Loader2 size={ICON_SIZE} className="ed-spin" />
+            ) : (
+              <MapPinPlus size={ICON_SIZE} />
+            )}
+            Add place
+          </button>
+        </form>
+      )}
+      {error && <span className="location-suggestions__error">{error}</span>}
+    </div>
+  );
+}
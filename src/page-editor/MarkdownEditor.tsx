@@ -1,44 +1,266 @@
-import { useState, useRef, type ChangeEvent, useEffect } from "react";
-import { ImagePlus, Link2, Save, Loader2 } from "lucide-react";
+import {
+  useState,
+  useRef,
+  useEffect,
+  type ChangeEvent,
+  type ClipboardEvent,
+  type DragEvent,
+  type KeyboardEvent,
+} from "react";
+import {
+  ImagePlus,
+  Link2,
+  Save,
+  Loader2,
+  PenLine,
+  Eye,
+  Columns2,
+  ListChecks,
+  Quote,
+  CalendarClock,
+  Mic,
+  Tag as TagIcon,
+  MapPin,
+  Plus,
+  LayoutTemplate,
+} from "lucide-react";
+import {
+  createTag,
+  type EntryTemplate,
+  type Tag,
+  type UploadOptions,
+} from "../services/api";
+import { searchTagSuggestionsCached } from "../services/queries";
+import { useSlashMenu, type SlashCommand } from "../hooks/useSlashMenu";
+import { randomTagColor } from "../utils/randomTagColor";
+import { tagToken } from "../utils/tagTokens";
+import { formatFileSize } from "../utils/imageUtils";
+import { ACCEPTED_MEDIA_TYPES, mediaKindOfFile } from "../utils/mediaUtils";
+import {
+  applyFormat,
+  convertToMarkdownLineBreaks,
+  setHeading,
+  type FormatAction,
+  type TextSelection,
+} from "../utils/markdownFormat";
+import { deleteVoiceDraft, voiceDraftFile, type VoiceDraft } from "../services/voiceDrafts";
+import UploadTray, { type PendingUpload } from "./UploadTray";
+import VoiceRecorder, { type VoiceRecorderHandle } from "./VoiceRecorder";
+import VoiceDrafts from "./VoiceDrafts";
+import EditorPreview from "./EditorPreview";
+import FormatToolbar from "./FormatToolbar";
+import SlashMenu from "./SlashMenu";
 
 interface MarkdownEditorProps {
   initialValue?: string;
-  onImageUpload?: (files: File[]) => Promise<string[]>;
+  /** Uploads one image, video or audio file and resolves with the markdown embedding it */
+  onMediaUpload?: (file: File, options: UploadOptions) => Promise<string>;
+  /** Called when the user cancels an upload for good */
+  onUploadCancel?: (file: File) => void;
   onChange?: (value: string) => void;
   onSave?: (content: string) => void;
   isSaving?: boolean;
+  /** Enables the "/tag" command */
+  onTagSelect?: (tag: Tag) => void;
+  /** Enables the "/location" command */
+  onLocationSelect?: (tag: Tag) => void;
+  /** Templates offered by the "/template" command */
+  templates?: EntryTemplate[];
+  /** Applies a template's tags and location and returns the text to insert */
+  onTemplateInsert?: (template: EntryTemplate) => string;
 }
 
 const ICON_SIZE = 16;
 
-const convertToMarkdownLineBreaks = (text: string): string => {
-  const paragraphs = text.split("\n\n");
-  const processedParagraphs = paragraphs.map((paragraph) => {
-    const lines = paragraph.split("\n");
-    return lines.join("  \n");
-  });
-  return processedParagraphs.join("\n\n");
+type ViewMode = "write" | "preview" | "split";
+
+const VIEW_MODES: Array<{ value: ViewMode; label: string; icon: typeof Eye }> = [
+  { value: "write", label: "Write", icon: PenLine },
+  { value: "preview", label: "Preview", icon: Eye },
+  { value: "split", label: "Split view", icon: Columns2 },
+];
+
+const STORAGE_KEY_VIEW = "life-log-editor-view";
+
+/**
+ * Ctrl/Cmd+Shift shortcuts, by KeyboardEvent.code since Shift changes the key
+ */
+const SHIFT_SHORTCUTS: Record<string, FormatAction> = {
+  KeyX: "strikethrough",
+  Period: "quote",
+  Digit8: "bulletList",
+  Digit7: "numberedList",
+  Digit9: "taskList",
 };
 
+const SHORTCUTS: Record<string, FormatAction> = {
+  b: "bold",
+  i: "italic",
+  e: "code",
+};
+
+function readViewMode(): ViewMode {
+  const stored = localStorage.getItem(STORAGE_KEY_VIEW);
+  return VIEW_MODES.some((m) => m.value === stored) ? (stored as ViewMode) : "write";
+}
+
+type DragKind = "files" | "link";
+
+/**
+ * What a drag would drop, or null for drags the textarea handles itself
+ */
+function dragKindOf(dataTransfer: DataTransfer): DragKind | null {
+  const types = Array.from(dataTransfer.types);
+  if (types.includes("Files")) return "files";
+  if (types.includes("text/uri-list")) return "link";
+  return null;
+}
+
+function mediaFiles(files: FileList): File[] {
+  return Array.from(files).filter((file) => mediaKindOfFile(file) !== null);
+}
+
+/**
+ * First web URL of a dropped link; uri-list lines starting with # are comments
+ */
+function droppedUrl(dataTransfer: DataTransfer): string | null {
+  const url = dataTransfer
+    .getData("text/uri-list")
+    .split(/\r?\n/)
+    .find((line) => line && !line.startsWith("#"));
+  return url && /^https?:\/\//.test(url) ? url : null;
+}
+
+/**
+ * Text offset under a screen point, where the browser can tell; otherwise
+ * undefined, which inserts at the cursor
+ */
+function textOffsetAtPoint(
+  textarea: HTMLTextAreaElement,
+  x: number,
+  y: number
+): number | undefined {
+  if (!("caretPositionFromPoint" in document)) return undefined;
+  const position = document.caretPositionFromPoint(x, y);
+  return position?.offsetNode === textarea ? position.offset : undefined;
+}
+
+/**
+ * Scrolls one pane to the same relative position as another
+ * @returns Whether the target's scroll position changed
+ */
+function syncScrollPosition(from: HTMLElement, to: HTMLElement): boolean {
+  const fromRange = from.scrollHeight - from.clientHeight;
+  const toRange = to.scrollHeight - to.clientHeight;
+  if (fromRange <= 0 || toRange <= 0) return false;
+  const target = Math.round((from.scrollTop / fromRange) * toRange);
+  if (Math.abs(to.scrollTop - target) < 1) return false;
+  to.scrollTop = target;
+  return true;
+}
+
+/**
+ * Placeholder progress moves in steps so the text isn't rewritten on every
+ * progress event
+ */
+const PROGRESS_STEP_PERCENT = 5;
+
+const placeholderPattern = (id: string) =>
+  new RegExp(`!\\[[^\\]]*\\]\\(uploading-${id}\\)`);
+
+function placeholderFor(id: string, label: string): string {
+  return `![${label.replace(/[[\]]/g, "")}](uploading-${id})`;
+}
+
+function progressLabel(name: string, loaded: number, total: number): string {
+  const percent = total > 0 ? (loaded / total) * 100 : 0;
+  const step = Math.floor(percent / PROGRESS_STEP_PERCENT) * PROGRESS_STEP_PERCENT;
+  const sent = (total * step) / 100;
+  return `Uploading ${name}… ${step}% (${formatFileSize(sent)} of ${formatFileSize(total)})`;
+}
+
+/**
+ * Menu items for a tag search, plus an option to create the tag when nothing
+ * matches exactly
+ * @param insertToken - Whether picking a tag types its #tag or @place token,
+ * or only removes what was typed to find it
+ */
+async function tagCommands(
+  query: string,
+  type: string,
+  onPick: (tag: Tag) => void,
+  insertToken = false
+): Promise<SlashCommand[]> {
+  const name = query.trim();
+  const tags = await searchTagSuggestionsCached(name, type);
+  const commands: SlashCommand[] = tags.map((tag) => ({
+    id: String(tag.id),
+    label: tag.name,
+    icon: type === "location" ? MapPin : TagIcon,
+    run: () => {
+      onPick(tag);
+      return insertToken ? `${tagToken(tag)} ` : undefined;
+    },
+  }));
+
+  if (name && !tags.some((tag) => tag.name.toLowerCase() === name.toLowerCase())) {
+    commands.push({
+      id: "create",
+      label: `Create "${name}"`,
+      icon: Plus,
+      run: () => {
+        createTag({ name, searchHint: name, type, config: randomTagColor() })
+          .then(onPick)
+          .catch((error) => {
+            console.error("Error creating tag:", error);
+            alert("Failed to create tag. Please try again.");
+          });
+        return insertToken ? `${tagToken({ name, type })} ` : undefined;
+      },
+    });
+  }
+  return commands;
+}
+
 export default function MarkdownEditor({
   initialValue = "",
-  onImageUpload,
+  onMediaUpload,
+  onUploadCancel,
   onChange,
   onSave,
   isSaving = false,
+  onTagSelect,
+  onLocationSelect,
+  templates = [],
+  onTemplateInsert,
 }: MarkdownEditorProps) {
   const [content, setContent] = useState(initialValue);
+  // Latest text, also between an edit and the render that shows it
+  const contentRef = useRef(initialValue);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const voiceRecorderRef = useRef<VoiceRecorderHandle>(null);
   const lastInitialValue = useRef(initialValue);
+  const [uploads, setUploads] = useState<PendingUpload[]>([]);
+  const uploadControllers = useRef(new Map<string, AbortController>());
+  const [viewMode, setViewMode] = useState<ViewMode>(readViewMode);
+  const [dragKind, setDragKind] = useState<DragKind | null>(null);
+  // dragenter/dragleave fire for every child the drag crosses
+  const dragDepth = useRef(0);
+  const previewRef = useRef<HTMLDivElement>(null);
+  // The pane whose scroll event was caused by syncing, and should be ignored
+  const syncedPane = useRef<"editor" | "preview" | null>(null);
 
   useEffect(() => {
     if (initialValue !== lastInitialValue.current) {
       const currentProcessed = convertToMarkdownLineBreaks(content);
       if (initialValue !== currentProcessed && initialValue !== content) {
+        contentRef.current = initialValue;
         setContent(initialValue);
-        lastInitialValue.current = initialValue;
       }
+      // Track echoes of our own edits too, so setting the value back to an
+      // earlier one (e.g. clearing after a save) still reaches the textarea
+      lastInitialValue.current = initialValue;
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [initialValue]);
@@ -49,25 +271,280 @@ export default function MarkdownEditor({
     }
   }, []);
 
+  // Leaving the editor cancels uploads that can no longer land anywhere
+  useEffect(() => {
+    const controllers = uploadControllers.current;
+    return () => controllers.forEach((controller) => controller.abort());
+  }, []);
+
+  /**
+   * Shows new text and passes it to the parent
+   */
+  const commitContent = (updatedContent: string) => {
+    contentRef.current = updatedContent;
+    setContent(updatedContent);
+    onChange?.(convertToMarkdownLineBreaks(updatedContent));
+  };
+
+  /**
+   * Edits the latest text, e.g. when an upload started earlier finishes
+   */
+  const updateContent = (update: (current: string) => string) => {
+    const currentContent = contentRef.current;
+    const updatedContent = update(currentContent);
+    if (updatedContent !== currentContent) commitContent(updatedContent);
+  };
+
+  const replacePlaceholder = (id: string, markdown: string) => {
+    updateContent((current) => current.replace(placeholderPattern(id), markdown));
+  };
+
+  const removePlaceholder = (id: string) => {
+    updateContent((current) =>
+      current.replace(new RegExp(`${placeholderPattern(id).source}\\n?`), "")
+    );
+  };
+
+  const patchUpload = (id: string, patch: Partial<PendingUpload>) => {
+    setUploads((prev) => prev.map((u) => (u.id === id ? { ...u, ...patch } : u)));
+  };
+
+  const startUpload = async (id: string, file: File, draftId?: string) => {
+    if (!onMediaUpload) return;
+    const controller = new AbortController();
+    uploadControllers.current.set(id, controller);
+
+    try {
+      const markdown = await onMediaUpload(file, {
+        signal: controller.signal,
+        onProgress: ({ loaded, total }) => {
+          patchUpload(id, { status: "uploading", loaded, total });
+          replacePlaceholder(id, placeholderFor(id, progressLabel(file.name, loaded, total)));
+        },
+      });
+      replacePlaceholder(id, markdown);
+      setUploads((prev) => prev.filter((u) => u.id !== id));
+      if (draftId) {
+        deleteVoiceDraft(draftId).catch((error) =>
+          console.error("Failed to remove uploaded voice draft:", error)
+        );
+      }
+    } catch (error) {
+      // Cancelled: the placeholder and tray row are already gone
+      if (controller.signal.aborted) return;
+      console.error(`Upload of ${file.name} failed:`, error);
+      patchUpload(id, {
+        status: "failed",
+        error: error instanceof Error ? error.message : "Upload failed",
+      });
+      replacePlaceholder(id, placeholderFor(id, `Upload failed: ${file.name}`));
+    } finally {
+      if (uploadControllers.current.get(id) === controller) {
+        uploadControllers.current.delete(id);
+      }
+    }
+  };
+
+  const handleCancelUpload = (id: string) => {
+    const upload = uploads.find((u) => u.id === id);
+    uploadControllers.current.get(id)?.abort();
+    removePlaceholder(id);
+    setUploads((prev) => prev.filter((u) => u.id !== id));
+    if (upload) onUploadCancel?.(upload.file);
+  };
+
+  const handleRetryUpload = (id: string) => {
+    const upload = uploads.find((u) => u.id === id);
+    if (!upload) return;
+    patchUpload(id, { status: "queued", loaded: 0, error: undefined });
+    replacePlaceholder(id, placeholderFor(id, `Waiting to upload ${upload.file.name}…`));
+    startUpload(id, upload.file, upload.draftId);
+  };
+
   const handleContentChange = (e: ChangeEvent<HTMLTextAreaElement>) => {
-    const newValue = e.target.value;
-    setContent(newValue);
-    const markdownValue = convertToMarkdownLineBreaks(newValue);
-    onChange?.(markdownValue);
+    commitContent(e.target.value);
+    slashMenu.update();
   };
 
   const handleSave = () => {
     onSave?.(content);
   };
 
-  const handleAddLink = () => {
-    const url = prompt("Enter URL:");
-    if (!url) return;
+  /**
+   * Replaces the textarea's text and selection with the result of an edit
+   */
+  const editSelection = (edit: (selection: TextSelection) => TextSelection) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const result = edit({
+      text: content,
+      start: textarea.selectionStart,
+      end: textarea.selectionEnd,
+    });
+    if (result.text !== content) commitContent(result.text);
+    setTimeout(() => {
+      textarea.focus();
+      textarea.setSelectionRange(result.start, result.end);
+    }, 0);
+  };
+
+  const handleFormat = (action: FormatAction) => {
+    editSelection((selection) => applyFormat(selection, action));
+  };
+
+  const replaceText = (from: number, to: number, replacement: string) => {
+    const cursor = from + replacement.length;
+    editSelection(({ text }) => ({
+      text: text.slice(0, from) + replacement + text.slice(to),
+      start: cursor,
+      end: cursor,
+    }));
+  };
+
+  const slashCommands: SlashCommand[] = [
+    {
+      id: "image",
+      label: "Image or video",
+      icon: ImagePlus,
+      keywords: ["photo", "picture", "media", "upload"],
+      run: () => {
+        fileInputRef.current?.click();
+      },
+    },
+    {
+      id: "link",
+      label: "Link card",
+      icon: Link2,
+      keywords: ["url"],
+      run: () => {
+        const url = prompt("Enter URL:");
+        return url ? `[🔗](${url})` : "";
+      },
+    },
+    {
+      id: "checklist",
+      label: "Checklist",
+      icon: ListChecks,
+      keywords: ["todo", "task"],
+      run: () => "- [ ] ",
+    },
+    { id: "quote", label: "Quote", icon: Quote, run: () => "> " },
+    {
+      id: "datetime",
+      label: "Date and time",
+      hint: "now",
+      icon: CalendarClock,
+      keywords: ["now", "today", "time"],
+      run: () => new Date().toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" }),
+    },
+    {
+      id: "voice",
+      label: "Voice note",
+      icon: Mic,
+      keywords: ["record", "audio"],
+      run: () => {
+        voiceRecorderRef.current?.start();
+      },
+    },
+  ];
+  if (onTemplateInsert && templates.length > 0) {
+    slashCommands.push({
+      id: "template",
+      label: "Template",
+      hint: "/template name",
+      icon: LayoutTemplate,
+      argument: {
+        name: "template",
+        search: async (query) =>
+          templates
+            .filter((template) => template.name.toLowerCase().includes(query.trim().toLowerCase()))
+            .map((template) => ({
+              id: String(template.id),
+              label: template.name,
+              icon: LayoutTemplate,
+              run: () => onTemplateInsert(template),
+            })),
+      },
+    });
+  }
+  if (onTagSelect) {
+    slashCommands.push({
+      id: "tag",
+      label: "Add tag",
+      hint: "/tag name",
+      icon: TagIcon,
+      argument: { name: "tag", search: (query) => tagCommands(query, "tag", onTagSelect) },
+    });
+  }
+  if (onLocationSelect) {
+    slashCommands.push({
+      id: "location",
+      label: "Set location",
+      hint: "/location place",
+      icon: MapPin,
+      keywords: ["place"],
+      argument: {
+        name: "location",
+        search: (query) => tagCommands(query, "location", onLocationSelect),
+      },
+    });
+  }
 
+  const slashMenu = useSlashMenu({
+    textareaRef,
+    commands: slashCommands,
+    replaceText,
+    tokenSearches: {
+      "#": onTagSelect && ((query) => tagCommands(query, "tag", onTagSelect, true)),
+      "@": onLocationSelect && ((query) => tagCommands(query, "location", onLocationSelect, true)),
+    },
+  });
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (slashMenu.handleKeyDown(e)) return;
+    if (!(e.ctrlKey || e.metaKey)) return;
+
+    if (e.altKey && !e.shiftKey) {
+      const level = /^Digit([1-3])$/.exec(e.code)?.[1];
+      if (!level) return;
+      e.preventDefault();
+      editSelection((selection) => setHeading(selection, Number(level)));
+      return;
+    }
+    if (e.altKey) return;
+
+    if (e.shiftKey) {
+      const action = SHIFT_SHORTCUTS[e.code];
+      if (!action) return;
+      e.preventDefault();
+      handleFormat(action);
+      return;
+    }
+
+    const key = e.key.toLowerCase();
+    if (key === "s") {
+      e.preventDefault();
+      if (!isSaving) handleSave();
+    } else if (key === "k") {
+      e.preventDefault();
+      handleAddLink();
+    } else if (SHORTCUTS[key]) {
+      e.preventDefault();
+      handleFormat(SHORTCUTS[key]);
+    }
+  };
+
+  /**
+   * Inserts a link card on its own line
+   * @param url - Link target
+   * @param at - Text offset; defaults to the cursor
+   */
+  const insertLinkCard = (url: string, at?: number) => {
     const textarea = textareaRef.current;
     if (!textarea) return;
 
-    const insertPosition = textarea.selectionStart;
+    const insertPosition = at ?? textarea.selectionStart;
     const linkCardMarkdown = `[🔗](${url})`;
 
     const updatedContent =
@@ -77,9 +554,7 @@ export default function MarkdownEditor({
       "\n" +
       content.substring(insertPosition);
 
-    setContent(updatedContent);
-    const markdownValue = convertToMarkdownLineBreaks(updatedContent);
-    onChange?.(markdownValue);
+    commitContent(updatedContent);
 
     const newCursorPosition = insertPosition + linkCardMarkdown.length + 2;
     setTimeout(() => {
@@ -88,22 +563,36 @@ export default function MarkdownEditor({
     }, 0);
   };
 
-  const handleImageUpload = async (e: ChangeEvent<HTMLInputElement>) => {
-    const files = Array.from(e.target.files || []);
-    if (files.length === 0) return;
+  const handleAddLink = () => {
+    const url = prompt("Enter URL:");
+    if (!url) return;
+    insertLinkCard(url);
+  };
 
+  /**
+   * Inserts a placeholder per file and starts their uploads
+   * @param items - Files to upload
+   * @param at - Text offset; defaults to the cursor
+   */
+  const insertUploads = (items: Array<{ file: File; draftId?: string }>, at?: number) => {
     const textarea = textareaRef.current;
-    if (!textarea) return;
+    if (!textarea || items.length === 0) return;
 
-    const insertPosition = textarea.selectionStart;
-    const uploadId = Date.now();
+    const insertPosition = at ?? textarea.selectionStart;
+    const batchId = Date.now();
 
-    const placeholderData = files.map((file, i) => ({
+    const newUploads: PendingUpload[] = items.map(({ file, draftId }, i) => ({
+      id: `${batchId}-${i}`,
       file,
-      placeholder: `![Uploading ${file.name}...](uploading-${uploadId}-${i})`,
+      status: "queued",
+      loaded: 0,
+      total: file.size,
+      draftId,
     }));
 
-    const placeholders = placeholderData.map((p) => p.placeholder).join("\n");
+    const placeholders = newUploads
+      .map((u) => placeholderFor(u.id, `Waiting to upload ${u.file.name}…`))
+      .join("\n");
 
     const contentWithPlaceholders =
       content.substring(0, insertPosition) +
@@ -112,9 +601,7 @@ export default function MarkdownEditor({
       "\n" +
       content.substring(insertPosition);
 
-    setContent(contentWithPlaceholders);
-    const markdownValue = convertToMarkdownLineBreaks(contentWithPlaceholders);
-    onChange?.(markdownValue);
+    commitContent(contentWithPlaceholders);
 
     const newCursorPosition = insertPosition + placeholders.length + 2;
     setTimeout(() => {
@@ -122,68 +609,179 @@ export default function MarkdownEditor({
       textarea.setSelectionRange(newCursorPosition, newCursorPosition);
     }, 0);
 
-    if (onImageUpload) {
-      try {
-        const filenames = await onImageUpload(files);
-        setContent((currentContent) => {
-          let updatedContent = currentContent;
-          placeholderData.forEach((item, i) => {
-            const actualMarkdown = `![image](${filenames[i]})`;
-            updatedContent = updatedContent.replace(
-              item.placeholder,
-              actualMarkdown,
-            );
-          });
-          const markdownValue = convertToMarkdownLineBreaks(updatedContent);
-          onChange?.(markdownValue);
-          return updatedContent;
-        });
-      } catch (error) {
-        console.error("Image upload failed:", error);
-        setContent((currentContent) => {
-          let contentWithoutPlaceholders = currentContent;
-          placeholderData.forEach((item) => {
-            contentWithoutPlaceholders = contentWithoutPlaceholders.replace(
-              item.placeholder + "\n",
-              "",
-            );
-          });
-          const markdownValue = convertToMarkdownLineBreaks(
-            contentWithoutPlaceholders,
-          );
-          onChange?.(markdownValue);
-          return contentWithoutPlaceholders;
-        });
-      }
-    }
+    // Each file succeeds or fails on its own; failed ones stay in the tray
+    // for a retry instead of undoing the whole batch
+    setUploads((prev) => [...prev, ...newUploads]);
+    newUploads.forEach((u) => startUpload(u.id, u.file, u.draftId));
+  };
 
+  const handleMediaSelect = (e: ChangeEvent<HTMLInputElement>) => {
+    insertUploads(Array.from(e.target.files || []).map((file) => ({ file })));
     e.target.value = "";
   };
 
+  const handleInsertVoiceDraft = (draft: VoiceDraft) => {
+    insertUploads([{ file: voiceDraftFile(draft), draftId: draft.id }]);
+  };
+
+  const handlePaste = (e: ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = mediaFiles(e.clipboardData.files);
+    if (files.length === 0) return;
+    e.preventDefault();
+    insertUploads(files.map((file) => ({ file })));
+  };
+
+  const handleDragEnter = (e: DragEvent<HTMLDivElement>) => {
+    const kind = dragKindOf(e.dataTransfer);
+    if (!kind) return;
+    e.preventDefault();
+    dragDepth.current += 1;
+    setDragKind(kind);
+  };
+
+  const handleDragOver = (e: DragEvent<HTMLDivElement>) => {
+    if (!dragKindOf(e.dataTransfer)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "copy";
+  };
+
+  const handleDragLeave = () => {
+    if (!dragKind) return;
+    dragDepth.current -= 1;
+    if (dragDepth.current <= 0) {
+      dragDepth.current = 0;
+      setDragKind(null);
+    }
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    dragDepth.current = 0;
+    setDragKind(null);
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const at =
+      e.target === textarea ? textOffsetAtPoint(textarea, e.clientX, e.clientY) : undefined;
+
+    const files = mediaFiles(e.dataTransfer.files);
+    if (files.length > 0) {
+      e.preventDefault();
+      insertUploads(files.map((file) => ({ file })), at);
+      return;
+    }
+
+    const url = droppedUrl(e.dataTransfer);
+    if (url) {
+      e.preventDefault();
+      insertLinkCard(url, at);
+    }
+    // Anything else, like plain text, is dropped by the textarea itself
+  };
+
+  const handleViewModeChange = (mode: ViewMode) => {
+    setViewMode(mode);
+    localStorage.setItem(STORAGE_KEY_VIEW, mode);
+    if (mode !== "preview") {
+      setTimeout(() => textareaRef.current?.focus(), 0);
+    }
+  };
+
+  const handlePaneScroll = (pane: "editor" | "preview") => {
+    if (viewMode !== "split") return;
+    if (syncedPane.current === pane) {
+      syncedPane.current = null;
+      return;
+    }
+    const textarea = textareaRef.current;
+    const preview = previewRef.current;
+    if (!textarea || !preview) return;
+    const [from, to] = pane === "editor" ? [textarea, preview] : [preview, textarea];
+    if (syncScrollPosition(from, to)) {
+      syncedPane.current = pane === "editor" ? "preview" : "editor";
+    }
+  };
+
   return (
     <>
-      <textarea
-        ref={textareaRef}
-        className="editor-textarea"
-        value={content}
-        onChange={handleContentChange}
-        placeholder="Write your markdown here..."
+      {viewMode !== "preview" && <FormatToolbar onFormat={handleFormat} />}
+      <div
+        className={`editor-panes editor-panes--${viewMode}`}
+        onDragEnter={handleDragEnter}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+      >
+        {dragKind && (
+          <div className="editor-drop-overlay" aria-hidden>
+            {dragKind === "files" ? <ImagePlus size={24} /> : <Link2 size={24} />}
+            <span>{dragKind === "files" ? "Drop to attach" : "Drop to insert link"}</span>
+          </div>
+        )}
+        <textarea
+          ref={textareaRef}
+          className="editor-textarea"
+          value={content}
+          onChange={handleContentChange}
+          onKeyDown={handleKeyDown}
+          onSelect={slashMenu.update}
+          onBlur={() => {
+            if (slashMenu.isOpen) slashMenu.close();
+          }}
+          onPaste={handlePaste}
+          onScroll={() => handlePaneScroll("editor")}
+          placeholder="Write your markdown here..."
+          role="combobox"
+          aria-expanded={slashMenu.isOpen}
+          aria-controls={slashMenu.isOpen ? "slash-menu" : undefined}
+          aria-activedescendant={
+            slashMenu.isOpen && slashMenu.items[slashMenu.selectedIndex]
+              ? `slash-menu-${slashMenu.items[slashMenu.selectedIndex].id}`
+              : undefined
+          }
+        />
+        {slashMenu.isOpen && (
+          <SlashMenu
+            id="slash-menu"
+            items={slashMenu.items}
+            status={slashMenu.status}
+            selectedIndex={slashMenu.selectedIndex}
+            position={slashMenu.position}
+            onSelect={slashMenu.select}
+            onHover={slashMenu.setSelectedIndex}
+          />
+        )}
+        {viewMode !== "write" && (
+          <EditorPreview
+            ref={previewRef}
+            content={content}
+            onScroll={() => handlePaneScroll("preview")}
+          />
+        )}
+      </div>
+      <UploadTray
+        uploads={uploads}
+        onCancel={handleCancelUpload}
+        onRetry={handleRetryUpload}
+        onRemove={handleCancelUpload}
+      />
+      <VoiceDrafts
+        hiddenIds={uploads.flatMap((u) => (u.draftId ? [u.draftId] : []))}
+        onInsert={handleInsertVoiceDraft}
       />
       <div className="editor-actions">
         <input
           ref={fileInputRef}
           type="file"
-          accept="image/*"
+          accept={ACCEPTED_MEDIA_TYPES}
           multiple
-          onChange={handleImageUpload}
+          onChange={handleMediaSelect}
           style={{ display: "none" }}
         />
         <button
           type="button"
           className="ed-btn ed-btn--icon"
           onClick={() => fileInputRef.current?.click()}
-          title="Insert image"
-          aria-label="Insert image"
+          title="Attach photos, videos or audio"
+          aria-label="Attach photos, videos or audio"
         >
           <ImagePlus size={ICON_SIZE} />
         </button>
@@ -196,7 +794,23 @@ export default function MarkdownEditor({
         >
           <Link2 size={ICON_SIZE} />
         </button>
+        <VoiceRecorder ref={voiceRecorderRef} onRecorded={handleInsertVoiceDraft} />
         <div className="editor-toolbar__spacer" />
+        <div className="editor-view-modes" role="group" aria-label="View">
+          {VIEW_MODES.map(({ value, label, icon: Icon }) => (
+            <button
+              key={value}
+              type="button"
+              className="ed-btn ed-btn--icon"
+              aria-pressed={viewMode === value}
+              onClick={() => handleViewModeChange(value)}
+              title={label}
+              aria-label={label}
+            >
+              <Icon size={ICON_SIZE} />
+            </button>
+          ))}
+        </div>
         <button
           type="button"
           className="ed-btn ed-btn--primary"
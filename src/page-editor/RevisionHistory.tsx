@@ -0,0 +1,206 @@
+import { useMemo, useState } from "react";
+import { History, Loader2, RotateCcw, X } from "lucide-react";
+import { fetchEntryRevisions, type EntryRevision } from "../services/api";
+import { buildSearchHint } from "../services/entryDrafts";
+import { sendOrQueueWrite } from "../services/offlineQueue";
+import { queryKeys } from "../services/queryKeys";
+import { useQuery } from "../hooks/useQuery";
+import { diffWords } from "../utils/wordDiff";
+
+interface RevisionHistoryProps {
+  entryId: number;
+  /** Called after a revision was saved as the entry's current version on the server */
+  onRestored: () => void;
+  onClose: () => void;
+}
+
+const ICON_SIZE = 14;
+
+function revisionLabel(revision: EntryRevision, index: number): string {
+  const time = new Date(revision.createdAt).toLocaleString();
+  return index === 0 ? `${time} (current)` : time;
+}
+
+/**
+ * What changed besides the text, e.g. "+hiking, −work, location Home → Park"
+ */
+function describeFieldChanges(from: EntryRevision, to: EntryRevision): string[] {
+  const changes: string[] = [];
+  to.tags
+    .filter((tag) => !from.tags.some((t) => t.id === tag.id))
+    .forEach((tag) => changes.push(`+${tag.name}`));
+  from.tags
+    .filter((tag) => !to.tags.some((t) => t.id === tag.id))
+    .forEach((tag) => changes.push(`−${tag.name}`));
+  if (from.location?.id !== to.location?.id) {
+    changes.push(`location ${from.location?.name ?? "none"} → ${to.location?.name ?? "none"}`);
+  }
+  const added = to.mediaPaths.filter((path) => !from.mediaPaths.includes(path)).length;
+  const removed = from.mediaPaths.filter((path) => !to.mediaPaths.includes(path)).length;
+  if (added > 0) changes.push(`+${added} media`);
+  if (removed > 0) changes.push(`−${removed} media`);
+  return changes;
+}
+
+/**
+ * Side panel listing an entry's saved versions, with a word diff between
+ * any two of them and a way to bring an old one back
+ */
+export default function RevisionHistory({ entryId, onRestored, onClose }: RevisionHistoryProps) {
+  const {
+    data: revisions = [],
+    isLoading,
+    error,
+  } = useQuery(queryKeys.entryRevisions(entryId), () => fetchEntryRevisions(entryId));
+  const [fromId, setFromId] = useState<number | null>(null);
+  const [toId, setToId] = useState<number | null>(null);
+  const [restoring, setRestoring] = useState<number | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const to = revisions.find((r) => r.id === toId) ?? revisions[0];
+  const from = revisions.find((r) => r.id === fromId) ?? revisions[1] ?? revisions[0];
+
+  const diff = useMemo(
+    () => (from && to ? diffWords(from.content, to.content) : []),
+    [from, to]
+  );
+
+  const handleRestore = async (revision: EntryRevision) => {
+    if (!confirm(`Restore the version from ${new Date(revision.createdAt).toLocaleString()}?`)) {
+      return;
+    }
+    setRestoring(revision.id);
+    setNotice(null);
+    try {
+      // Like any other save, the restore goes behind writes still queued
+      // for this entry
+      const { queued } = await sendOrQueueWrite(
+        {
+          type: "update",
+          entryId,
+          request: {
+            content: revision.content,
+            searchHint: buildSearchHint(revision.content),
+            tagIds: revision.tags.map((tag) => tag.id),
+            locationId: revision.location?.id ?? null,
+            mediaPaths: revision.mediaPaths,
+          },
+        },
+        {
+          content: revision.content,
+          tags: revision.tags,
+          location: revision.location,
+          createdAt: new Date().toISOString(),
+        }
+      );
+      setFromId(null);
+      setToId(null);
+      if (queued) {
+        // Reloading the editor would show the version on the server
+        setNotice("Restore saved offline. It will sync when you're back online.");
+      } else {
+        onRestored();
+      }
+    } catch (err) {
+      console.error("Failed to restore revision:", err);
+      alert("Failed to restore this version. Please try again.");
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const renderSelect = (
+    id: string,
+    label: string,
+    value: EntryRevision | undefined,
+    onChange: (id: number) => void
+  ) => (
+    <label className="revision-history__pick" htmlFor={id}>
+      <span>{label}</span>
+      <select id={id} value={value?.id ?? ""} onChange={(e) => onChange(Number(e.target.value))}>
+        {revisions.map((revision, index) => (
+          <option key={revision.id} value={revision.id}>
+            {revisionLabel(revision, index)}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+
+  let body;
+  if (isLoading) {
+    body = <p className="revision-history__status">Loading…</p>;
+  } else if (error && revisions.length === 0) {
+    body = <p className="revision-history__status">Failed to load the history of this entry</p>;
+  } else if (revisions.length === 0) {
+    body = <p className="revision-history__status">No earlier versions yet.</p>;
+  } else {
+    const fieldChanges = from && to ? describeFieldChanges(from, to) : [];
+    body = (
+      <>
+        <div className="revision-history__compare">
+          {renderSelect("revision-from", "From", from, setFromId)}
+          {renderSelect("revision-to", "To", to, setToId)}
+        </div>
+        {fieldChanges.length > 0 && (
+          <p className="revision-history__fields">{fieldChanges.join(", ")}</p>
+        )}
+        <div className="revision-history__diff" aria-label="Changes">
+          {diff.map((part, index) =>
+            part.type === "insert" ? (
+              <ins key={index}>{part.text}</ins>
+            ) : part.type === "delete" ? (
+              <del key={index}>{part.text}</del>
+            ) : (
+              <span key={index}>{part.text}</span>
+            )
+          )}
+        </div>
+
+        <ul className="revision-history__list">
+          {revisions.map((revision, index) => (
+            <li key={revision.id} className="revision-history__item">
+              <span className="revision-history__time">{revisionLabel(revision, index)}</span>
+              {index > 0 && (
+                <button
+                  type="button"
+                  className="ed-btn"
+                  onClick={() => handleRestore(revision)}
+                  disabled={restoring !== null}
+                  title="Save this version as the current one"
+                >
+                  {restoring === revision.id ? (
+                    <Loader2 size={ICON_SIZE} className="ed-spin" />
+                  ) : (
+                    <RotateCcw size={ICON_SIZE} />
+                  )}
+                  Restore
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      </>
+    );
+  }
+
+  return (
+    <aside className="revision-history" aria-label="Revision history">
+      <div className="revision-history__header">
+        <History size={16} aria-hidden />
+        <h3 className="revision-history__title">History</h3>
+        <button
+          type="button"
+          className="ed-btn ed-btn--icon"
+          onClick={onClose}
+          title="Close history"
+          aria-label="Close history"
+        >
+          <X size={16} />
+        </button>
+      </div>
+      {notice && <p className="revision-history__status">{notice}</p>}
+      {body}
+    </aside>
+  );
+}
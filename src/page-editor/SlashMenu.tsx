@@ -0,0 +1,60 @@
+import type { SlashCommand } from "../hooks/useSlashMenu";
+
+interface SlashMenuProps {
+  id: string;
+  items: SlashCommand[];
+  selectedIndex: number;
+  /** Shown instead of the items while they load or when there are none */
+  status?: string;
+  position: { top: number; left: number };
+  onSelect: (index: number) => void;
+  onHover: (index: number) => void;
+}
+
+const ICON_SIZE = 14;
+
+/**
+ * The command list that opens when a line starts with "/". Keyboard
+ * handling stays in the textarea, which keeps the focus.
+ */
+export default function SlashMenu({
+  id,
+  items,
+  selectedIndex,
+  status,
+  position,
+  onSelect,
+  onHover,
+}: SlashMenuProps) {
+  return (
+    <ul
+      id={id}
+      className="slash-menu"
+      role="listbox"
+      aria-label="Insert"
+      style={{ top: position.top, left: position.left }}
+      // Clicking an item must not take the focus from the textarea
+      onMouseDown={(e) => e.preventDefault()}
+    >
+      {status ? (
+        <li className="slash-menu__status">{status}</li>
+      ) : (
+        items.map(({ id: itemId, label, hint, icon: Icon }, index) => (
+          <li
+            key={itemId}
+            id={`${id}-${itemId}`}
+            role="option"
+            aria-selected={index === selectedIndex}
+            className={`slash-menu__item${index === selectedIndex ? " slash-menu__item--active" : ""}`}
+            onClick={() => onSelect(index)}
+            onMouseEnter={() => onHover(index)}
+          >
+            <Icon size={ICON_SIZE} aria-hidden />
+            <span className="slash-menu__label">{label}</span>
+            {hint && <span className="slash-menu__hint">{hint}</span>}
+          </li>
+        ))
+      )}
+    </ul>
+  );
+}
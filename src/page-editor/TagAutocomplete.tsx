@@ -1,5 +1,6 @@
 import { useState, useCallback } from "react";
-import { searchTagSuggestions, createTag, type Tag } from "../services/api";
+import { createTag, type Tag } from "../services/api";
+import { searchTagSuggestionsCached } from "../services/queries";
 import type { AutocompleteOption } from "../components/Autocomplete";
 import Autocomplete from "../components/Autocomplete";
 import TagChip from "../components/TagChip";
@@ -28,7 +29,7 @@ export default function TagAutocomplete({
   const fetchTagSuggestions = useCallback(
     async (query: string): Promise<AutocompleteOption[]> => {
       try {
-        const suggestions = await searchTagSuggestions(query, tagType);
+        const suggestions = await searchTagSuggestionsCached(query, tagType);
 
         // Filter out already selected tags
         const filtered = suggestions.filter(
@@ -0,0 +1,40 @@
+import { LayoutTemplate } from "lucide-react";
+import type { EntryTemplate } from "../services/api";
+
+interface TemplatePickerProps {
+  templates: EntryTemplate[];
+  onApply: (template: EntryTemplate) => void;
+}
+
+const ICON_SIZE = 16;
+
+/**
+ * Toolbar menu that fills the editor from a template
+ */
+export default function TemplatePicker({ templates, onApply }: TemplatePickerProps) {
+  if (templates.length === 0) return null;
+
+  return (
+    <label className="ed-btn editor-template-picker" title="Start from a template">
+      <LayoutTemplate size={ICON_SIZE} aria-hidden />
+      <span>Template</span>
+      <select
+        value=""
+        onChange={(e) => {
+          const template = templates.find((t) => String(t.id) === e.target.value);
+          if (template) onApply(template);
+        }}
+        aria-label="Start from a template"
+      >
+        <option value="" disabled>
+          Template
+        </option>
+        {templates.map((template) => (
+          <option key={template.id} value={template.id}>
+            {template.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,108 @@
+import { X, RotateCw, CircleAlert } from "lucide-react";
+import { formatFileSize } from "../utils/imageUtils";
+
+export interface PendingUpload {
+  /** Also identifies the upload's placeholder in the editor text */
+  id: string;
+  file: File;
+  status: "queued" | "uploading" | "failed";
+  loaded: number;
+  total: number;
+  error?: string;
+  /** Voice draft the file came from, deleted once the upload succeeds */
+  draftId?: string;
+}
+
+interface UploadTrayProps {
+  uploads: PendingUpload[];
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+}
+
+const ICON_SIZE = 14;
+
+function describe(upload: PendingUpload): string {
+  switch (upload.status) {
+    case "queued":
+      return "Waiting…";
+    case "uploading":
+      return `${formatFileSize(upload.loaded)} of ${formatFileSize(upload.total)}`;
+    case "failed":
+      return upload.error || "Upload failed";
+  }
+}
+
+/**
+ * Lists the editor's unfinished image uploads with their progress
+ */
+export default function UploadTray({ uploads, onCancel, onRetry, onRemove }: UploadTrayProps) {
+  if (uploads.length === 0) return null;
+
+  return (
+    <ul className="editor-uploads" aria-label="Image uploads">
+      {uploads.map((upload) => {
+        const percent = upload.total > 0 ? (upload.loaded / upload.total) * 100 : 0;
+        const failed = upload.status === "failed";
+        return (
+          <li
+            key={upload.id}
+            className={`editor-upload${failed ? " editor-upload--failed" : ""}`}
+          >
+            <div className="editor-upload__info">
+              <span className="editor-upload__name">{upload.file.name}</span>
+              <span className="editor-upload__status">
+                {failed && <CircleAlert size={12} aria-hidden />}
+                {describe(upload)}
+              </span>
+            </div>
+            {!failed && (
+              <div
+                className="editor-upload__bar"
+                role="progressbar"
+                aria-label={`Uploading ${upload.file.name}`}
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={Math.round(percent)}
+              >
+                <span style={{ width: `${percent}%` }} />
+              </div>
+            )}
+            {failed ? (
+              <>
+                <button
+                  type="button"
+                  className="ed-btn ed-btn--icon"
+                  onClick={() => onRetry(upload.id)}
+                  title="Retry upload"
+                  aria-label={`Retry uploading ${upload.file.name}`}
+                >
+                  <RotateCw size={ICON_SIZE} />
+                </button>
+                <button
+                  type="button"
+                  className="ed-btn ed-btn--icon"
+                  onClick={() => onRemove(upload.id)}
+                  title="Remove image"
+                  aria-label={`Remove ${upload.file.name}`}
+                >
+                  <X size={ICON_SIZE} />
+                </button>
+              </>
+            ) : (
+              <button
+                type="button"
+                className="ed-btn ed-btn--icon"
+                onClick={() => onCancel(upload.id)}
+                title="Cancel upload"
+                aria-label={`Cancel uploading ${upload.file.name}`}
+              >
+                <X size={ICON_SIZE} />
+              </button>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
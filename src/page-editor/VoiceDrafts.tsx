@@ -0,0 +1,75 @@
+import { Mic, Plus, Trash2 } from "lucide-react";
+import { useVoiceDrafts } from "../hooks/useVoiceDrafts";
+import {
+  deleteVoiceDraft,
+  isRecordingHere,
+  type VoiceDraft,
+} from "../services/voiceDrafts";
+import { formatDuration } from "../utils/mediaUtils";
+
+interface VoiceDraftsProps {
+  /** Drafts already being uploaded */
+  hiddenIds: string[];
+  onInsert: (draft: VoiceDraft) => void;
+}
+
+const ICON_SIZE = 14;
+
+/**
+ * Voice notes recorded earlier but not uploaded yet, e.g. because the page
+ * was reloaded or their upload was cancelled
+ */
+export default function VoiceDrafts({ hiddenIds, onInsert }: VoiceDraftsProps) {
+  const drafts = useVoiceDrafts().filter(
+    (draft) =>
+      !hiddenIds.includes(draft.id) &&
+      !isRecordingHere(draft.id) &&
+      draft.chunks.length > 0
+  );
+
+  if (drafts.length === 0) return null;
+
+  const handleDiscard = (draft: VoiceDraft) => {
+    if (!confirm("Discard this voice note?")) return;
+    deleteVoiceDraft(draft.id).catch((error) =>
+      console.error("Failed to discard voice draft:", error)
+    );
+  };
+
+  return (
+    <ul className="editor-uploads" aria-label="Unsent voice notes">
+      {drafts.map((draft) => (
+        <li key={draft.id} className="editor-upload">
+          <Mic size={ICON_SIZE} aria-hidden />
+          <div className="editor-upload__info">
+            <span className="editor-upload__name">
+              Voice note · {formatDuration(draft.durationMs / 1000)}
+            </span>
+            <span className="editor-upload__status">
+              {new Date(draft.createdAt).toLocaleString()}
+              {draft.status === "recording" && " · interrupted"}
+            </span>
+          </div>
+          <button
+            type="button"
+            className="ed-btn"
+            onClick={() => onInsert(draft)}
+            title="Upload and insert into the entry"
+          >
+            <Plus size={ICON_SIZE} />
+            Insert
+          </button>
+          <button
+            type="button"
+            className="ed-btn ed-btn--icon"
+            onClick={() => handleDiscard(draft)}
+            title="Discard voice note"
+            aria-label="Discard voice note"
+          >
+            <Trash2 size={ICON_SIZE} />
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
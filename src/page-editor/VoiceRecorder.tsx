@@ -0,0 +1,117 @@
+import { useEffect, useImperativeHandle, type Ref } from "react";
+import { Mic, Pause, Play, Square, Trash2, Loader2 } from "lucide-react";
+import { MEDIA_CONFIG } from "../config/constants";
+import { useVoiceRecorder } from "../hooks/useVoiceRecorder";
+import type { VoiceDraft } from "../services/voiceDrafts";
+import { formatDuration } from "../utils/mediaUtils";
+
+export interface VoiceRecorderHandle {
+  start: () => void;
+}
+
+interface VoiceRecorderProps {
+  /** Called with the finished recording, still saved as a draft */
+  onRecorded: (draft: VoiceDraft) => void;
+  /** Lets the editor start a recording from the keyboard */
+  ref?: Ref<VoiceRecorderHandle>;
+}
+
+const ICON_SIZE = 16;
+
+/**
+ * Record button for the editor toolbar. While recording it turns into a
+ * level meter with pause, stop and discard controls.
+ */
+export default function VoiceRecorder({ onRecorded, ref }: VoiceRecorderProps) {
+  const { status, elapsedMs, level, error, start, pause, resume, stop, discard } =
+    useVoiceRecorder();
+
+  useImperativeHandle(ref, () => ({ start }), [start]);
+
+  const handleStop = async () => {
+    const draft = await stop();
+    if (draft) onRecorded(draft);
+  };
+
+  // Longer clips would be rejected on upload, so stop at the limit
+  const reachedLimit = elapsedMs >= MEDIA_CONFIG.MAX_CLIP_DURATION_SECONDS * 1000;
+  useEffect(() => {
+    if (reachedLimit) handleStop();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [reachedLimit]);
+
+  const handleDiscard = () => {
+    if (!confirm("Discard this recording?")) return;
+    discard();
+  };
+
+  if (status === "idle" || status === "starting") {
+    return (
+      <>
+        <button
+          type="button"
+          className="ed-btn ed-btn--icon"
+          onClick={start}
+          disabled={status === "starting"}
+          title="Record a voice note"
+          aria-label="Record a voice note"
+        >
+          {status === "starting" ? (
+            <Loader2 size={ICON_SIZE} className="ed-spin" />
+          ) : (
+            <Mic size={ICON_SIZE} />
+          )}
+        </button>
+        {error && (
+          <span className="voice-recorder__error" role="alert">
+            {error}
+          </span>
+        )}
+      </>
+    );
+  }
+
+  const paused = status === "paused";
+
+  return (
+    <div className="voice-recorder" role="group" aria-label="Voice recorder">
+      <span
+        className={`voice-recorder__dot${paused ? " voice-recorder__dot--paused" : ""}`}
+        aria-hidden
+      />
+      <span className="voice-recorder__time" aria-live="off">
+        {formatDuration(elapsedMs / 1000)}
+      </span>
+      <span className="voice-recorder__meter" aria-hidden>
+        <span style={{ transform: `scaleX(${level})` }} />
+      </span>
+      <button
+        type="button"
+        className="ed-btn ed-btn--icon"
+        onClick={paused ? resume : pause}
+        title={paused ? "Resume recording" : "Pause recording"}
+        aria-label={paused ? "Resume recording" : "Pause recording"}
+      >
+        {paused ? <Play size={ICON_SIZE} /> : <Pause size={ICON_SIZE} />}
+      </button>
+      <button
+        type="button"
+        className="ed-btn ed-btn--icon ed-btn--primary"
+        onClick={handleStop}
+        title="Stop and insert"
+        aria-label="Stop and insert"
+      >
+        <Square size={ICON_SIZE} />
+      </button>
+      <button
+        type="button"
+        className="ed-btn ed-btn--icon"
+        onClick={handleDiscard}
+        title="Discard recording"
+        aria-label="Discard recording"
+      >
+        <Trash2 size={ICON_SIZE} />
+      </button>
+    </div>
+  );
+}
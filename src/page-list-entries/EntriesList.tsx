@@ -1,5 +1,17 @@
-import { useState, useEffect, useCallback, useRef } from "react";
-import { searchEntries, deleteEntry, fetchTags, type Entry, type Tag } from "../services/api";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import {
+  searchEntries,
+  fetchTags,
+  isApiError,
+  type Entry,
+  type FetchEntriesResponse,
+  type SearchEntriesOptions,
+} from "../services/api";
+import { getQueryState, setQueryData } from "../services/queryCache";
+import { queryKeys } from "../services/queryKeys";
+import { useQuery } from "../hooks/useQuery";
+import { sendOrQueueWrite } from "../services/offlineQueue";
+import { useOfflineQueue } from "../hooks/useOfflineQueue";
 import { useNavigate, useSearchParams } from "react-router-dom";
 import {
   Search,
@@ -9,35 +21,42 @@ import {
   Trash2,
   Check,
   ArrowUp,
+  CloudOff,
+  Star,
 } from "lucide-react";
 import "../themes/default.css";
 import "./EntriesList.css";
 import MarkdownViewer from "../components/MarkdownViewer";
+import PendingWrites from "./PendingWrites";
+
+/**
+ * How long typing has to pause before the search is applied
+ */
+const SEARCH_DEBOUNCE_MS = 300;
 
 export default function EntriesList() {
   const navigate = useNavigate();
   const [searchParams, setSearchParams] = useSearchParams();
 
-  const getSearchQueryFromParams = useCallback(() => {
-    return searchParams.get("q") || "";
-  }, [searchParams]);
-
-  const getTagIdsFromParams = useCallback(() => {
-    const tagIdsParam = searchParams.get("tagIds");
-    return tagIdsParam ? tagIdsParam.split(",").map(id => parseInt(id, 10)) : [];
-  }, [searchParams]);
+  // The URL holds the applied search; the input only reaches it once debounced
+  const searchQuery = searchParams.get("q") || "";
+  const tagIdsParam = searchParams.get("tagIds") || "";
+  const selectedTagIds = useMemo(
+    () => (tagIdsParam ? tagIdsParam.split(",").map(id => parseInt(id, 10)) : []),
+    [tagIdsParam]
+  );
+  const searchKey = `${searchQuery}|${tagIdsParam}`;
 
   const [entries, setEntries] = useState<Entry[]>([]);
-  const [page, setPage] = useState(1);
   const [total, setTotal] = useState(0);
   const [hasMore, setHasMore] = useState(false);
   const [loading, setLoading] = useState(false);
   const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [editMode, setEditMode] = useState(false);
-  const [searchQuery, setSearchQuery] = useState(getSearchQueryFromParams());
-  const [selectedTagIds, setSelectedTagIds] = useState<number[]>(getTagIdsFromParams());
-  const [allTags, setAllTags] = useState<Tag[]>([]);
+  const [searchInput, setSearchInput] = useState(searchQuery);
+  const [syncedQuery, setSyncedQuery] = useState(searchQuery);
+  const [lastWrittenQuery, setLastWrittenQuery] = useState(searchQuery);
   const [showTagFilter, setShowTagFilter] = useState(false);
   const [showBackToTop, setShowBackToTop] = useState(false);
   const pageSize = 10;
@@ -50,72 +69,148 @@ export default function EntriesList() {
   const pageRef = useRef(1);
   const queryRef = useRef(searchQuery);
   const tagIdsRef = useRef(selectedTagIds);
+  // Identifies the query/tag set that responses must belong to
+  const searchKeyRef = useRef(searchKey);
+  const loadMoreAbortRef = useRef<AbortController | null>(null);
+  const queuedWrites = useOfflineQueue();
+  const queuedCountRef = useRef(0);
+
+  // Entry IDs with an update or delete still waiting in the offline queue
+  const pendingEntryIds = new Set(
+    queuedWrites.flatMap((write) =>
+      write.operation.type === "create" ? [] : [write.operation.entryId]
+    )
+  );
 
-  // Load all tags
-  useEffect(() => {
-    const loadTags = async () => {
-      try {
-        const tags = await fetchTags();
-        setAllTags(tags.filter(tag => tag.type === "tag"));
-      } catch (err) {
-        console.error("Error loading tags:", err);
-      }
-    };
+  // Load all tags for the filter
+  const { data: tags } = useQuery(queryKeys.tags(), () => fetchTags());
+  const allTags = (tags ?? []).filter((tag) => tag.type === "tag");
 
-    loadTags();
-  }, []);
+  const applyFirstPage = (response: FetchEntriesResponse) => {
+    setEntries(response.entries);
+    setTotal(response.total);
+    setHasMore(response.hasMore);
+    hasMoreRef.current = response.hasMore;
+  };
+
+  // Follow the URL when it changes from outside the search box (back/forward)
+  if (searchQuery !== syncedQuery) {
+    setSyncedQuery(searchQuery);
+    if (searchQuery !== lastWrittenQuery) {
+      setSearchInput(searchQuery);
+    }
+  }
+
+  // Apply the typed search to the URL once typing pauses
+  useEffect(() => {
+    const nextQuery = searchInput.trim() ? searchInput : "";
+    if (nextQuery === searchQuery) return;
+
+    const timer = setTimeout(() => {
+      setLastWrittenQuery(nextQuery);
+      setSearchParams(
+        (prev) => {
+          const newParams = new URLSearchParams(prev);
+          if (nextQuery) {
+            newParams.set("q", nextQuery);
+          } else {
+            newParams.delete("q");
+          }
+          return newParams;
+        },
+        { replace: true }
+      );
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput, searchQuery, setSearchParams]);
 
   // Reset and load first page when query/tags change
   useEffect(() => {
+    const controller = new AbortController();
+
     const loadFirst = async () => {
-      setLoading(true);
       setError(null);
       queryRef.current = searchQuery;
       tagIdsRef.current = selectedTagIds;
+      searchKeyRef.current = searchKey;
       pageRef.current = 1;
+      // A page still loading for the previous search must not be appended
+      loadMoreAbortRef.current?.abort();
+
+      const search: SearchEntriesOptions = {
+        query: searchQuery || undefined,
+        tagIds: selectedTagIds.length > 0 ? selectedTagIds : undefined,
+        page: 1,
+        pageSize,
+      };
+
+      // Show the cached first page right away and revalidate behind it
+      const cached = getQueryState<FetchEntriesResponse>(
+        queryKeys.entries(search)
+      ).data;
+      if (cached) {
+        applyFirstPage(cached);
+        setLoading(false);
+      } else {
+        setLoading(true);
+      }
 
       try {
-        const response = await searchEntries({
-          query: searchQuery || undefined,
-          tagIds: selectedTagIds.length > 0 ? selectedTagIds : undefined,
-          page: 1,
-          pageSize,
-        });
-        setEntries(response.entries);
-        setTotal(response.total);
-        setHasMore(response.hasMore);
-        hasMoreRef.current = response.hasMore;
-        setPage(1);
+        const response = await searchEntries(search, { signal: controller.signal });
+        setQueryData(queryKeys.entries(search), response);
+        if (controller.signal.aborted) return;
+        if (pageRef.current === 1 && !loadingMoreRef.current) {
+          applyFirstPage(response);
+        } else {
+          // More pages were loaded behind the cached first page meanwhile:
+          // swap in the fresh first page and keep the rest
+          const freshIds = new Set(response.entries.map((entry) => entry.id));
+          setEntries((prev) => [
+            ...response.entries,
+            ...prev.slice(pageSize).filter((entry) => !freshIds.has(entry.id)),
+          ]);
+          setTotal(response.total);
+        }
       } catch (err) {
+        if (controller.signal.aborted) return;
         setError(err instanceof Error ? err.message : "Failed to load entries");
         console.error("Error loading entries:", err);
       } finally {
-        setLoading(false);
+        if (!controller.signal.aborted) setLoading(false);
       }
     };
 
     loadFirst();
-  }, [searchQuery, selectedTagIds]);
+    return () => controller.abort();
+  }, [searchQuery, selectedTagIds, searchKey]);
 
   const loadMore = useCallback(async () => {
     if (loadingMoreRef.current || !hasMoreRef.current) return;
     loadingMoreRef.current = true;
     setLoadingMore(true);
     const nextPage = pageRef.current + 1;
+    const key = searchKeyRef.current;
+    const controller = new AbortController();
+    loadMoreAbortRef.current = controller;
 
     try {
-      const response = await searchEntries({
-        query: queryRef.current || undefined,
-        tagIds: tagIdsRef.current.length > 0 ? tagIdsRef.current : undefined,
-        page: nextPage,
-        pageSize,
-      });
+      const response = await searchEntries(
+        {
+          query: queryRef.current || undefined,
+          tagIds: tagIdsRef.current.length > 0 ? tagIdsRef.current : undefined,
+          page: nextPage,
+          pageSize,
+        },
+        { signal: controller.signal }
+      );
+      // The search changed while this page was loading
+      if (searchKeyRef.current !== key) return;
       setEntries(prev => [...prev, ...response.entries]);
       setHasMore(response.hasMore);
       hasMoreRef.current = response.hasMore;
       pageRef.current = nextPage;
-      setPage(nextPage);
     } catch (err) {
+      if ((isApiError(err) && err.isAborted) || searchKeyRef.current !== key) return;
       setError(err instanceof Error ? err.message : "Failed to load more entries");
       console.error("Error loading more entries:", err);
     } finally {
@@ -124,24 +219,6 @@ export default function EntriesList() {
     }
   }, []);
 
-  // Sync search query state with URL parameters
-  useEffect(() => {
-    const queryFromUrl = getSearchQueryFromParams();
-    if (queryFromUrl !== searchQuery) {
-      setSearchQuery(queryFromUrl);
-    }
-  }, [searchParams, searchQuery, getSearchQueryFromParams]);
-
-  // Sync tag IDs state with URL parameters
-  useEffect(() => {
-    const tagIdsFromUrl = getTagIdsFromParams();
-    const currentTagIds = selectedTagIds.join(",");
-    const urlTagIds = tagIdsFromUrl.join(",");
-    if (urlTagIds !== currentTagIds) {
-      setSelectedTagIds(tagIdsFromUrl);
-    }
-  }, [searchParams, selectedTagIds, getTagIdsFromParams]);
-
   // IntersectionObserver for infinite scroll
   useEffect(() => {
     const node = sentinelRef.current;
@@ -219,7 +296,11 @@ export default function EntriesList() {
   const groupEntriesByDate = (entries: Entry[]) => {
     const groups: { [date: string]: Entry[] } = {};
 
-    entries.forEach((entry) => {
+    // Newest first, also right after an entry was moved to another time
+    const sorted = [...entries].sort(
+      (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    );
+    sorted.forEach((entry) => {
       const dateKey = formatDate(entry.createdAt);
       if (!groups[dateKey]) {
         groups[dateKey] = [];
@@ -234,24 +315,48 @@ export default function EntriesList() {
     navigate(`/edit/${entryId}`);
   };
 
+  // Reload all currently visible pages
+  const reloadVisiblePages = useCallback(async () => {
+    const key = searchKeyRef.current;
+    const response = await searchEntries({
+      query: queryRef.current || undefined,
+      tagIds: tagIdsRef.current.length > 0 ? tagIdsRef.current : undefined,
+      page: 1,
+      pageSize: pageSize * pageRef.current,
+    });
+    if (searchKeyRef.current !== key) return;
+    setEntries(response.entries);
+    setTotal(response.total);
+    setHasMore(response.hasMore);
+    hasMoreRef.current = response.hasMore;
+  }, []);
+
+  // Refresh once queued writes have been replayed to the server
+  useEffect(() => {
+    const previousCount = queuedCountRef.current;
+    queuedCountRef.current = queuedWrites.length;
+    if (queuedWrites.length < previousCount) {
+      reloadVisiblePages().catch((err) =>
+        console.error("Error refreshing entries after sync:", err)
+      );
+    }
+  }, [queuedWrites.length, reloadVisiblePages]);
+
   const handleDelete = async (entryId: number) => {
     if (!confirm("Are you sure you want to delete this entry?")) {
       return;
     }
 
     try {
-      await deleteEntry(entryId);
-      // Reload all currently visible pages
-      const response = await searchEntries({
-        query: searchQuery || undefined,
-        tagIds: selectedTagIds.length > 0 ? selectedTagIds : undefined,
-        page: 1,
-        pageSize: pageSize * page,
-      });
-      setEntries(response.entries);
-      setTotal(response.total);
-      setHasMore(response.hasMore);
-      hasMoreRef.current = response.hasMore;
+      // Goes through the queue when offline or behind older queued writes
+      const { queued } = await sendOrQueueWrite({ type: "delete", entryId });
+      if (queued) {
+        // Hide the entry until the delete syncs
+        setEntries((prev) => prev.filter((entry) => entry.id !== entryId));
+        setTotal((prev) => Math.max(0, prev - 1));
+        return;
+      }
+      await reloadVisiblePages();
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to delete entry");
       console.error("Error deleting entry:", err);
@@ -259,18 +364,12 @@ export default function EntriesList() {
   };
 
   const handleSearchChange = (value: string) => {
-    setSearchQuery(value);
-    const newParams = new URLSearchParams(searchParams);
-    if (value.trim()) {
-      newParams.set("q", value);
-    } else {
-      newParams.delete("q");
-    }
-    setSearchParams(newParams);
+    setSearchInput(value);
   };
 
   const handleClearSearch = () => {
-    setSearchQuery("");
+    setSearchInput("");
+    setLastWrittenQuery("");
     const newParams = new URLSearchParams(searchParams);
     newParams.delete("q");
     setSearchParams(newParams);
@@ -281,7 +380,6 @@ export default function EntriesList() {
       ? selectedTagIds.filter(id => id !== tagId)
       : [...selectedTagIds, tagId];
 
-    setSelectedTagIds(newSelectedTagIds);
     const newParams = new URLSearchParams(searchParams);
     if (newSelectedTagIds.length > 0) {
       newParams.set("tagIds", newSelectedTagIds.join(","));
@@ -292,7 +390,6 @@ export default function EntriesList() {
   };
 
   const handleClearTagFilter = () => {
-    setSelectedTagIds([]);
     const newParams = new URLSearchParams(searchParams);
     newParams.delete("tagIds");
     setSearchParams(newParams);
@@ -309,11 +406,11 @@ export default function EntriesList() {
             type="text"
             className="entries-toolbar__search-input"
             placeholder="Search entries"
-            value={searchQuery}
+            value={searchInput}
             onChange={(e) => handleSearchChange(e.target.value)}
             aria-label="Search entries"
           />
-          {searchQuery && (
+          {searchInput && (
             <button
               type="button"
               className="entries-toolbar__search-clear"
@@ -393,6 +490,8 @@ export default function EntriesList() {
         </div>
       )}
 
+      <PendingWrites writes={queuedWrites} />
+
       {loading ? (
         <div>Loading entries...</div>
       ) : (
@@ -422,6 +521,20 @@ export default function EntriesList() {
                           <div className="entry">
                             <div className="entry-time">
                               {formatTime(entry.createdAt)}
+                              {entry.isHighlighted && (
+                                <Star
+                                  size={12}
+                                  className="entry-highlight"
+                                  fill="currentColor"
+                                  aria-label="Highlighted"
+                                />
+                              )}
+                              {pendingEntryIds.has(entry.id) && (
+                                <span className="entry-sync-badge">
+                                  <CloudOff size={12} aria-hidden="true" />
+                                  Pending sync
+                                </span>
+                              )}
                             </div>
                             <div className="entry-content">
                               <MarkdownViewer
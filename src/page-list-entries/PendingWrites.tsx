@@ -0,0 +1,120 @@
+import { useNavigate } from "react-router-dom";
+import { CloudOff, CircleAlert, RotateCw, Pencil, Trash2 } from "lucide-react";
+import {
+  discardQueuedWrite,
+  retryQueuedWrite,
+  type QueuedWrite,
+} from "../services/offlineQueue";
+import type { EditorLocationState } from "../page-editor/Editor";
+import MarkdownViewer from "../components/MarkdownViewer";
+
+interface PendingWritesProps {
+  writes: QueuedWrite[];
+}
+
+const describeWrite = (write: QueuedWrite): string => {
+  switch (write.operation.type) {
+    case "create":
+      return "New entry";
+    case "update":
+      return `Edit to entry #${write.operation.entryId}`;
+    case "delete":
+      return `Delete entry #${write.operation.entryId}`;
+  }
+};
+
+export default function PendingWrites({ writes }: PendingWritesProps) {
+  const navigate = useNavigate();
+
+  if (writes.length === 0) return null;
+
+  const handleResolve = (write: QueuedWrite) => {
+    const state: EditorLocationState = { queuedWriteId: write.id };
+    if (write.operation.type === "update") {
+      navigate(`/edit/${write.operation.entryId}`, { state });
+    } else {
+      navigate("/", { state });
+    }
+  };
+
+  const handleDiscard = async (write: QueuedWrite) => {
+    if (!confirm("Discard this unsynced change? It cannot be recovered.")) {
+      return;
+    }
+    await discardQueuedWrite(write.id);
+  };
+
+  return (
+    <div className="day-group entries-pending">
+      <h3 className="day-group-date">Not yet synced</h3>
+      {writes.map((write) => {
+        const failed = write.status === "failed";
+        return (
+          <div key={write.id} className="entry">
+            <div className="entry-time">
+              {describeWrite(write)}
+              <span
+                className={`entry-sync-badge${
+                  failed ? " entry-sync-badge--failed" : ""
+                }`}
+              >
+                {failed ? (
+                  <CircleAlert size={12} aria-hidden="true" />
+                ) : (
+                  <CloudOff size={12} aria-hidden="true" />
+                )}
+                {failed ? "Sync failed" : "Pending sync"}
+              </span>
+            </div>
+            <div className="entry-content">
+              {write.snapshot && write.operation.type !== "delete" && (
+                <MarkdownViewer content={write.snapshot.content} />
+              )}
+              {failed && write.error && (
+                <div className="entries-status entries-status--error">
+                  {write.error}
+                </div>
+              )}
+              {failed && (
+                <div className="entry-actions">
+                  {write.operation.type !== "delete" && (
+                    <button
+                      type="button"
+                      className="entry-actions__btn"
+                      onClick={() => handleResolve(write)}
+                      aria-label="Open in editor to resolve"
+                      title="Open in editor to resolve"
+                    >
+                      <Pencil size={14} aria-hidden="true" />
+                      Resolve
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    className="entry-actions__btn"
+                    onClick={() => retryQueuedWrite(write.id)}
+                    aria-label="Retry sync"
+                    title="Retry sync"
+                  >
+                    <RotateCw size={14} aria-hidden="true" />
+                    Retry
+                  </button>
+                  <button
+                    type="button"
+                    className="entry-actions__btn entry-actions__btn--danger"
+                    onClick={() => handleDiscard(write)}
+                    aria-label="Discard unsynced change"
+                    title="Discard unsynced change"
+                  >
+                    <Trash2 size={14} aria-hidden="true" />
+                    Discard
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,297 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import {
+  ChevronLeft,
+  ChevronRight,
+  RefreshCw,
+  Save,
+  Star,
+  MapPin,
+  Tag as TagIcon,
+} from "lucide-react";
+import { saveSummary, type SummaryCount, type SummaryPeriod } from "../services/api";
+import {
+  loadSummary,
+  regenerateSummary,
+  type LoadedSummary,
+} from "../services/summaries";
+import { formatPeriodLabel, fromDateKey, periodStart, shiftPeriod } from "../utils/summaries";
+import "./SummariesPage.css";
+
+const PERIODS: Array<{ value: SummaryPeriod; label: string }> = [
+  { value: "week", label: "Week" },
+  { value: "month", label: "Month" },
+  { value: "year", label: "Year" },
+];
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+interface SummaryState {
+  /** Period the result belongs to, as `period:startDate` */
+  key: string;
+  loaded: LoadedSummary | null;
+  error: string | null;
+}
+
+function readPeriod(value: string | null): SummaryPeriod {
+  return PERIODS.some((p) => p.value === value) ? (value as SummaryPeriod) : "week";
+}
+
+function CountList({ items, empty }: { items: SummaryCount[]; empty: string }) {
+  if (items.length === 0) {
+    return <p className="summaries-page__empty">{empty}</p>;
+  }
+  return (
+    <ul className="summaries-page__counts">
+      {items.map((item) => (
+        <li key={item.id} className="summaries-page__count">
+          <span className="summaries-page__count-name">{item.name}</span>
+          <span className="summaries-page__count-value">{item.count}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function SummariesPage() {
+  // Period and start date live in the URL so a summary can be linked to
+  const [searchParams, setSearchParams] = useSearchParams();
+  const period = readPeriod(searchParams.get("period"));
+  const startParam = searchParams.get("start");
+  const startDate = periodStart(
+    period,
+    startParam && DATE_KEY_PATTERN.test(startParam) ? fromDateKey(startParam) : new Date()
+  );
+  const key = `${period}:${startDate}`;
+  const isCurrent = startDate === periodStart(period, new Date());
+
+  const [state, setState] = useState<SummaryState | null>(null);
+  const [recap, setRecap] = useState<{ key: string; text: string } | null>(null);
+  const [busy, setBusy] = useState<"saving" | "regenerating" | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const keyRef = useRef(key);
+
+  useEffect(() => {
+    keyRef.current = key;
+    const controller = new AbortController();
+    loadSummary(period, startDate, { signal: controller.signal })
+      .then((loaded) => setState({ key, loaded, error: null }))
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        setState({
+          key,
+          loaded: null,
+          error: error instanceof Error ? error.message : "Failed to load summary",
+        });
+      });
+    return () => controller.abort();
+  }, [key, period, startDate]);
+
+  const current = state?.key === key ? state : null;
+  const summary = current?.loaded?.summary ?? null;
+  const recapText = recap?.key === key ? recap.text : (summary?.recap ?? "");
+  const isDirty = summary !== null && recapText !== summary.recap;
+
+  const goTo = (nextPeriod: SummaryPeriod, nextStart: string) => {
+    setActionError(null);
+    setSearchParams({ period: nextPeriod, start: nextStart }, { replace: true });
+  };
+
+  const handlePeriodChange = (nextPeriod: SummaryPeriod) => {
+    // Keep looking at the same point in time, e.g. this week → this month
+    goTo(nextPeriod, periodStart(nextPeriod, fromDateKey(startDate)));
+  };
+
+  const applyResult = (forKey: string, loaded: LoadedSummary) => {
+    if (keyRef.current !== forKey) return;
+    setState({ key: forKey, loaded, error: null });
+    setRecap(null);
+  };
+
+  const handleSave = async () => {
+    if (!summary) return;
+    const forKey = key;
+    setBusy("saving");
+    setActionError(null);
+    try {
+      const saved = await saveSummary({ ...summary, recap: recapText });
+      applyResult(forKey, { summary: saved, source: "server" });
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : "Failed to save summary");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    if (isDirty && !confirm("Discard your edits to the recap and regenerate it?")) return;
+    const forKey = key;
+    setBusy("regenerating");
+    setActionError(null);
+    try {
+      applyResult(forKey, await regenerateSummary(period, startDate));
+    } catch (error) {
+      setActionError(
+        error instanceof Error ? error.message : "Failed to regenerate summary"
+      );
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="page-container summaries-page">
+      <div className="summaries-page__header">
+        <h1 className="summaries-page__title">Summaries</h1>
+        <div className="summaries-page__tabs" role="tablist" aria-label="Summary period">
+          {PERIODS.map((p) => (
+            <button
+              key={p.value}
+              type="button"
+              role="tab"
+              aria-selected={p.value === period}
+              className={`summaries-page__tab${
+                p.value === period ? " summaries-page__tab--active" : ""
+              }`}
+              onClick={() => handlePeriodChange(p.value)}
+            >
+              {p.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="summaries-page__nav">
+        <button
+          type="button"
+          className="summaries-btn summaries-btn--icon"
+          onClick={() => goTo(period, shiftPeriod(period, startDate, -1))}
+          title={`Previous ${period}`}
+          aria-label={`Previous ${period}`}
+        >
+          <ChevronLeft size={16} aria-hidden />
+        </button>
+        <span className="summaries-page__period">{formatPeriodLabel(period, startDate)}</span>
+        <button
+          type="button"
+          className="summaries-btn summaries-btn--icon"
+          onClick={() => goTo(period, shiftPeriod(period, startDate, 1))}
+          disabled={isCurrent}
+          title={`Next ${period}`}
+          aria-label={`Next ${period}`}
+        >
+          <ChevronRight size={16} aria-hidden />
+        </button>
+        {current?.loaded && (
+          <span
+            className={`summaries-page__source summaries-page__source--${current.loaded.source}`}
+            title={
+              current.loaded.source === "server"
+                ? "Stored on the server"
+                : "The server has no summary for this period; computed from your entries"
+            }
+          >
+            {current.loaded.source === "server" ? "Saved" : "Computed locally"}
+          </span>
+        )}
+      </div>
+
+      {!current && <div className="summaries-page__empty">Loading…</div>}
+      {current?.error && <div className="summaries-page__message">{current.error}</div>}
+
+      {summary && (
+        <>
+          <p className="summaries-page__stat">
+            <strong>{summary.entryCount}</strong>{" "}
+            {summary.entryCount === 1 ? "entry" : "entries"}
+          </p>
+
+          <div className="summaries-page__grid">
+            <section className="summaries-page__section">
+              <h2 className="summaries-page__section-title">
+                <TagIcon size={14} aria-hidden />
+                Top tags
+              </h2>
+              <CountList items={summary.topTags} empty="No tags used" />
+            </section>
+            <section className="summaries-page__section">
+              <h2 className="summaries-page__section-title">
+                <MapPin size={14} aria-hidden />
+                Top locations
+              </h2>
+              <CountList items={summary.topLocations} empty="No locations recorded" />
+            </section>
+          </div>
+
+          <section className="summaries-page__section">
+            <h2 className="summaries-page__section-title">
+              <Star size={14} aria-hidden />
+              Highlights
+            </h2>
+            {summary.highlights.length === 0 ? (
+              <p className="summaries-page__empty">No highlighted entries</p>
+            ) : (
+              <ul className="summaries-page__highlights">
+                {summary.highlights.map((highlight) => (
+                  <li key={highlight.id}>
+                    <Link to={`/edit/${highlight.id}`} className="summaries-page__highlight">
+                      <span className="summaries-page__highlight-date">
+                        {new Date(highlight.createdAt).toLocaleDateString()}
+                      </span>
+                      <span className="summaries-page__highlight-text">
+                        {highlight.excerpt || "(no text)"}
+                      </span>
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          <section className="summaries-page__section">
+            <h2 className="summaries-page__section-title">
+              <label htmlFor="summary-recap">Recap</label>
+            </h2>
+            <textarea
+              id="summary-recap"
+              className="summaries-page__recap"
+              value={recapText}
+              onChange={(e) => setRecap({ key, text: e.target.value })}
+              rows={5}
+              placeholder="Write a few lines about this period"
+            />
+            {actionError && (
+              <div className="summaries-page__message" role="alert">
+                {actionError}
+              </div>
+            )}
+            <div className="summaries-page__actions">
+              <button
+                type="button"
+                className="summaries-btn"
+                onClick={handleRegenerate}
+                disabled={busy !== null}
+              >
+                <RefreshCw size={14} aria-hidden />
+                {busy === "regenerating" ? "Regenerating…" : "Regenerate"}
+              </button>
+              <button
+                type="button"
+                className="summaries-btn summaries-btn--primary"
+                onClick={handleSave}
+                disabled={
+                  busy !== null || (!isDirty && current?.loaded?.source === "server")
+                }
+              >
+                <Save size={14} aria-hidden />
+                {busy === "saving" ? "Saving…" : "Save"}
+              </button>
+            </div>
+          </section>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default SummariesPage;
@@ -1,7 +1,8 @@
 import React, { useState } from "react";
-import { X } from "lucide-react";
+import { LocateFixed, X } from "lucide-react";
 import type { Tag, CreateTagRequest } from "../services/api";
 import { randomTagColor } from "../utils/randomTagColor";
+import { getCurrentCoordinates, placeAreaConfig, readPlaceArea } from "../utils/geo";
 
 interface TagFormProps {
   tag?: Tag | null;
@@ -27,6 +28,29 @@ const TagForm: React.FC<TagFormProps> = ({
   const [parentId, setParentId] = useState<number | null>(
     tag?.parent?.id || null
   );
+  const [isLocating, setIsLocating] = useState(false);
+
+  // Stores the device's position in the config, keeping any radius set
+  const handleUseCurrentPosition = async () => {
+    let parsedConfig: Record<string, unknown>;
+    try {
+      parsedConfig = JSON.parse(config);
+    } catch {
+      alert("Invalid JSON in config");
+      return;
+    }
+    setIsLocating(true);
+    const coordinates = await getCurrentCoordinates();
+    setIsLocating(false);
+    if (!coordinates) {
+      alert("Couldn't get the current position");
+      return;
+    }
+    const radius = readPlaceArea(parsedConfig)?.radius;
+    setConfig(
+      JSON.stringify({ ...parsedConfig, ...placeAreaConfig(coordinates, radius) }, null, 2)
+    );
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -143,6 +167,18 @@ const TagForm: React.FC<TagFormProps> = ({
           rows={4}
           spellCheck={false}
         />
+        {type === "location" && (
+          <button
+            type="button"
+            className="tg-btn tag-form__locate"
+            onClick={handleUseCurrentPosition}
+            disabled={isLocating}
+            title="Set latitude and longitude to where this device is"
+          >
+            <LocateFixed size={14} />
+            {isLocating ? "Locating…" : "Use current position"}
+          </button>
+        )}
       </div>
 
       <div className="tag-form__actions">
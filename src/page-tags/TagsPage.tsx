@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState } from "react";
 import { Plus, Tag as TagIcon, MapPin } from "lucide-react";
 import TagTree from "./TagTree";
 import TagForm from "./TagForm";
@@ -10,31 +10,21 @@ import {
   type Tag,
   type CreateTagRequest,
 } from "../services/api";
+import { queryKeys } from "../services/queryKeys";
+import { useQuery } from "../hooks/useQuery";
 import "./TagsPage.css";
 
 const TagsPage: React.FC = () => {
-  const [tags, setTags] = useState<Tag[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const {
+    data: tags = [],
+    isLoading: loading,
+    error: loadError,
+  } = useQuery(queryKeys.tags(), () => fetchTags());
+  const error = loadError && tags.length === 0 ? "Failed to load tags" : null;
   const [editingTag, setEditingTag] = useState<Tag | null>(null);
   const [showForm, setShowForm] = useState(false);
   const [formType, setFormType] = useState<"tag" | "location">("tag");
 
-  const loadTags = async () => {
-    try {
-      const fetchedTags = await fetchTags();
-      setTags(fetchedTags);
-    } catch {
-      setError("Failed to load tags");
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  useEffect(() => {
-    loadTags();
-  }, []);
-
   const handleCreate = (type: "tag" | "location") => {
     setEditingTag(null);
     setFormType(type);
@@ -51,7 +41,6 @@ const TagsPage: React.FC = () => {
     if (confirm("Are you sure you want to delete this tag?")) {
       try {
         await deleteTag(tagId);
-        await loadTags();
       } catch {
         alert("Failed to delete tag");
       }
@@ -66,7 +55,6 @@ const TagsPage: React.FC = () => {
         await createTag({ ...tagData, type: formType });
       }
       setShowForm(false);
-      await loadTags();
     } catch {
       alert("Failed to save tag");
     }
@@ -0,0 +1,124 @@
+import { useState, type FormEvent } from "react";
+import { X } from "lucide-react";
+import type { EntryTemplate } from "../services/api";
+import type { TemplateFields } from "../services/templates";
+import TagAutocomplete from "../page-editor/TagAutocomplete";
+import { TEMPLATE_VARIABLES, weekdayName } from "../utils/templateVariables";
+
+interface TemplateFormProps {
+  template: EntryTemplate | null;
+  onSave: (fields: TemplateFields) => void;
+  onCancel: () => void;
+  isSaving?: boolean;
+}
+
+const WEEKDAYS = [0, 1, 2, 3, 4, 5, 6];
+
+export default function TemplateForm({
+  template,
+  onSave,
+  onCancel,
+  isSaving = false,
+}: TemplateFormProps) {
+  const [name, setName] = useState(template?.name ?? "");
+  const [content, setContent] = useState(template?.content ?? "");
+  const [tags, setTags] = useState(template?.tags ?? []);
+  const [location, setLocation] = useState(template?.location ?? null);
+  const [defaultWeekdays, setDefaultWeekdays] = useState(template?.defaultWeekdays ?? []);
+
+  const toggleWeekday = (day: number) => {
+    setDefaultWeekdays((prev) =>
+      prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day].sort((a, b) => a - b)
+    );
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    onSave({ name: name.trim(), content, tags, location, defaultWeekdays });
+  };
+
+  return (
+    <form className="template-form" onSubmit={handleSubmit}>
+      <div className="template-form__header">
+        <h3 className="template-form__title">{template ? "Edit template" : "New template"}</h3>
+        <button
+          type="button"
+          className="tpl-btn tpl-btn--icon"
+          onClick={onCancel}
+          title="Close"
+          aria-label="Close form"
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="template-form__field">
+        <label className="template-form__label" htmlFor="template-form-name">
+          Name
+        </label>
+        <input
+          id="template-form-name"
+          className="template-form__input"
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="e.g. Weekly review"
+          required
+        />
+      </div>
+
+      <div className="template-form__field">
+        <label className="template-form__label" htmlFor="template-form-content">
+          Text
+        </label>
+        <textarea
+          id="template-form-content"
+          className="template-form__input template-form__content"
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          rows={8}
+        />
+        <span className="template-form__hint">
+          Variables: {TEMPLATE_VARIABLES.map((variable) => `{{${variable}}}`).join(", ")}
+        </span>
+      </div>
+
+      <TagAutocomplete selectedTags={tags} onTagsChange={setTags} />
+      <TagAutocomplete
+        selectedTags={location ? [location] : []}
+        onTagsChange={(selected) => setLocation(selected[0] ?? null)}
+        tagType="location"
+        label="Location"
+        placeholder="Optional default location..."
+        singleSelect
+      />
+
+      <fieldset className="template-form__weekdays">
+        <legend className="template-form__label">Default for new entries on</legend>
+        {WEEKDAYS.map((day) => (
+          <label key={day} className="template-form__weekday">
+            <input
+              type="checkbox"
+              checked={defaultWeekdays.includes(day)}
+              onChange={() => toggleWeekday(day)}
+            />
+            {weekdayName(day)}
+          </label>
+        ))}
+      </fieldset>
+
+      <div className="template-form__actions">
+        <button type="button" className="tpl-btn" onClick={onCancel}>
+          Cancel
+        </button>
+        <button
+          type="submit"
+          className="tpl-btn tpl-btn--primary"
+          disabled={isSaving || !name.trim()}
+        >
+          {isSaving ? "Saving…" : "Save template"}
+        </button>
+      </div>
+    </form>
+  );
+}
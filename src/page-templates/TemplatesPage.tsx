@@ -0,0 +1,155 @@
+import { useState } from "react";
+import { CalendarDays, MapPin, Pencil, Plus, Trash2 } from "lucide-react";
+import type { EntryTemplate } from "../services/api";
+import { queryKeys } from "../services/queryKeys";
+import {
+  loadTemplates,
+  removeTemplate,
+  saveTemplate,
+  type TemplateFields,
+} from "../services/templates";
+import { useQuery } from "../hooks/useQuery";
+import { weekdayName } from "../utils/templateVariables";
+import TemplateForm from "./TemplateForm";
+import "./TemplatesPage.css";
+
+const ICON_SIZE = 14;
+
+function TemplatesPage() {
+  const { data, isLoading, error: loadError } = useQuery(queryKeys.templates(), () =>
+    loadTemplates()
+  );
+  const templates = data?.templates ?? [];
+  const source = data?.source ?? "server";
+  // null: form closed; "new": creating; otherwise the template being edited
+  const [editing, setEditing] = useState<EntryTemplate | "new" | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async (fields: TemplateFields) => {
+    setIsSaving(true);
+    try {
+      await saveTemplate(fields, editing && editing !== "new" ? editing.id : null, source);
+      setEditing(null);
+    } catch (err) {
+      console.error("Failed to save template:", err);
+      alert("Failed to save template");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: EntryTemplate) => {
+    if (!confirm(`Delete the template "${template.name}"?`)) return;
+    try {
+      await removeTemplate(template.id, source);
+    } catch (err) {
+      console.error("Failed to delete template:", err);
+      alert("Failed to delete template");
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="page-container">
+        <p className="templates-page__empty">Loading…</p>
+      </div>
+    );
+  }
+  if (loadError && !data) {
+    return (
+      <div className="page-container">
+        <div className="templates-page__message">Failed to load templates</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="page-container templates-page">
+      <div className="templates-page__header">
+        <h2 className="templates-page__title">Templates</h2>
+        <button
+          type="button"
+          className="tpl-btn tpl-btn--primary"
+          onClick={() => setEditing("new")}
+        >
+          <Plus size={ICON_SIZE} />
+          New template
+        </button>
+      </div>
+
+      {source === "local" && (
+        <p className="templates-page__note">
+          This server doesn't store templates, so they are kept in this browser.
+        </p>
+      )}
+
+      {editing && (
+        <TemplateForm
+          key={editing === "new" ? "new" : editing.id}
+          template={editing === "new" ? null : editing}
+          onSave={handleSave}
+          onCancel={() => setEditing(null)}
+          isSaving={isSaving}
+        />
+      )}
+
+      {templates.length === 0 ? (
+        <p className="templates-page__empty">
+          No templates yet. Templates are chosen from the editor toolbar or with /template.
+        </p>
+      ) : (
+        <ul className="templates-page__list">
+          {templates.map((template) => (
+            <li key={template.id} className="templates-page__template">
+              <div className="templates-page__row">
+                <span className="templates-page__name">{template.name}</span>
+                <button
+                  type="button"
+                  className="tpl-btn tpl-btn--icon"
+                  onClick={() => setEditing(template)}
+                  title="Edit template"
+                  aria-label={`Edit ${template.name}`}
+                >
+                  <Pencil size={ICON_SIZE} />
+                </button>
+                <button
+                  type="button"
+                  className="tpl-btn tpl-btn--icon tpl-btn--danger"
+                  onClick={() => handleDelete(template)}
+                  title="Delete template"
+                  aria-label={`Delete ${template.name}`}
+                >
+                  <Trash2 size={ICON_SIZE} />
+                </button>
+              </div>
+              <div className="templates-page__tags">
+                {template.defaultWeekdays.length > 0 && (
+                  <span className="templates-page__tag templates-page__tag--weekdays">
+                    <CalendarDays size={12} aria-hidden />
+                    {template.defaultWeekdays.map((day) => weekdayName(day)).join(", ")}
+                  </span>
+                )}
+                {template.location && (
+                  <span className="templates-page__tag">
+                    <MapPin size={12} aria-hidden />
+                    {template.location.name}
+                  </span>
+                )}
+                {template.tags.map((tag) => (
+                  <span key={tag.id} className="templates-page__tag">
+                    {tag.name}
+                  </span>
+                ))}
+              </div>
+              {template.content && (
+                <pre className="templates-page__content">{template.content}</pre>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default TemplatesPage;
@@ -13,34 +13,25 @@ import {
   type ThemeConfig,
   type CreateThemeRequest,
 } from "../services/api";
+import { queryKeys } from "../services/queryKeys";
+import { useQuery } from "../hooks/useQuery";
 
 const ThemesPage: React.FC = () => {
   const { reloadCustomTheme } = useThemeContext();
-  const [themes, setThemes] = useState<Theme[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const {
+    data: themes = [],
+    isLoading: loading,
+    error: loadError,
+  } = useQuery(queryKeys.themes(), () => fetchThemes());
+  const error = loadError && themes.length === 0 ? "Failed to load themes" : null;
   const [editingTheme, setEditingTheme] = useState<Theme | null>(null);
   const [showEditor, setShowEditor] = useState(false);
   const [defaultConfig, setDefaultConfig] = useState<ThemeConfig | null>(null);
 
-  const loadThemes = async () => {
-    try {
-      setLoading(true);
-      const [fetchedThemes, config] = await Promise.all([
-        fetchThemes(),
-        fetchDefaultThemeConfig(),
-      ]);
-      setThemes(fetchedThemes);
-      setDefaultConfig(config);
-    } catch {
-      setError("Failed to load themes");
-    } finally {
-      setLoading(false);
-    }
-  };
-
   useEffect(() => {
-    loadThemes();
+    fetchDefaultThemeConfig()
+      .then(setDefaultConfig)
+      .catch((err) => console.error("Failed to load default theme config:", err));
   }, []);
 
   const handleCreate = () => {
@@ -57,7 +48,6 @@ const ThemesPage: React.FC = () => {
     if (confirm("Are you sure you want to delete this theme?")) {
       try {
         await deleteTheme(themeId);
-        await loadThemes();
       } catch (err) {
         alert(err instanceof Error ? err.message : "Failed to delete theme");
       }
@@ -67,7 +57,6 @@ const ThemesPage: React.FC = () => {
   const handleSetDefault = async (themeId: number) => {
     try {
       await setDefaultTheme(themeId);
-      await loadThemes();
       reloadCustomTheme(); // Refresh the active theme
     } catch {
       alert("Failed to set default theme");
@@ -82,7 +71,6 @@ const ThemesPage: React.FC = () => {
         await createTheme(data);
       }
       setShowEditor(false);
-      await loadThemes();
       reloadCustomTheme(); // Refresh the active theme in case it was modified
     } catch {
       alert("Failed to save theme");
@@ -135,7 +123,6 @@ const ThemesPage: React.FC = () => {
         name: imported.name,
         config: imported.config,
       });
-      await loadThemes();
       alert("Theme imported successfully");
     } catch (err) {
       alert(err instanceof Error ? err.message : "Failed to import theme");
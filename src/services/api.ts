@@ -1,13 +1,93 @@
 // API service for markdown content operations
-import { getApiKey } from "../utils/apiKeyStorage";
-import { API_CONFIG } from "../config/constants";
+import { API_CONFIG, MEDIA_CONFIG } from "../config/constants";
+import {
+  ApiError,
+  apiRequest,
+  isApiError,
+  resolveMediaUrl,
+  type RequestOptions,
+  type UploadProgressListener,
+} from "./http";
+import { invalidateQueries, setQueryData } from "./queryCache";
+import { queryKeys } from "./queryKeys";
+import { uploadInChunks } from "./chunkedUpload";
+import { createTaskPool } from "../utils/taskPool";
+import {
+  parseEntry,
+  parseEntryRevisions,
+  parseFetchEntriesResponse,
+  parseMessage,
+  parseSignedUrl,
+  parseSignedUrls,
+  parseSummary,
+  parseTag,
+  parseTags,
+  parseTemplate,
+  parseTemplates,
+  parseTheme,
+  parseThemeConfig,
+  parseThemes,
+  parseUploadedMedia,
+} from "./schemas";
+
+export {
+  ApiError,
+  isApiError,
+  type ApiErrorKind,
+  type UploadProgress,
+  type UploadProgressListener,
+} from "./http";
+export { normalizeTag } from "./schemas";
 
 /**
- * Gets the API key from cookie storage, falling back to the configured API key
- * @returns The API key
+ * Per-call options accepted by every API function
  */
-function getStoredApiKey(): string {
-  return getApiKey() || "";
+export type CallOptions = Pick<RequestOptions, "signal" | "timeoutMs">;
+
+/**
+ * Options for media uploads
+ */
+export interface UploadOptions extends CallOptions {
+  /** Called with bytes sent as the file uploads */
+  onProgress?: UploadProgressListener;
+  /**
+   * Identifies the file across page reloads so an interrupted chunked upload
+   * continues where it stopped; defaults to the file's fingerprint
+   */
+  resumeKey?: string;
+}
+
+/**
+ * Timeout for uploads and exports, which move much more data than other calls
+ */
+const LONG_TIMEOUT_MS = 120_000;
+
+/**
+ * Shared by every upload so a large batch doesn't saturate a slow connection
+ */
+const uploadPool = createTaskPool(MEDIA_CONFIG.MAX_CONCURRENT_UPLOADS);
+
+/**
+ * Marks cached reads affected by an entry write as stale.
+ * Tags are included because saving an entry updates their lastUsed order.
+ */
+function invalidateAfterEntryWrite(entry?: Entry): void {
+  invalidateQueries(queryKeys.entries());
+  invalidateQueries(queryKeys.tags());
+  if (entry) {
+    setQueryData(queryKeys.entry(entry.id), entry);
+    invalidateQueries(queryKeys.entryRevisions(entry.id));
+  }
+}
+
+/**
+ * Marks cached reads affected by a tag write as stale.
+ * Entries embed tag names and locations, so they are refreshed too.
+ */
+function invalidateAfterTagWrite(): void {
+  invalidateQueries(queryKeys.tags());
+  invalidateQueries(queryKeys.entries());
+  invalidateQueries(["entry"]);
 }
 
 export interface Entry {
@@ -18,10 +98,7 @@ export interface Entry {
   mediaPaths: string[];
   location?: Tag | null;
   createdAt: string;
-  tags?: Array<{
-    id: number;
-    name: string;
-  }>;
+  tags?: Tag[];
 }
 
 export interface TagFormData {
@@ -68,145 +145,144 @@ export interface SignedUrlResponse {
 /**
  * Saves markdown content to the server
  * @param request - The entry data to save
+ * @param options - Optional cancellation and timeout
  * @returns Promise with save response
  */
 export async function saveContent(
-  request: SaveContentRequest
+  request: SaveContentRequest,
+  options: CallOptions = {}
 ): Promise<SaveContentResponse> {
-  const apiUrl = `${API_CONFIG.API_BASE_URL}${API_CONFIG.ENDPOINTS.ENTRIES}`;
-
-  try {
-    const response = await fetch(apiUrl, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "x-api-key": getStoredApiKey(),
-      },
-      body: JSON.stringify(request),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(
-        errorData.error || `HTTP error! status: ${response.status}`
-      );
-    }
-
-    const entry = await response.json();
-    return {
-      success: true,
-      message: "Entry saved successfully",
-      id: entry.id,
-      entry,
-    };
-  } catch (error) {
-    console.error("Save error:", error);
-    throw error;
-  }
+  const entry = await apiRequest(API_CONFIG.ENDPOINTS.ENTRIES, {
+    ...options,
+    method: "POST",
+    body: request,
+    parse: parseEntry,
+  });
+  invalidateAfterEntryWrite(entry);
+  return {
+    success: true,
+    message: "Entry saved successfully",
+    id: entry.id,
+    entry,
+  };
 }
 
 /**
- * Uploads an image file to the server
- * @param file - The image file to upload
+ * Uploads a media file to the server. Files above MEDIA_CONFIG.MAX_FILE_SIZE
+ * are sent in resumable chunks. Uploads share a pool that limits how many
+ * run at once; the rest wait their turn.
+ * @param file - The file to upload
+ * @param options - Optional cancellation, timeout, progress callback and
+ * resume key. The timeout starts once the upload leaves the queue and, for
+ * chunked uploads, applies to each request.
  * @returns Promise with upload response
  */
-export async function uploadImage(file: File): Promise<UploadImageResponse> {
-  const apiUrl = `${API_CONFIG.API_BASE_URL}${API_CONFIG.ENDPOINTS.MEDIA_UPLOAD}`;
+export async function uploadImage(
+  file: File,
+  options: UploadOptions = {}
+): Promise<UploadImageResponse> {
+  if (file.size > MEDIA_CONFIG.MAX_CHUNKED_FILE_SIZE) {
+    const limitGb = MEDIA_CONFIG.MAX_CHUNKED_FILE_SIZE / 1024 ** 3;
+    throw new Error(`${file.name} is larger than the ${limitGb}GB upload limit`);
+  }
 
-  try {
-    // Prepare FormData
+  const { onProgress, resumeKey, ...callOptions } = options;
+  const upload = () => {
+    if (file.size > MEDIA_CONFIG.MAX_FILE_SIZE) {
+      return uploadInChunks(file, { ...callOptions, onProgress, resumeKey });
+    }
     const formData = new FormData();
     formData.append("file", file);
-
-    const response = await fetch(apiUrl, {
+    return apiRequest(API_CONFIG.ENDPOINTS.MEDIA_UPLOAD, {
+      timeoutMs: LONG_TIMEOUT_MS,
+      ...callOptions,
       method: "POST",
-      headers: {
-        "x-api-key": getStoredApiKey(),
-      },
-      body: formData,
+      formData,
+      onUploadProgress: onProgress,
+      parse: parseUploadedMedia,
     });
+  };
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(
-        errorData.error || `HTTP error! status: ${response.status}`
-      );
-    }
-
-    const media = await response.json();
-    return {
-      success: true,
-      url: `${API_CONFIG.API_BASE_URL}${media.url}`, // Use signed URL from backend
-      path: media.path,
-      id: media.id,
-      filename: media.filename,
-    };
+  let media;
+  try {
+    media = await uploadPool.run(upload, options.signal);
   } catch (error) {
-    console.error("Upload error:", error);
-    throw error;
+    // Cancelled while still queued: report it like any cancelled request
+    if (isApiError(error) || !options.signal?.aborted) throw error;
+    throw new ApiError({
+      kind: "aborted",
+      endpoint: API_CONFIG.ENDPOINTS.MEDIA_UPLOAD,
+      method: "POST",
+      cause: error,
+    });
   }
-}
-
-/**
- * Uploads multiple image files to the server
- * @param files - Array of image files to upload
- * @returns Promise with array of upload responses
- */
-export async function uploadImages(
-  files: File[]
-): Promise<UploadImageResponse[]> {
-  const uploadPromises = files.map((file) => uploadImage(file));
-  return Promise.all(uploadPromises);
+  return {
+    success: true,
+    url: resolveMediaUrl(media.url), // Use signed URL from backend
+    path: media.path,
+    id: media.id,
+    filename: media.filename,
+  };
 }
 
 /**
  * Generate a signed URL for a media file
  * @param filename - The filename to sign
  * @param expiryMs - Optional expiry time in milliseconds
+ * @param options - Optional cancellation and timeout
  * @returns Promise with signed URL response
  */
 export async function getSignedUrl(
   filename: string,
-  expiryMs?: number
+  expiryMs?: number,
+  options: CallOptions = {}
 ): Promise<SignedUrlResponse> {
-  const apiUrl = `${API_CONFIG.API_BASE_URL}/media/sign`;
-
-  try {
-    const response = await fetch(apiUrl, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "x-api-key": getStoredApiKey(),
-      },
-      body: JSON.stringify({ filename, expiryMs }),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(
-        errorData.error || `HTTP error! status: ${response.status}`
-      );
-    }
-
-    return await response.json();
-  } catch (error) {
-    console.error("Get signed URL error:", error);
-    throw error;
-  }
+  return apiRequest("/media/sign", {
+    ...options,
+    method: "POST",
+    body: { filename, expiryMs },
+    parse: parseSignedUrl,
+  });
 }
 
 /**
- * Generate signed URLs for multiple media files
+ * Set once the server turns out not to support batch signing
+ */
+let batchSigningUnsupported = false;
+
+/**
+ * Generate signed URLs for multiple media files.
+ * Uses the batch endpoint when the server has it, otherwise one request per file.
  * @param filenames - Array of filenames to sign
  * @param expiryMs - Optional expiry time in milliseconds
+ * @param options - Optional cancellation and timeout
  * @returns Promise with array of signed URL responses
  */
 export async function getSignedUrls(
   filenames: string[],
-  expiryMs?: number
+  expiryMs?: number,
+  options: CallOptions = {}
 ): Promise<SignedUrlResponse[]> {
+  if (filenames.length === 0) return [];
+
+  if (!batchSigningUnsupported) {
+    try {
+      return await apiRequest("/media/sign/batch", {
+        ...options,
+        method: "POST",
+        body: { filenames, expiryMs },
+        parse: parseSignedUrls,
+      });
+    } catch (error) {
+      const unsupported =
+        isApiError(error) && (error.isNotFound || error.status === 405);
+      if (!unsupported) throw error;
+      batchSigningUnsupported = true;
+    }
+  }
+
   const signPromises = filenames.map((filename) =>
-    getSignedUrl(filename, expiryMs)
+    getSignedUrl(filename, expiryMs, options)
   );
   return Promise.all(signPromises);
 }
@@ -230,64 +306,50 @@ export interface SearchEntriesOptions {
  * Fetches entries with pagination
  * @param page - Page number (1-indexed)
  * @param pageSize - Number of entries per page
+ * @param options - Optional cancellation and timeout
  * @returns Promise with paginated entries
  */
 export async function fetchEntries(
   page: number = 1,
-  pageSize: number = 10
+  pageSize: number = 10,
+  options: CallOptions = {}
 ): Promise<FetchEntriesResponse> {
-  return searchEntries({ page, pageSize });
+  return searchEntries({ page, pageSize }, options);
 }
 
 /**
  * Searches entries with optional query and tag filters
- * @param options - Search options including query, tagIds, and pagination
+ * @param search - Search options including query, tagIds, and pagination
+ * @param options - Optional cancellation and timeout
  * @returns Promise with filtered and paginated entries
  */
 export async function searchEntries(
-  options: SearchEntriesOptions = {}
+  search: SearchEntriesOptions = {},
+  options: CallOptions = {}
 ): Promise<FetchEntriesResponse> {
-  const { query, tagIds, page = 1, pageSize = 10 } = options;
+  const { query, tagIds, page = 1, pageSize = 10 } = search;
 
   // Use search endpoint if we have search criteria, otherwise use regular endpoint
   const useSearchEndpoint = query || (tagIds && tagIds.length > 0);
-  let apiUrl: string;
-
-  const searchParams = new URLSearchParams();
-  searchParams.append("page", page.toString());
-  searchParams.append("pageSize", pageSize.toString());
 
   if (useSearchEndpoint) {
-    apiUrl = `${API_CONFIG.API_BASE_URL}${API_CONFIG.ENDPOINTS.ENTRIES}/search`;
-    if (query) searchParams.append("q", query);
-    if (tagIds && tagIds.length > 0)
-      searchParams.append("tagIds", tagIds.join(","));
-  } else {
-    apiUrl = `${API_CONFIG.API_BASE_URL}${API_CONFIG.ENDPOINTS.ENTRIES}`;
-  }
-
-  apiUrl += `?${searchParams.toString()}`;
-
-  try {
-    const response = await fetch(apiUrl, {
-      method: "GET",
-      headers: {
-        "x-api-key": getStoredApiKey(),
+    return apiRequest(`${API_CONFIG.ENDPOINTS.ENTRIES}/search`, {
+      ...options,
+      query: {
+        page,
+        pageSize,
+        q: query || undefined,
+        tagIds: tagIds && tagIds.length > 0 ? tagIds.join(",") : undefined,
       },
+      parse: parseFetchEntriesResponse,
     });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(
-        errorData.error || `HTTP error! status: ${response.status}`
-      );
-    }
-
-    return await response.json() as FetchEntriesResponse;
-  } catch (error) {
-    console.error("Search entries error:", error);
-    throw error;
   }
+
+  return apiRequest(API_CONFIG.ENDPOINTS.ENTRIES, {
+    ...options,
+    query: { page, pageSize },
+    parse: parseFetchEntriesResponse,
+  });
 }
 
 export interface Tag {
@@ -309,43 +371,23 @@ export interface Tag {
  * Searches for tag suggestions based on query
  * @param query - Search query for tag name or search hint
  * @param type - Optional tag type filter (e.g., 'tag', 'location')
+ * @param options - Optional cancellation and timeout
  * @returns Promise with array of matching tags
  */
 export async function searchTagSuggestions(
   query: string,
-  type?: string
+  type?: string,
+  options: CallOptions = {}
 ): Promise<Tag[]> {
   if (!query || query.trim() === "") {
     return [];
   }
 
-  let apiUrl = `${
-    API_CONFIG.API_BASE_URL
-  }/tags/suggestions/search?q=${encodeURIComponent(query)}`;
-  if (type) {
-    apiUrl += `&type=${encodeURIComponent(type)}`;
-  }
-
-  try {
-    const response = await fetch(apiUrl, {
-      method: "GET",
-      headers: {
-        "x-api-key": getStoredApiKey(),
-      },
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(
-        errorData.error || `HTTP error! status: ${response.status}`
-      );
-    }
-
-    return await response.json();
-  } catch (error) {
-    console.error("Search tag suggestions error:", error);
-    throw error;
-  }
+  return apiRequest(`${API_CONFIG.ENDPOINTS.TAGS}/suggestions/search`, {
+    ...options,
+    query: { q: query, type },
+    parse: parseTags,
+  });
 }
 
 export interface CreateTagRequest {
@@ -359,62 +401,39 @@ export interface CreateTagRequest {
 /**
  * Creates a new tag
  * @param tag - Tag data to create
+ * @param options - Optional cancellation and timeout
  * @returns Promise with created tag
  */
-export async function createTag(tag: CreateTagRequest): Promise<Tag> {
-  const apiUrl = `${API_CONFIG.API_BASE_URL}/tags`;
-
-  try {
-    const response = await fetch(apiUrl, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "x-api-key": getStoredApiKey(),
-      },
-      body: JSON.stringify(tag),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(
-        errorData.error || `HTTP error! status: ${response.status}`
-      );
-    }
-
-    return await response.json();
-  } catch (error) {
-    console.error("Create tag error:", error);
-    throw error;
-  }
+export async function createTag(
+  tag: CreateTagRequest,
+  options: CallOptions = {}
+): Promise<Tag> {
+  const created = await apiRequest(API_CONFIG.ENDPOINTS.TAGS, {
+    ...options,
+    method: "POST",
+    body: tag,
+    parse: parseTag,
+  });
+  invalidateAfterTagWrite();
+  return created;
 }
 
 /**
  * Gets the most recently used location tag
+ * @param options - Optional cancellation and timeout
  * @returns Promise with the most recent location tag or null
  */
-export async function getLatestLocation(): Promise<Tag | null> {
-  const apiUrl = `${API_CONFIG.API_BASE_URL}/tags/suggestions/search?type=location&limit=1`;
-
+export async function getLatestLocation(
+  options: CallOptions = {}
+): Promise<Tag | null> {
   try {
-    const response = await fetch(apiUrl, {
-      method: "GET",
-      headers: {
-        "x-api-key": getStoredApiKey(),
-      },
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(
-        errorData.error || `HTTP error! status: ${response.status}`
-      );
-    }
-
-    const tags: Tag[] = await response.json();
+    const tags = await apiRequest(
+      `${API_CONFIG.ENDPOINTS.TAGS}/suggestions/search`,
+      { ...options, query: { type: "location", limit: 1 }, parse: parseTags }
+    );
     // Return the first tag (most recently used) or null if no tags
     return tags.length > 0 ? tags[0] : null;
-  } catch (error) {
-    console.error("Get latest location error:", error);
+  } catch {
     return null; // Return null on error instead of throwing
   }
 }
@@ -422,31 +441,31 @@ export async function getLatestLocation(): Promise<Tag | null> {
 /**
  * Fetches a single entry by ID
  * @param id - Entry ID to fetch
+ * @param options - Optional cancellation and timeout
  * @returns Promise with the entry
  */
-export async function fetchEntry(id: number): Promise<Entry> {
-  const apiUrl = `${API_CONFIG.API_BASE_URL}${API_CONFIG.ENDPOINTS.ENTRIES}/${id}`;
-
-  try {
-    const response = await fetch(apiUrl, {
-      method: "GET",
-      headers: {
-        "x-api-key": getStoredApiKey(),
-      },
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(
-        errorData.error || `HTTP error! status: ${response.status}`
-      );
-    }
+export async function fetchEntry(
+  id: number,
+  options: CallOptions = {}
+): Promise<Entry> {
+  return apiRequest(`${API_CONFIG.ENDPOINTS.ENTRIES}/${id}`, {
+    ...options,
+    parse: parseEntry,
+  });
+}
 
-    return await response.json();
-  } catch (error) {
-    console.error("Fetch entry error:", error);
-    throw error;
-  }
+/**
+ * An entry as it was after one of its saves
+ */
+export interface EntryRevision {
+  id: number;
+  entryId: number;
+  content: string;
+  tags: Tag[];
+  location: Tag | null;
+  mediaPaths: string[];
+  /** When this version was saved */
+  createdAt: string;
 }
 
 export interface UpdateEntryRequest {
@@ -456,71 +475,107 @@ export interface UpdateEntryRequest {
   locationId?: number | null;
   tagIds?: number[];
   isHighlighted?: boolean;
+  /** Moves the entry to another date and time */
+  createdAt?: string;
 }
 
 /**
  * Updates an existing entry
  * @param id - Entry ID to update
  * @param request - The entry data to update
+ * @param options - Optional cancellation and timeout
  * @returns Promise with updated entry
  */
 export async function updateEntry(
   id: number,
-  request: UpdateEntryRequest
+  request: UpdateEntryRequest,
+  options: CallOptions = {}
 ): Promise<Entry> {
-  const apiUrl = `${API_CONFIG.API_BASE_URL}${API_CONFIG.ENDPOINTS.ENTRIES}/${id}`;
-
-  try {
-    const response = await fetch(apiUrl, {
-      method: "PUT",
-      headers: {
-        "Content-Type": "application/json",
-        "x-api-key": getStoredApiKey(),
-      },
-      body: JSON.stringify(request),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(
-        errorData.error || `HTTP error! status: ${response.status}`
-      );
-    }
+  const entry = await apiRequest(`${API_CONFIG.ENDPOINTS.ENTRIES}/${id}`, {
+    ...options,
+    method: "PUT",
+    body: request,
+    parse: parseEntry,
+  });
+  invalidateAfterEntryWrite(entry);
+  return entry;
+}
 
-    return await response.json();
-  } catch (error) {
-    console.error("Update entry error:", error);
-    throw error;
-  }
+/**
+ * Fetches the saved versions of an entry, newest first
+ * @param id - Entry ID
+ * @param options - Optional cancellation and timeout
+ * @returns Promise with the entry's revisions
+ */
+export async function fetchEntryRevisions(
+  id: number,
+  options: CallOptions = {}
+): Promise<EntryRevision[]> {
+  return apiRequest(`${API_CONFIG.ENDPOINTS.ENTRIES}/${id}/revisions`, {
+    ...options,
+    parse: parseEntryRevisions,
+  });
 }
 
 /**
  * Deletes an entry by ID
  * @param id - Entry ID to delete
+ * @param options - Optional cancellation and timeout
  * @returns Promise with delete response
  */
-export async function deleteEntry(id: number): Promise<{ message: string }> {
-  const apiUrl = `${API_CONFIG.API_BASE_URL}${API_CONFIG.ENDPOINTS.ENTRIES}/${id}`;
+export async function deleteEntry(
+  id: number,
+  options: CallOptions = {}
+): Promise<{ message: string }> {
+  const result = await apiRequest(`${API_CONFIG.ENDPOINTS.ENTRIES}/${id}`, {
+    ...options,
+    method: "DELETE",
+    parse: parseMessage,
+  });
+  invalidateAfterEntryWrite();
+  invalidateQueries(queryKeys.entry(id));
+  return result;
+}
+
+/**
+ * Outcome of checking an API key against a server
+ */
+export type ApiKeyCheck =
+  | { status: "valid" }
+  | { status: "invalid" }
+  | { status: "unreachable"; message: string };
 
+/**
+ * Checks whether a server accepts an API key, without saving it
+ * @param apiKey - Key to check
+ * @param baseUrl - Server to check against; defaults to the active one
+ * @param options - Optional cancellation and timeout
+ * @returns Whether the key is valid, rejected, or couldn't be checked
+ */
+export async function verifyApiKey(
+  apiKey: string,
+  baseUrl?: string,
+  options: CallOptions = {}
+): Promise<ApiKeyCheck> {
   try {
-    const response = await fetch(apiUrl, {
-      method: "DELETE",
-      headers: {
-        "x-api-key": getStoredApiKey(),
-      },
+    // The smallest authenticated read the API offers
+    await apiRequest(API_CONFIG.ENDPOINTS.ENTRIES, {
+      ...options,
+      query: { page: 1, pageSize: 1 },
+      responseType: "none",
+      apiKey,
+      baseUrl,
     });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(
-        errorData.error || `HTTP error! status: ${response.status}`
-      );
-    }
-
-    return await response.json();
+    return { status: "valid" };
   } catch (error) {
-    console.error("Delete entry error:", error);
-    throw error;
+    if (isApiError(error) && (error.isUnauthorized || error.status === 403)) {
+      return { status: "invalid" };
+    }
+    if (isApiError(error) && error.isAborted) throw error;
+    return {
+      status: "unreachable",
+      message: error instanceof Error ? error.message : String(error),
+    };
   }
 }
 
@@ -528,128 +583,73 @@ export async function deleteEntry(id: number): Promise<{ message: string }> {
 
 /**
  * Fetches all tags
+ * @param options - Optional cancellation and timeout
  * @returns Promise with array of tags
  */
-export async function fetchTags(): Promise<Tag[]> {
-  const apiUrl = `${API_CONFIG.API_BASE_URL}${API_CONFIG.ENDPOINTS.TAGS}`;
-
-  try {
-    const response = await fetch(apiUrl, {
-      method: "GET",
-      headers: {
-        "x-api-key": getStoredApiKey(),
-      },
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(
-        errorData.error || `HTTP error! status: ${response.status}`
-      );
-    }
-
-    return await response.json();
-  } catch (error) {
-    console.error("Fetch tags error:", error);
-    throw error;
-  }
+export async function fetchTags(options: CallOptions = {}): Promise<Tag[]> {
+  return apiRequest(API_CONFIG.ENDPOINTS.TAGS, { ...options, parse: parseTags });
 }
 
 /**
  * Updates an existing tag
  * @param id - Tag ID to update
  * @param tag - Updated tag data
+ * @param options - Optional cancellation and timeout
  * @returns Promise with updated tag
  */
 export async function updateTag(
   id: number,
-  tag: Partial<CreateTagRequest>
+  tag: Partial<CreateTagRequest>,
+  options: CallOptions = {}
 ): Promise<Tag> {
-  const apiUrl = `${API_CONFIG.API_BASE_URL}${API_CONFIG.ENDPOINTS.TAGS}/${id}`;
-
-  try {
-    const response = await fetch(apiUrl, {
-      method: "PUT",
-      headers: {
-        "Content-Type": "application/json",
-        "x-api-key": getStoredApiKey(),
-      },
-      body: JSON.stringify(tag),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(
-        errorData.error || `HTTP error! status: ${response.status}`
-      );
-    }
-
-    return await response.json();
-  } catch (error) {
-    console.error("Update tag error:", error);
-    throw error;
-  }
+  const updated = await apiRequest(`${API_CONFIG.ENDPOINTS.TAGS}/${id}`, {
+    ...options,
+    method: "PUT",
+    body: tag,
+    parse: parseTag,
+  });
+  invalidateAfterTagWrite();
+  return updated;
 }
 
 /**
  * Deletes a tag by ID
  * @param id - Tag ID to delete
+ * @param options - Optional cancellation and timeout
  * @returns Promise with delete response
  */
-export async function deleteTag(id: number): Promise<{ message: string }> {
-  const apiUrl = `${API_CONFIG.API_BASE_URL}${API_CONFIG.ENDPOINTS.TAGS}/${id}`;
-
-  try {
-    const response = await fetch(apiUrl, {
-      method: "DELETE",
-      headers: {
-        "x-api-key": getStoredApiKey(),
-      },
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(
-        errorData.error || `HTTP error! status: ${response.status}`
-      );
-    }
-
-    return await response.json();
-  } catch (error) {
-    console.error("Delete tag error:", error);
-    throw error;
-  }
+export async function deleteTag(
+  id: number,
+  options: CallOptions = {}
+): Promise<{ message: string }> {
+  const result = await apiRequest(`${API_CONFIG.ENDPOINTS.TAGS}/${id}`, {
+    ...options,
+    method: "DELETE",
+    parse: parseMessage,
+  });
+  invalidateAfterTagWrite();
+  return result;
 }
 
 /**
  * Exports entries in a date range to PDF
  * @param startDate - Start date in YYYY-MM-DD format
  * @param endDate - End date in YYYY-MM-DD format
- * @returns Promise with the ZIP file as a Blob
+ * @param options - Optional cancellation and timeout
+ * @returns Promise with the PDF file as a Blob
  */
 export async function exportPdf(
   startDate: string,
-  endDate: string
+  endDate: string,
+  options: CallOptions = {}
 ): Promise<Blob> {
-  const apiUrl = `${API_CONFIG.API_BASE_URL}${API_CONFIG.ENDPOINTS.ENTRIES}/export-pdf`;
-
-  const response = await fetch(apiUrl, {
+  return apiRequest<Blob>(`${API_CONFIG.ENDPOINTS.ENTRIES}/export-pdf`, {
+    timeoutMs: LONG_TIMEOUT_MS,
+    ...options,
     method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "x-api-key": getStoredApiKey(),
-    },
-    body: JSON.stringify({ startDate, endDate }),
+    body: { startDate, endDate },
+    responseType: "blob",
   });
-
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-    throw new Error(
-      errorData.error || `HTTP error! status: ${response.status}`
-    );
-  }
-
-  return response.blob();
 }
 
 // Theme types
@@ -712,90 +712,44 @@ export interface Theme {
 
 /**
  * Fetches all themes
+ * @param options - Optional cancellation and timeout
  * @returns Promise with array of themes
  */
-export async function fetchThemes(): Promise<Theme[]> {
-  const apiUrl = `${API_CONFIG.API_BASE_URL}${API_CONFIG.ENDPOINTS.THEMES}`;
-
-  try {
-    const response = await fetch(apiUrl, {
-      method: "GET",
-      headers: {
-        "x-api-key": getStoredApiKey(),
-      },
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(
-        errorData.error || `HTTP error! status: ${response.status}`
-      );
-    }
-
-    return await response.json();
-  } catch (error) {
-    console.error("Fetch themes error:", error);
-    throw error;
-  }
+export async function fetchThemes(options: CallOptions = {}): Promise<Theme[]> {
+  return apiRequest(API_CONFIG.ENDPOINTS.THEMES, {
+    ...options,
+    parse: parseThemes,
+  });
 }
 
 /**
  * Fetches the active (default) theme
+ * @param options - Optional cancellation and timeout
  * @returns Promise with the active theme
  */
-export async function fetchActiveTheme(): Promise<Theme> {
-  const apiUrl = `${API_CONFIG.API_BASE_URL}${API_CONFIG.ENDPOINTS.THEMES}/active`;
-
-  try {
-    const response = await fetch(apiUrl, {
-      method: "GET",
-      headers: {
-        "x-api-key": getStoredApiKey(),
-      },
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(
-        errorData.error || `HTTP error! status: ${response.status}`
-      );
-    }
-
-    return await response.json();
-  } catch (error) {
-    console.error("Fetch active theme error:", error);
-    throw error;
-  }
+export async function fetchActiveTheme(
+  options: CallOptions = {}
+): Promise<Theme> {
+  return apiRequest(`${API_CONFIG.ENDPOINTS.THEMES}/active`, {
+    ...options,
+    parse: parseTheme,
+  });
 }
 
 /**
  * Fetches a single theme by ID
  * @param id - Theme ID to fetch
+ * @param options - Optional cancellation and timeout
  * @returns Promise with the theme
  */
-export async function fetchTheme(id: number): Promise<Theme> {
-  const apiUrl = `${API_CONFIG.API_BASE_URL}${API_CONFIG.ENDPOINTS.THEMES}/${id}`;
-
-  try {
-    const response = await fetch(apiUrl, {
-      method: "GET",
-      headers: {
-        "x-api-key": getStoredApiKey(),
-      },
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(
-        errorData.error || `HTTP error! status: ${response.status}`
-      );
-    }
-
-    return await response.json();
-  } catch (error) {
-    console.error("Fetch theme error:", error);
-    throw error;
-  }
+export async function fetchTheme(
+  id: number,
+  options: CallOptions = {}
+): Promise<Theme> {
+  return apiRequest(`${API_CONFIG.ENDPOINTS.THEMES}/${id}`, {
+    ...options,
+    parse: parseTheme,
+  });
 }
 
 export interface CreateThemeRequest {
@@ -807,156 +761,277 @@ export interface CreateThemeRequest {
 /**
  * Creates a new theme
  * @param theme - Theme data to create
+ * @param options - Optional cancellation and timeout
  * @returns Promise with created theme
  */
-export async function createTheme(theme: CreateThemeRequest): Promise<Theme> {
-  const apiUrl = `${API_CONFIG.API_BASE_URL}${API_CONFIG.ENDPOINTS.THEMES}`;
-
-  try {
-    const response = await fetch(apiUrl, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "x-api-key": getStoredApiKey(),
-      },
-      body: JSON.stringify(theme),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(
-        errorData.error || `HTTP error! status: ${response.status}`
-      );
-    }
-
-    return await response.json();
-  } catch (error) {
-    console.error("Create theme error:", error);
-    throw error;
-  }
+export async function createTheme(
+  theme: CreateThemeRequest,
+  options: CallOptions = {}
+): Promise<Theme> {
+  const created = await apiRequest(API_CONFIG.ENDPOINTS.THEMES, {
+    ...options,
+    method: "POST",
+    body: theme,
+    parse: parseTheme,
+  });
+  invalidateQueries(queryKeys.themes());
+  return created;
 }
 
 /**
  * Updates an existing theme
  * @param id - Theme ID to update
  * @param theme - Updated theme data
+ * @param options - Optional cancellation and timeout
  * @returns Promise with updated theme
  */
 export async function updateTheme(
   id: number,
-  theme: Partial<CreateThemeRequest>
+  theme: Partial<CreateThemeRequest>,
+  options: CallOptions = {}
 ): Promise<Theme> {
-  const apiUrl = `${API_CONFIG.API_BASE_URL}${API_CONFIG.ENDPOINTS.THEMES}/${id}`;
-
-  try {
-    const response = await fetch(apiUrl, {
-      method: "PUT",
-      headers: {
-        "Content-Type": "application/json",
-        "x-api-key": getStoredApiKey(),
-      },
-      body: JSON.stringify(theme),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(
-        errorData.error || `HTTP error! status: ${response.status}`
-      );
-    }
-
-    return await response.json();
-  } catch (error) {
-    console.error("Update theme error:", error);
-    throw error;
-  }
+  const updated = await apiRequest(`${API_CONFIG.ENDPOINTS.THEMES}/${id}`, {
+    ...options,
+    method: "PUT",
+    body: theme,
+    parse: parseTheme,
+  });
+  invalidateQueries(queryKeys.themes());
+  return updated;
 }
 
 /**
  * Deletes a theme by ID
  * @param id - Theme ID to delete
+ * @param options - Optional cancellation and timeout
  * @returns Promise with delete response
  */
-export async function deleteTheme(id: number): Promise<{ message: string }> {
-  const apiUrl = `${API_CONFIG.API_BASE_URL}${API_CONFIG.ENDPOINTS.THEMES}/${id}`;
+export async function deleteTheme(
+  id: number,
+  options: CallOptions = {}
+): Promise<{ message: string }> {
+  const result = await apiRequest(`${API_CONFIG.ENDPOINTS.THEMES}/${id}`, {
+    ...options,
+    method: "DELETE",
+    parse: parseMessage,
+  });
+  invalidateQueries(queryKeys.themes());
+  return result;
+}
 
-  try {
-    const response = await fetch(apiUrl, {
-      method: "DELETE",
-      headers: {
-        "x-api-key": getStoredApiKey(),
-      },
-    });
+/**
+ * Sets a theme as the default
+ * @param id - Theme ID to set as default
+ * @param options - Optional cancellation and timeout
+ * @returns Promise with updated theme
+ */
+export async function setDefaultTheme(
+  id: number,
+  options: CallOptions = {}
+): Promise<Theme> {
+  const theme = await apiRequest(
+    `${API_CONFIG.ENDPOINTS.THEMES}/${id}/set-default`,
+    { ...options, method: "POST", parse: parseTheme }
+  );
+  invalidateQueries(queryKeys.themes());
+  return theme;
+}
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(
-        errorData.error || `HTTP error! status: ${response.status}`
-      );
-    }
+/**
+ * Fetches the default theme configuration template
+ * @param options - Optional cancellation and timeout
+ * @returns Promise with default theme config
+ */
+export async function fetchDefaultThemeConfig(
+  options: CallOptions = {}
+): Promise<ThemeConfig> {
+  return apiRequest(`${API_CONFIG.ENDPOINTS.THEMES}/defaults/config`, {
+    ...options,
+    parse: parseThemeConfig,
+  });
+}
+
+// Summary types
+export type SummaryPeriod = "week" | "month" | "year";
+
+export interface SummaryCount {
+  id: number;
+  name: string;
+  count: number;
+}
+
+export interface SummaryHighlight {
+  id: number;
+  createdAt: string;
+  excerpt: string;
+}
+
+export interface Summary {
+  /** null until the summary has been stored on the server */
+  id: number | null;
+  period: SummaryPeriod;
+  startDate: string;
+  endDate: string;
+  entryCount: number;
+  topTags: SummaryCount[];
+  topLocations: SummaryCount[];
+  highlights: SummaryHighlight[];
+  recap: string;
+  updatedAt?: string;
+}
 
-    return await response.json();
+/**
+ * Fetches the stored summary for a period
+ * @param period - Summary period
+ * @param startDate - Period start in YYYY-MM-DD format
+ * @param options - Optional cancellation and timeout
+ * @returns Promise with the summary, or null if none has been stored
+ */
+export async function fetchSummary(
+  period: SummaryPeriod,
+  startDate: string,
+  options: CallOptions = {}
+): Promise<Summary | null> {
+  try {
+    return await apiRequest(API_CONFIG.ENDPOINTS.SUMMARIES, {
+      ...options,
+      query: { period, startDate },
+      parse: parseSummary,
+    });
   } catch (error) {
-    console.error("Delete theme error:", error);
+    if (isApiError(error) && error.isNotFound) return null;
     throw error;
   }
 }
 
 /**
- * Sets a theme as the default
- * @param id - Theme ID to set as default
- * @returns Promise with updated theme
+ * Asks the server to compute and store the summary for a period
+ * @param period - Summary period
+ * @param startDate - Period start in YYYY-MM-DD format
+ * @param options - Optional cancellation and timeout
+ * @returns Promise with the generated summary
  */
-export async function setDefaultTheme(id: number): Promise<Theme> {
-  const apiUrl = `${API_CONFIG.API_BASE_URL}${API_CONFIG.ENDPOINTS.THEMES}/${id}/set-default`;
+export async function generateSummary(
+  period: SummaryPeriod,
+  startDate: string,
+  options: CallOptions = {}
+): Promise<Summary> {
+  return apiRequest(`${API_CONFIG.ENDPOINTS.SUMMARIES}/generate`, {
+    timeoutMs: LONG_TIMEOUT_MS,
+    ...options,
+    method: "POST",
+    body: { period, startDate },
+    parse: parseSummary,
+  });
+}
 
-  try {
-    const response = await fetch(apiUrl, {
+/**
+ * Stores a summary, creating it if it has no ID yet
+ * @param summary - Summary to store, e.g. with an edited recap
+ * @param options - Optional cancellation and timeout
+ * @returns Promise with the stored summary
+ */
+export async function saveSummary(
+  summary: Summary,
+  options: CallOptions = {}
+): Promise<Summary> {
+  if (summary.id === null) {
+    return apiRequest(API_CONFIG.ENDPOINTS.SUMMARIES, {
+      ...options,
       method: "POST",
-      headers: {
-        "x-api-key": getStoredApiKey(),
-      },
+      body: summary,
+      parse: parseSummary,
     });
+  }
+  return apiRequest(`${API_CONFIG.ENDPOINTS.SUMMARIES}/${summary.id}`, {
+    ...options,
+    method: "PUT",
+    body: { recap: summary.recap },
+    parse: parseSummary,
+  });
+}
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(
-        errorData.error || `HTTP error! status: ${response.status}`
-      );
-    }
+// Template types
+export interface EntryTemplate {
+  id: number;
+  name: string;
+  /** Markdown body; may contain variables such as {{date}} */
+  content: string;
+  tags: Tag[];
+  location: Tag | null;
+  /** Days of the week (0 is Sunday) on which new entries start from this template */
+  defaultWeekdays: number[];
+  updatedAt?: string;
+}
 
-    return await response.json();
-  } catch (error) {
-    console.error("Set default theme error:", error);
-    throw error;
-  }
+export interface TemplateRequest {
+  name: string;
+  content: string;
+  tagIds: number[];
+  locationId: number | null;
+  defaultWeekdays: number[];
 }
 
 /**
- * Fetches the default theme configuration template
- * @returns Promise with default theme config
+ * Fetches all entry templates
+ * @param options - Optional cancellation and timeout
+ * @returns Promise with array of templates
  */
-export async function fetchDefaultThemeConfig(): Promise<ThemeConfig> {
-  const apiUrl = `${API_CONFIG.API_BASE_URL}${API_CONFIG.ENDPOINTS.THEMES}/defaults/config`;
+export async function fetchTemplates(options: CallOptions = {}): Promise<EntryTemplate[]> {
+  return apiRequest(API_CONFIG.ENDPOINTS.TEMPLATES, { ...options, parse: parseTemplates });
+}
 
-  try {
-    const response = await fetch(apiUrl, {
-      method: "GET",
-      headers: {
-        "x-api-key": getStoredApiKey(),
-      },
-    });
+/**
+ * Creates an entry template
+ * @param template - Template data to create
+ * @param options - Optional cancellation and timeout
+ * @returns Promise with created template
+ */
+export async function createTemplate(
+  template: TemplateRequest,
+  options: CallOptions = {}
+): Promise<EntryTemplate> {
+  return apiRequest(API_CONFIG.ENDPOINTS.TEMPLATES, {
+    ...options,
+    method: "POST",
+    body: template,
+    parse: parseTemplate,
+  });
+}
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(
-        errorData.error || `HTTP error! status: ${response.status}`
-      );
-    }
+/**
+ * Updates an entry template
+ * @param id - Template ID to update
+ * @param template - Updated template data
+ * @param options - Optional cancellation and timeout
+ * @returns Promise with updated template
+ */
+export async function updateTemplate(
+  id: number,
+  template: TemplateRequest,
+  options: CallOptions = {}
+): Promise<EntryTemplate> {
+  return apiRequest(`${API_CONFIG.ENDPOINTS.TEMPLATES}/${id}`, {
+    ...options,
+    method: "PUT",
+    body: template,
+    parse: parseTemplate,
+  });
+}
 
-    return await response.json();
-  } catch (error) {
-    console.error("Fetch default theme config error:", error);
-    throw error;
-  }
+/**
+ * Deletes an entry template by ID
+ * @param id - Template ID to delete
+ * @param options - Optional cancellation and timeout
+ * @returns Promise with delete response
+ */
+export async function deleteTemplate(
+  id: number,
+  options: CallOptions = {}
+): Promise<{ message: string }> {
+  return apiRequest(`${API_CONFIG.ENDPOINTS.TEMPLATES}/${id}`, {
+    ...options,
+    method: "DELETE",
+    parse: parseMessage,
+  });
 }
@@ -0,0 +1,252 @@
+// Resumable chunked uploads for media files too large for one request.
+// The server keeps received chunks per upload session; the session ID is
+// kept in IndexedDB under the file's fingerprint, so uploading the same bytes
+// again, even after a reload, only sends the chunks the server is missing.
+import { API_CONFIG, MEDIA_CONFIG } from "../config/constants";
+import { apiRequest, isApiError, type UploadProgressListener } from "./http";
+import { parseUploadedMedia, parseUploadSession } from "./schemas";
+import { idbDelete, idbGet, idbPut } from "../utils/indexedDb";
+import { getActiveProfile } from "../utils/serverProfiles";
+
+export interface ChunkedUploadOptions {
+  signal?: AbortSignal;
+  /** Timeout for each request of the upload, not the whole upload */
+  timeoutMs?: number;
+  onProgress?: UploadProgressListener;
+  /**
+   * Identifies the file across reloads; defaults to fileFingerprint(file).
+   * A session is only resumed while the bytes being uploaded are the same.
+   */
+  resumeKey?: string;
+}
+
+interface StoredSession {
+  uploadId: string;
+  chunkSize: number;
+  /** fileFingerprint of the bytes sent; older sessions predate this field */
+  contentFingerprint?: string;
+  createdAt: string;
+}
+
+const STORE = "uploads";
+
+/**
+ * Sessions older than this are assumed expired on the server
+ */
+const SESSION_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+const CHUNK_TIMEOUT_MS = 60_000;
+
+/**
+ * Attempts per chunk before a dropped connection fails the upload
+ */
+const CHUNK_ATTEMPTS = 3;
+
+const RETRY_DELAY_MS = 1_000;
+
+const endpoint = API_CONFIG.ENDPOINTS.MEDIA_UPLOADS;
+
+/**
+ * Sessions being created, by storage key, so a discard can wait for them
+ */
+const startingSessions = new Map<string, Promise<unknown>>();
+
+/**
+ * Identifies a file picked by the user well enough to resume its upload
+ * when it is picked again
+ * @param file - File as picked by the user, before any processing
+ */
+export function fileFingerprint(file: File): string {
+  return [file.name, file.size, file.lastModified, file.type].join(":");
+}
+
+function storageKey(resumeKey: string): string {
+  // Sessions belong to the server they were started on
+  return `${getActiveProfile().id}:${resumeKey}`;
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+  });
+}
+
+/**
+ * Drops a session on the server; failures are left to the server's expiry
+ */
+async function deleteSession(uploadId: string): Promise<void> {
+  try {
+    await apiRequest(`${endpoint}/${encodeURIComponent(uploadId)}`, {
+      method: "DELETE",
+      responseType: "none",
+    });
+  } catch {
+    // The server expires abandoned sessions on its own
+  }
+}
+
+/**
+ * Finds the session a previous attempt left behind, if the server still has
+ * it and it holds chunks of the same bytes
+ */
+async function resumeSession(
+  file: File,
+  key: string,
+  options: ChunkedUploadOptions
+): Promise<{ uploadId: string; chunkSize: number; receivedChunks: number[] } | null> {
+  const stored = await idbGet<StoredSession>(STORE, key);
+  if (!stored) return null;
+  if (Date.now() - new Date(stored.createdAt).getTime() > SESSION_MAX_AGE_MS) {
+    await idbDelete(STORE, key);
+    return null;
+  }
+  // E.g. an image re-encoded differently: its chunks can't be mixed with these
+  if (stored.contentFingerprint !== fileFingerprint(file)) {
+    await idbDelete(STORE, key);
+    await deleteSession(stored.uploadId);
+    return null;
+  }
+  try {
+    return await apiRequest(`${endpoint}/${encodeURIComponent(stored.uploadId)}`, {
+      signal: options.signal,
+      timeoutMs: options.timeoutMs,
+      parse: parseUploadSession,
+    });
+  } catch (error) {
+    if (!isApiError(error) || !error.isNotFound) throw error;
+    await idbDelete(STORE, key);
+    return null;
+  }
+}
+
+async function startSession(file: File, key: string, options: ChunkedUploadOptions) {
+  const starting = createSession(file, key, options);
+  startingSessions.set(key, starting);
+  try {
+    return await starting;
+  } finally {
+    if (startingSessions.get(key) === starting) startingSessions.delete(key);
+  }
+}
+
+async function createSession(file: File, key: string, options: ChunkedUploadOptions) {
+  const session = await apiRequest(endpoint, {
+    signal: options.signal,
+    timeoutMs: options.timeoutMs,
+    method: "POST",
+    body: {
+      filename: file.name,
+      size: file.size,
+      mimeType: file.type || "application/octet-stream",
+      chunkSize: MEDIA_CONFIG.CHUNK_SIZE,
+    },
+    parse: parseUploadSession,
+  });
+  await idbPut<StoredSession>(STORE, key, {
+    uploadId: session.uploadId,
+    chunkSize: session.chunkSize,
+    contentFingerprint: fileFingerprint(file),
+    createdAt: new Date().toISOString(),
+  });
+  return session;
+}
+
+/**
+ * Sends one chunk, retrying when the connection drops
+ */
+async function sendChunk(
+  uploadId: string,
+  index: number,
+  chunk: Blob,
+  options: ChunkedUploadOptions,
+  onChunkProgress: (loaded: number) => void
+): Promise<void> {
+  const formData = new FormData();
+  formData.append("chunk", chunk);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await apiRequest(`${endpoint}/${encodeURIComponent(uploadId)}/chunks/${index}`, {
+        signal: options.signal,
+        timeoutMs: options.timeoutMs ?? CHUNK_TIMEOUT_MS,
+        method: "PUT",
+        formData,
+        responseType: "none",
+        // The multipart body is a little larger than the chunk itself
+        onUploadProgress: ({ loaded, total }) =>
+          onChunkProgress(total > 0 ? Math.min(chunk.size, (loaded / total) * chunk.size) : 0),
+      });
+      return;
+    } catch (error) {
+      const dropped = isApiError(error) && (error.isOffline || error.kind === "timeout");
+      if (!dropped || attempt >= CHUNK_ATTEMPTS) throw error;
+      onChunkProgress(0);
+      await wait(RETRY_DELAY_MS * attempt, options.signal);
+    }
+  }
+}
+
+/**
+ * Uploads a file in chunks, continuing an earlier attempt for the same file
+ * when the server still has its session
+ * @param file - File to upload
+ * @param options - Cancellation, per-request timeout, progress and resume key
+ * @returns Promise with the stored media, as returned by a single-request upload
+ * @throws ApiError when a request fails; aborting leaves the session resumable
+ */
+export async function uploadInChunks(file: File, options: ChunkedUploadOptions = {}) {
+  const key = storageKey(options.resumeKey ?? fileFingerprint(file));
+  const session =
+    (await resumeSession(file, key, options)) ?? (await startSession(file, key, options));
+  const { uploadId, chunkSize } = session;
+  const chunkCount = Math.max(1, Math.ceil(file.size / chunkSize));
+  const chunkBytes = (index: number) =>
+    Math.min(chunkSize, file.size - index * chunkSize);
+
+  const received = new Set(session.receivedChunks);
+  let confirmed = 0;
+  received.forEach((index) => {
+    if (index < chunkCount) confirmed += chunkBytes(index);
+  });
+  options.onProgress?.({ loaded: confirmed, total: file.size });
+
+  for (let index = 0; index < chunkCount; index++) {
+    if (received.has(index)) continue;
+    const chunk = file.slice(index * chunkSize, index * chunkSize + chunkBytes(index));
+    await sendChunk(uploadId, index, chunk, options, (loaded) =>
+      options.onProgress?.({ loaded: confirmed + loaded, total: file.size })
+    );
+    confirmed += chunk.size;
+  }
+
+  const media = await apiRequest(`${endpoint}/${encodeURIComponent(uploadId)}/complete`, {
+    signal: options.signal,
+    timeoutMs: options.timeoutMs ?? CHUNK_TIMEOUT_MS,
+    method: "POST",
+    parse: parseUploadedMedia,
+  });
+  await idbDelete(STORE, key);
+  return media;
+}
+
+/**
+ * Drops the server session and saved progress of a file's upload, e.g. when
+ * the user cancels it for good
+ * @param file - File whose upload to discard
+ * @param resumeKey - Same key passed to uploadInChunks, if any
+ */
+export async function discardChunkedUpload(file: File, resumeKey?: string): Promise<void> {
+  const key = storageKey(resumeKey ?? fileFingerprint(file));
+  // A session still being created is only stored once it exists
+  await startingSessions.get(key)?.catch(() => undefined);
+  const stored = await idbGet<StoredSession>(STORE, key);
+  if (!stored) return;
+  await idbDelete(STORE, key);
+  await deleteSession(stored.uploadId);
+}
@@ -0,0 +1,267 @@
+// Unsaved editor state is kept in IndexedDB so a closed tab or a browser
+// killed in the background doesn't lose what was typed
+import type { Tag } from "./api";
+import { sendOrQueueWrite, type QueuedOperation } from "./offlineQueue";
+import { convertToMarkdownLineBreaks } from "../utils/markdownFormat";
+import { idbDelete, idbGet, idbGetAll, idbPut } from "../utils/indexedDb";
+import {
+  DEFAULT_PROFILE_ID,
+  getActiveProfile,
+  onActiveProfileChange,
+} from "../utils/serverProfiles";
+import { getTagTokenMode, stripTagTokens } from "../utils/tagTokens";
+
+/**
+ * The editor fields a draft keeps
+ */
+export interface EntryDraftFields {
+  content: string;
+  tags: Tag[];
+  location: Tag | null;
+  /** Value of the datetime-local input; empty for "now" */
+  customDateTime: string;
+  mediaPaths: string[];
+  /** Older drafts predate this field */
+  isHighlighted?: boolean;
+}
+
+export interface EntryDraft extends EntryDraftFields {
+  id: string;
+  /** Server profile the draft belongs to; older drafts predate this field */
+  profileId?: string;
+  /** Entry being edited; undefined for a new entry */
+  entryId?: number;
+  updatedAt: string;
+}
+
+type Listener = (drafts: EntryDraft[]) => void;
+
+const STORE = "entryDrafts";
+const listeners = new Set<Listener>();
+
+/**
+ * Draft ID of the new-entry editor
+ */
+export const NEW_ENTRY_DRAFT_ID = "new";
+
+/**
+ * Creates the ID of an additional new-entry draft
+ */
+export function createEntryDraftId(): string {
+  return `new-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+}
+
+/**
+ * Draft ID used while editing an existing entry
+ * @param entryId - Entry being edited
+ */
+export function entryDraftId(entryId: number): string {
+  return `entry-${entryId}`;
+}
+
+function storageKey(id: string): string {
+  // Drafts belong to the server their tags and media came from
+  return `${getActiveProfile().id}:${id}`;
+}
+
+/**
+ * Whether two sets of fields would save the same entry
+ */
+export function sameDraftFields(a: EntryDraftFields, b: EntryDraftFields): boolean {
+  const ids = (tags: Tag[]) => tags.map((tag) => tag.id).join(",");
+  return (
+    // Loaded entries may predate the hard-break spaces the editor adds
+    convertToMarkdownLineBreaks(a.content) === convertToMarkdownLineBreaks(b.content) &&
+    ids(a.tags) === ids(b.tags) &&
+    (a.location?.id ?? null) === (b.location?.id ?? null) &&
+    a.customDateTime === b.customDateTime &&
+    Boolean(a.isHighlighted) === Boolean(b.isHighlighted) &&
+    a.mediaPaths.join("\n") === b.mediaPaths.join("\n")
+  );
+}
+
+/**
+ * Lists the active server profile's drafts, most recently changed first
+ */
+export async function listEntryDrafts(): Promise<EntryDraft[]> {
+  const activeId = getActiveProfile().id;
+  const drafts = await idbGetAll<EntryDraft>(STORE);
+  return drafts
+    .filter((draft) => (draft.profileId ?? DEFAULT_PROFILE_ID) === activeId)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+async function notify(): Promise<void> {
+  const drafts = await listEntryDrafts();
+  listeners.forEach((listener) => listener(drafts));
+}
+
+onActiveProfileChange(() => {
+  notify().catch((error) => console.error("Failed to read entry drafts:", error));
+});
+
+/**
+ * Subscribes to draft changes
+ * @param listener - Called with the active profile's drafts after every change
+ * @returns Unsubscribe function
+ */
+export function subscribeToEntryDrafts(listener: Listener): () => void {
+  listeners.add(listener);
+  listEntryDrafts()
+    .then(listener)
+    .catch((error) => console.error("Failed to read entry drafts:", error));
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Reads a draft of the active server profile
+ * @param id - Draft ID
+ */
+export function getEntryDraft(id: string): Promise<EntryDraft | undefined> {
+  return idbGet<EntryDraft>(STORE, storageKey(id));
+}
+
+/**
+ * Creates or replaces a draft
+ * @param id - Draft ID
+ * @param fields - Current editor fields
+ * @param entryId - Entry being edited, if any
+ * @returns The saved draft
+ */
+export async function saveEntryDraft(
+  id: string,
+  fields: EntryDraftFields,
+  entryId?: number
+): Promise<EntryDraft> {
+  const draft: EntryDraft = {
+    ...fields,
+    id,
+    profileId: getActiveProfile().id,
+    entryId,
+    updatedAt: new Date().toISOString(),
+  };
+  await idbPut(STORE, storageKey(id), draft);
+  await notify();
+  return draft;
+}
+
+/**
+ * Removes a draft, e.g. once its entry has been saved
+ * @param id - Draft ID
+ */
+export async function deleteEntryDraft(id: string): Promise<void> {
+  await idbDelete(STORE, storageKey(id));
+  await notify();
+}
+
+/**
+ * Text the server searches in: the content without markdown, once as typed
+ * and once without Vietnamese diacritics
+ * @param content - Entry markdown
+ */
+export function buildSearchHint(content: string): string {
+  const cleanContent = content
+    .replace(/!\[.*?\]\(.*?\)/g, " ")
+    .replace(/[#*_~`[\]()]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  const withDiacritics = cleanContent.toLocaleLowerCase("vi");
+  const withoutDiacritics = cleanContent
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+
+  return `${withDiacritics} ${withoutDiacritics}`.trim();
+}
+
+/**
+ * Builds the API write that saves the fields
+ * @param fields - Editor fields; a location is required
+ * @param entryId - Entry being edited; omit to create one
+ */
+export function entryOperation(fields: EntryDraftFields, entryId?: number): QueuedOperation {
+  const searchHint = buildSearchHint(fields.content);
+  const tagIds = fields.tags.length > 0 ? fields.tags.map((tag) => tag.id) : undefined;
+  const mediaPaths = fields.mediaPaths.length > 0 ? fields.mediaPaths : undefined;
+  const isHighlighted = Boolean(fields.isHighlighted);
+
+  let customId: number | undefined;
+  let createdAtISO: string | undefined;
+  if (fields.customDateTime) {
+    const dateObj = new Date(fields.customDateTime);
+    customId = dateObj.getTime();
+    createdAtISO = dateObj.toISOString();
+  }
+
+  if (entryId) {
+    // An existing entry keeps its ID when it is moved to another time
+    return {
+      type: "update",
+      entryId,
+      request: {
+        content: fields.content,
+        searchHint,
+        locationId: fields.location?.id,
+        tagIds,
+        mediaPaths,
+        isHighlighted,
+        createdAt: createdAtISO,
+      },
+    };
+  }
+
+  return {
+    type: "create",
+    request: {
+      id: customId,
+      content: fields.content,
+      searchHint,
+      locationId: fields.location?.id,
+      tagIds,
+      mediaPaths,
+      isHighlighted,
+      createdAt: createdAtISO,
+    },
+  };
+}
+
+/**
+ * Saves the fields as an entry, queueing the write when offline. The tokens
+ * of its tags and location are taken out of the text first if the user
+ * chose to strip them.
+ * @param fields - Editor fields; a location is required
+ * @param entryId - Entry being edited; omit to create one
+ * @param replaces - Rejected queued write that this save resolves
+ * @returns Whether the write was queued, and the new entry's ID when it was
+ * created right away
+ */
+export function publishEntry(
+  fields: EntryDraftFields,
+  entryId?: number,
+  replaces?: string
+): Promise<{ queued: boolean; id?: number }> {
+  const published: EntryDraftFields =
+    getTagTokenMode() === "strip"
+      ? {
+          ...fields,
+          content: stripTagTokens(fields.content, [
+            ...fields.tags,
+            ...(fields.location ? [fields.location] : []),
+          ]),
+        }
+      : fields;
+  const operation = entryOperation(published, entryId);
+  const snapshot = {
+    content: published.content,
+    tags: published.tags,
+    location: published.location,
+    createdAt:
+      operation.type !== "delete" && operation.request.createdAt
+        ? operation.request.createdAt
+        : new Date().toISOString(),
+  };
+  return sendOrQueueWrite(operation, snapshot, replaces);
+}
@@ -0,0 +1,442 @@
+// Shared HTTP core used by every API call
+import { getApiKey } from "../utils/apiKeyStorage";
+import { getActiveProfile } from "../utils/serverProfiles";
+import { SchemaError } from "./schemas";
+
+/**
+ * Default time a request may take before it is aborted
+ */
+export const DEFAULT_TIMEOUT_MS = 15_000;
+
+/**
+ * What went wrong with a request:
+ * - "http": the server answered with a non-2xx status
+ * - "network": the server could not be reached (offline, DNS, CORS)
+ * - "timeout": the request took longer than its timeout
+ * - "aborted": the caller cancelled the request through its AbortSignal
+ * - "invalid": the response body wasn't JSON or didn't have the expected shape
+ */
+export type ApiErrorKind = "http" | "network" | "timeout" | "aborted" | "invalid";
+
+interface ApiErrorInit {
+  kind: ApiErrorKind;
+  endpoint: string;
+  method: string;
+  status?: number;
+  serverMessage?: string;
+  /** Response field that failed validation, for "invalid" errors */
+  field?: string;
+  cause?: unknown;
+}
+
+/**
+ * Error thrown by every API call, carrying enough detail for callers
+ * to tell an auth failure from a missing record or an offline device
+ */
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status: number | null;
+  readonly endpoint: string;
+  readonly method: string;
+  readonly serverMessage: string | null;
+  readonly field: string | null;
+
+  constructor(init: ApiErrorInit) {
+    super(ApiError.describe(init), { cause: init.cause });
+    this.name = "ApiError";
+    this.kind = init.kind;
+    this.status = init.status ?? null;
+    this.endpoint = init.endpoint;
+    this.method = init.method;
+    this.serverMessage = init.serverMessage ?? null;
+    this.field = init.field ?? null;
+  }
+
+  private static describe(init: ApiErrorInit): string {
+    switch (init.kind) {
+      case "http":
+        if (init.serverMessage) return init.serverMessage;
+        if (init.status === 401) return "The API key was rejected.";
+        if (init.status === 404) return "Not found.";
+        return `HTTP error! status: ${init.status}`;
+      case "network":
+        return "Could not reach the server. Check your connection.";
+      case "timeout":
+        return "The server took too long to respond.";
+      case "aborted":
+        return "Request was cancelled.";
+      case "invalid": {
+        const detail =
+          init.cause instanceof Error ? init.cause.message : "unexpected shape";
+        return `Unexpected response from ${init.method} ${init.endpoint}: ${detail}`;
+      }
+    }
+  }
+
+  get isUnauthorized(): boolean {
+    return this.kind === "http" && this.status === 401;
+  }
+
+  get isNotFound(): boolean {
+    return this.kind === "http" && this.status === 404;
+  }
+
+  get isOffline(): boolean {
+    return this.kind === "network";
+  }
+
+  get isAborted(): boolean {
+    return this.kind === "aborted";
+  }
+
+  get isInvalidResponse(): boolean {
+    return this.kind === "invalid";
+  }
+}
+
+/**
+ * Type guard for errors thrown by the API layer
+ */
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError;
+}
+
+type QueryValue = string | number | boolean | undefined | null;
+
+/**
+ * Bytes of a request body sent so far
+ */
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+}
+
+export type UploadProgressListener = (progress: UploadProgress) => void;
+
+export interface RequestOptions<T = unknown> {
+  method?: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  /** Query string parameters; undefined and null values are skipped */
+  query?: Record<string, QueryValue>;
+  /** JSON body, serialized with JSON.stringify */
+  body?: unknown;
+  /** Multipart body, sent as-is */
+  formData?: FormData;
+  /** How to read a successful response */
+  responseType?: "json" | "blob" | "none";
+  /** Validates and normalizes a JSON body; throws SchemaError on mismatch */
+  parse?: (data: unknown) => T;
+  /** Reports bytes sent; such requests go through XHR instead of fetch */
+  onUploadProgress?: UploadProgressListener;
+  signal?: AbortSignal;
+  /** Milliseconds before the request is aborted; 0 disables the timeout */
+  timeoutMs?: number;
+  /**
+   * Server and key to use instead of the active profile's, e.g. to check a
+   * key before saving it. 401s on these requests aren't broadcast.
+   */
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+/**
+ * Base URL used while the in-browser mock backend is enabled
+ */
+export const MOCK_API_BASE_URL = "mock://life-log";
+
+const MOCK_STORAGE_KEY = "life-log-mock-api";
+
+/**
+ * Whether requests go to the in-browser mock backend instead of the server.
+ * Enabled with VITE_MOCK_API=true at build time, at runtime with
+ * localStorage.setItem("life-log-mock-api", "on"), or by activating a
+ * server profile whose base URL is "mock://life-log".
+ */
+export function isMockApiEnabled(): boolean {
+  if (import.meta.env.VITE_MOCK_API === "true") return true;
+  if (typeof window === "undefined") return false;
+  return (
+    localStorage.getItem(MOCK_STORAGE_KEY) === "on" ||
+    getActiveProfile().baseUrl === MOCK_API_BASE_URL
+  );
+}
+
+/**
+ * Resolves the base URL requests are sent to: the active server profile's,
+ * unless the mock backend is forced on
+ */
+export function getApiBaseUrl(): string {
+  return isMockApiEnabled() ? MOCK_API_BASE_URL : getActiveProfile().baseUrl;
+}
+
+/**
+ * Turns a media URL returned by the API into one the browser can load.
+ * Server paths are prefixed with the base URL; absolute URLs (including
+ * the mock backend's blob: URLs) are returned unchanged.
+ * @param url - URL or path from an upload or signing response
+ */
+export function resolveMediaUrl(url: string): string {
+  return /^[a-z][a-z0-9+.-]*:/i.test(url) ? url : `${getApiBaseUrl()}${url}`;
+}
+
+/**
+ * fetch-like function that can also report upload progress
+ */
+type Transport = (
+  url: string,
+  init: RequestInit,
+  onUploadProgress?: UploadProgressListener
+) => Promise<Response>;
+
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+function parseResponseHeaders(raw: string): Headers {
+  const headers = new Headers();
+  raw
+    .trim()
+    .split(/[\r\n]+/)
+    .forEach((line) => {
+      const separator = line.indexOf(":");
+      if (separator > 0) {
+        headers.append(line.slice(0, separator).trim(), line.slice(separator + 1).trim());
+      }
+    });
+  return headers;
+}
+
+/**
+ * Sends a request with XMLHttpRequest, the only browser API that reports
+ * upload progress, and resolves with a fetch Response. Failures reject the
+ * same way fetch does so apiRequest classifies them alike.
+ */
+function xhrFetch(
+  url: string,
+  init: RequestInit,
+  onUploadProgress?: UploadProgressListener
+): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const { signal } = init;
+    if (signal?.aborted) {
+      reject(new DOMException("The operation was aborted.", "AbortError"));
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    xhr.open(init.method ?? "GET", url);
+    xhr.responseType = "blob";
+    Object.entries((init.headers ?? {}) as Record<string, string>).forEach(
+      ([name, value]) => xhr.setRequestHeader(name, value)
+    );
+
+    const onAbort = () => xhr.abort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+    const settle = () => signal?.removeEventListener("abort", onAbort);
+
+    if (onUploadProgress) {
+      xhr.upload.onprogress = (event) => {
+        if (event.lengthComputable) {
+          onUploadProgress({ loaded: event.loaded, total: event.total });
+        }
+      };
+    }
+    xhr.onload = () => {
+      settle();
+      resolve(
+        new Response(NULL_BODY_STATUSES.includes(xhr.status) ? null : xhr.response, {
+          status: xhr.status,
+          statusText: xhr.statusText,
+          headers: parseResponseHeaders(xhr.getAllResponseHeaders()),
+        })
+      );
+    };
+    xhr.onerror = () => {
+      settle();
+      reject(new TypeError("Network request failed"));
+    };
+    xhr.onabort = () => {
+      settle();
+      reject(new DOMException("The operation was aborted.", "AbortError"));
+    };
+    xhr.send((init.body ?? null) as XMLHttpRequestBodyInit | null);
+  });
+}
+
+/**
+ * Picks the fetch implementation for a base URL
+ * @param baseUrl - Server the request goes to
+ * @param withProgress - Whether the caller wants upload progress
+ */
+async function getTransport(baseUrl: string, withProgress: boolean): Promise<Transport> {
+  if (baseUrl !== MOCK_API_BASE_URL) return withProgress ? xhrFetch : fetch;
+  const { mockFetch } = await import("../mock/mockServer");
+  return mockFetch;
+}
+
+type UnauthorizedListener = (error: ApiError) => void;
+
+const unauthorizedListeners = new Set<UnauthorizedListener>();
+
+/**
+ * Subscribes to 401 responses for the active profile's API key, so the app
+ * can report a rejected key once instead of on every page
+ * @param listener - Called with the error of each rejected request
+ * @returns Unsubscribe function
+ */
+export function onUnauthorized(listener: UnauthorizedListener): () => void {
+  unauthorizedListeners.add(listener);
+  return () => {
+    unauthorizedListeners.delete(listener);
+  };
+}
+
+/**
+ * Builds the absolute URL for an endpoint
+ * @param endpoint - Path relative to the API base URL, e.g. "/entries"
+ * @param query - Optional query string parameters
+ * @param baseUrl - Server to use instead of the active one
+ */
+export function buildApiUrl(
+  endpoint: string,
+  query?: Record<string, QueryValue>,
+  baseUrl: string = getApiBaseUrl()
+): string {
+  let url = `${baseUrl.replace(/\/+$/, "")}${endpoint}`;
+  if (query) {
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) {
+        params.append(key, String(value));
+      }
+    });
+    const qs = params.toString();
+    if (qs) url += `?${qs}`;
+  }
+  return url;
+}
+
+/**
+ * Sends a request to the life-log API
+ * @param endpoint - Path relative to the API base URL, e.g. "/entries/12"
+ * @param options - Method, body, cancellation and timeout options
+ * @returns Promise with the parsed response body
+ * @throws ApiError on HTTP errors, network failures, timeouts, cancellation
+ * and responses that fail the `parse` validator
+ */
+export async function apiRequest<T>(
+  endpoint: string,
+  options: RequestOptions<T> = {}
+): Promise<T> {
+  const {
+    method = "GET",
+    query,
+    body,
+    formData,
+    responseType = "json",
+    parse,
+    onUploadProgress,
+    signal,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+  } = options;
+  const baseUrl = options.baseUrl ?? getApiBaseUrl();
+  const usesActiveKey = options.apiKey === undefined;
+
+  const headers: Record<string, string> = {
+    "x-api-key": (usesActiveKey ? getApiKey() : options.apiKey) || "",
+  };
+  let requestBody: BodyInit | undefined;
+  if (formData) {
+    requestBody = formData;
+  } else if (body !== undefined) {
+    headers["Content-Type"] = "application/json";
+    requestBody = JSON.stringify(body);
+  }
+
+  // Merge the caller's signal with our own timeout into one controller
+  const controller = new AbortController();
+  let timedOut = false;
+  const onCallerAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) {
+    controller.abort(signal.reason);
+  } else {
+    signal?.addEventListener("abort", onCallerAbort, { once: true });
+  }
+  const timer =
+    timeoutMs > 0
+      ? window.setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeoutMs)
+      : null;
+
+  const fail = (
+    kind: ApiErrorKind,
+    extra: Partial<ApiErrorInit> = {}
+  ): ApiError => new ApiError({ kind, endpoint, method, ...extra });
+
+  try {
+    const transport = await getTransport(baseUrl, Boolean(onUploadProgress));
+    let response: Response;
+    try {
+      response = await transport(
+        buildApiUrl(endpoint, query, baseUrl),
+        { method, headers, body: requestBody, signal: controller.signal },
+        onUploadProgress
+      );
+    } catch (error) {
+      if (timedOut) throw fail("timeout", { cause: error });
+      if (controller.signal.aborted) throw fail("aborted", { cause: error });
+      throw fail("network", { cause: error });
+    }
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      const httpError = fail("http", {
+        status: response.status,
+        serverMessage:
+          typeof errorData?.error === "string" ? errorData.error : undefined,
+      });
+      if (httpError.isUnauthorized && usesActiveKey) {
+        unauthorizedListeners.forEach((listener) => listener(httpError));
+      }
+      throw httpError;
+    }
+
+    if (responseType === "blob") return (await response.blob()) as T;
+    if (responseType === "none") return undefined as T;
+    // Read first, parse second: only a broken stream counts as a network failure
+    const text = await response.text();
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch (error) {
+      throw fail("invalid", { cause: error });
+    }
+    if (!parse) return data as T;
+    try {
+      return parse(data);
+    } catch (error) {
+      throw fail("invalid", {
+        field: error instanceof SchemaError ? error.path : undefined,
+        cause: error,
+      });
+    }
+  } catch (error) {
+    // Failures while reading the body are classified like fetch failures
+    const apiError = isApiError(error)
+      ? error
+      : fail(
+          timedOut
+            ? "timeout"
+            : controller.signal.aborted
+              ? "aborted"
+              : "network",
+          { cause: error }
+        );
+    if (!apiError.isAborted) {
+      console.error(`${method} ${endpoint} failed:`, apiError);
+    }
+    throw apiError;
+  } finally {
+    if (timer !== null) clearTimeout(timer);
+    signal?.removeEventListener("abort", onCallerAbort);
+  }
+}
@@ -0,0 +1,119 @@
+// Location tags with coordinates, for suggesting where an entry was written.
+// The last loaded list is kept in this browser so suggestions work offline.
+import { createTag, fetchTags, type Tag } from "./api";
+import { fetchQuery } from "./queryCache";
+import { queryKeys } from "./queryKeys";
+import {
+  distanceMeters,
+  getCurrentCoordinates,
+  placeAreaConfig,
+  readPlaceArea,
+  type Coordinates,
+} from "../utils/geo";
+import { randomTagColor } from "../utils/randomTagColor";
+import { getActiveProfile } from "../utils/serverProfiles";
+
+export interface RankedLocation {
+  tag: Tag;
+  /** Meters from the device to the place's center */
+  distance: number;
+  /** Whether the device is within the place's radius */
+  isNearby: boolean;
+}
+
+export interface LocationSuggestion {
+  coordinates: Coordinates;
+  /** Places with coordinates, nearest first */
+  ranked: RankedLocation[];
+  /** The nearest place the device is in, if any */
+  nearby: RankedLocation | null;
+}
+
+const STORAGE_KEY_PREFIX = "life-log-location-tags";
+
+function storageKey(): string {
+  return `${STORAGE_KEY_PREFIX}:${getActiveProfile().id}`;
+}
+
+function readLocalLocations(): Tag[] {
+  try {
+    const raw = localStorage.getItem(storageKey());
+    return raw ? (JSON.parse(raw) as Tag[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeLocalLocations(tags: Tag[]): void {
+  try {
+    localStorage.setItem(storageKey(), JSON.stringify(tags));
+  } catch (error) {
+    console.error("Failed to keep location tags offline:", error);
+  }
+}
+
+/**
+ * Loads the location tags, or the copy from the last successful load when
+ * the server can't be reached
+ * @returns Promise with the location tags
+ */
+export async function loadLocationTags(): Promise<Tag[]> {
+  try {
+    const tags = await fetchQuery(queryKeys.tags(), () => fetchTags());
+    const locations = tags.filter((tag) => tag.type === "location");
+    writeLocalLocations(locations);
+    return locations;
+  } catch (error) {
+    console.error("Failed to load location tags, using the offline copy:", error);
+    return readLocalLocations();
+  }
+}
+
+/**
+ * Orders the location tags that have coordinates by distance
+ * @param tags - Location tags
+ * @param coordinates - Where the device is
+ */
+export function rankLocations(tags: Tag[], coordinates: Coordinates): RankedLocation[] {
+  return tags
+    .flatMap((tag) => {
+      const area = readPlaceArea(tag.config);
+      if (!area) return [];
+      const distance = distanceMeters(coordinates, area);
+      return [{ tag, distance, isNearby: distance <= area.radius }];
+    })
+    .sort((a, b) => a.distance - b.distance);
+}
+
+/**
+ * Finds the saved places around the device
+ * @returns Promise with the ranked places, or null when the browser can't
+ * tell where the device is
+ */
+export async function suggestLocation(): Promise<LocationSuggestion | null> {
+  const coordinates = await getCurrentCoordinates();
+  if (!coordinates) return null;
+  const ranked = rankLocations(await loadLocationTags(), coordinates);
+  return {
+    coordinates,
+    ranked,
+    nearby: ranked.find((place) => place.isNearby) ?? null,
+  };
+}
+
+/**
+ * Creates a location tag for the place the device is at
+ * @param name - Name of the place
+ * @param coordinates - Center of the place
+ * @returns Promise with the created tag
+ */
+export async function createLocationAt(name: string, coordinates: Coordinates): Promise<Tag> {
+  const tag = await createTag({
+    name,
+    searchHint: name,
+    type: "location",
+    config: { ...randomTagColor(), ...placeAreaConfig(coordinates) },
+  });
+  writeLocalLocations([...readLocalLocations(), tag]);
+  return tag;
+}
@@ -0,0 +1,251 @@
+/**
+ * App-wide cache of signed media URLs.
+ * Viewers ask for filenames; requests made close together are batched into
+ * one signing call, URLs are reused until shortly before they expire, and
+ * URLs still on screen are re-signed before they run out.
+ */
+import { getSignedUrls } from "./api";
+import { resolveMediaUrl } from "./http";
+import { parseClipTitle } from "../utils/mediaUtils";
+
+/**
+ * Re-sign this long before a URL expires
+ */
+const REFRESH_MARGIN_MS = 60_000;
+
+/**
+ * How long to collect requests before sending one signing call
+ */
+const BATCH_WINDOW_MS = 20;
+
+/**
+ * Wait this long before retrying filenames that failed to sign
+ */
+const FAILURE_BACKOFF_MS = 30_000;
+
+/**
+ * Upload filenames look like "1712345678901.jpg"
+ */
+const MEDIA_FILENAME_PATTERN = /^\d+\.\w+/;
+
+interface SignedMedia {
+  url: string;
+  /** Epoch milliseconds; Infinity for URLs that never expire */
+  expires: number;
+}
+
+const signed = new Map<string, SignedMedia>();
+const retryAfter = new Map<string, number>();
+const inFlight = new Set<string>();
+const queued = new Set<string>();
+const retained = new Map<string, number>();
+const listeners = new Set<() => void>();
+
+let version = 0;
+let flushTimer: number | null = null;
+let refreshTimer: number | null = null;
+
+function notify(): void {
+  version++;
+  listeners.forEach((listener) => listener());
+}
+
+function needsSigning(filename: string, now: number): boolean {
+  if (inFlight.has(filename) || queued.has(filename)) return false;
+  if ((retryAfter.get(filename) ?? 0) > now) return false;
+  const entry = signed.get(filename);
+  return !entry || now >= entry.expires - REFRESH_MARGIN_MS;
+}
+
+/**
+ * Reads the expiry from a signed URL's `expires` query parameter
+ */
+function expiryFromUrl(url: string): number {
+  // Local blob: URLs (mock backend) don't expire
+  if (!/^https?:/.test(url)) return Infinity;
+  try {
+    const expires = parseInt(new URL(url).searchParams.get("expires") || "0");
+    return expires > 0 ? expires : 0;
+  } catch {
+    return 0;
+  }
+}
+
+async function flush(): Promise<void> {
+  flushTimer = null;
+  const batch = [...queued];
+  queued.clear();
+  if (batch.length === 0) return;
+  batch.forEach((filename) => inFlight.add(filename));
+
+  try {
+    const results = await getSignedUrls(batch);
+    results.forEach((result) => {
+      const url = resolveMediaUrl(result.url);
+      const expires = /^https?:/.test(url) ? result.expires : Infinity;
+      signed.set(result.filename, { url, expires });
+      retryAfter.delete(result.filename);
+    });
+    // Files the server left out of the response are treated as failures
+    const now = Date.now();
+    batch
+      .filter((filename) => !results.some((r) => r.filename === filename))
+      .forEach((filename) => retryAfter.set(filename, now + FAILURE_BACKOFF_MS));
+  } catch (error) {
+    console.error("Failed to fetch signed URLs:", error);
+    const retryAt = Date.now() + FAILURE_BACKOFF_MS;
+    batch.forEach((filename) => retryAfter.set(filename, retryAt));
+  } finally {
+    batch.forEach((filename) => inFlight.delete(filename));
+    notify();
+    scheduleRefresh();
+  }
+}
+
+/**
+ * Queues filenames for signing unless a usable URL is already cached
+ * @param filenames - Media filenames, e.g. "1712345678901.jpg"
+ */
+export function requestMediaUrls(filenames: string[]): void {
+  const now = Date.now();
+  filenames
+    .filter((filename) => needsSigning(filename, now))
+    .forEach((filename) => queued.add(filename));
+  if (queued.size > 0 && flushTimer === null) {
+    flushTimer = window.setTimeout(flush, BATCH_WINDOW_MS);
+  }
+}
+
+/**
+ * Re-signs retained filenames when the first of them is about to expire
+ */
+function scheduleRefresh(): void {
+  if (refreshTimer !== null) {
+    clearTimeout(refreshTimer);
+    refreshTimer = null;
+  }
+
+  let nextDue = Infinity;
+  retained.forEach((_, filename) => {
+    const entry = signed.get(filename);
+    const retryAt = retryAfter.get(filename) ?? 0;
+    // Files without a URL yet are either in flight or waiting out a failure
+    const due = entry
+      ? Math.max(entry.expires - REFRESH_MARGIN_MS, retryAt)
+      : retryAt || Infinity;
+    nextDue = Math.min(nextDue, due);
+  });
+  if (nextDue === Infinity) return;
+
+  refreshTimer = window.setTimeout(() => {
+    refreshTimer = null;
+    requestMediaUrls([...retained.keys()]);
+    scheduleRefresh();
+  }, Math.max(1000, nextDue - Date.now()));
+}
+
+/**
+ * Keeps filenames signed while they are on screen.
+ * @param filenames - Media filenames shown by the caller
+ * @returns Release function to call once they are no longer shown
+ */
+export function retainMediaUrls(filenames: string[]): () => void {
+  filenames.forEach((filename) =>
+    retained.set(filename, (retained.get(filename) ?? 0) + 1)
+  );
+  requestMediaUrls(filenames);
+  scheduleRefresh();
+
+  return () => {
+    filenames.forEach((filename) => {
+      const count = (retained.get(filename) ?? 1) - 1;
+      if (count > 0) {
+        retained.set(filename, count);
+      } else {
+        retained.delete(filename);
+      }
+    });
+    scheduleRefresh();
+  };
+}
+
+/**
+ * Returns the cached URL for a filename if it hasn't expired
+ * @param filename - Media filename
+ */
+export function getMediaUrl(filename: string): string | undefined {
+  const entry = signed.get(filename);
+  return entry && Date.now() < entry.expires ? entry.url : undefined;
+}
+
+/**
+ * Stores a URL the app already has, e.g. the one returned by an upload
+ * @param filename - Media filename
+ * @param url - Signed or local URL for the file
+ */
+export function primeMediaUrl(filename: string, url: string): void {
+  signed.set(filename, { url, expires: expiryFromUrl(url) });
+  notify();
+  scheduleRefresh();
+}
+
+/**
+ * Drops every cached URL, e.g. when switching to a different server
+ */
+export function clearMediaUrls(): void {
+  signed.clear();
+  retryAfter.clear();
+  queued.clear();
+  notify();
+  requestMediaUrls([...retained.keys()]);
+}
+
+/**
+ * Subscribes to changes in the URL cache
+ * @param listener - Called after URLs are added or refreshed
+ * @returns Unsubscribe function
+ */
+export function subscribeToMediaUrls(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Counter that changes whenever the cache does, for useSyncExternalStore
+ */
+export function getMediaUrlsVersion(): number {
+  return version;
+}
+
+/**
+ * Whether a filename looks like an uploaded media file
+ * @param filename - Last path segment of an image URL
+ */
+export function isMediaFilename(filename: string): boolean {
+  return MEDIA_FILENAME_PATTERN.test(filename);
+}
+
+/**
+ * Finds the uploaded media files referenced by markdown image syntax,
+ * including the poster frames of embedded videos
+ * @param markdown - Markdown content
+ * @returns Unique media filenames in order of appearance
+ */
+export function extractMediaFilenames(markdown: string): string[] {
+  const imageRegex = /!\[.*?\]\(([^)\s]+)(?:\s+"([^"]*)")?\)/g;
+  const filenames: string[] = [];
+  let match;
+
+  while ((match = imageRegex.exec(markdown)) !== null) {
+    const url = match[1];
+    // Extract just the filename (handle both relative and absolute URLs)
+    const filename = url.split("/").pop() || url;
+    if (isMediaFilename(filename)) filenames.push(filename);
+    const { poster } = parseClipTitle(match[2]);
+    if (poster && isMediaFilename(poster)) filenames.push(poster);
+  }
+
+  return [...new Set(filenames)];
+}
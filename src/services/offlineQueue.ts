@@ -0,0 +1,307 @@
+// Offline write queue: entry writes made without a connection are kept in
+// IndexedDB and replayed in order once the device is back online
+import {
+  saveContent,
+  updateEntry,
+  deleteEntry,
+  isApiError,
+  type SaveContentRequest,
+  type UpdateEntryRequest,
+  type Tag,
+} from "./api";
+import { idbDelete, idbGetAll, idbPut } from "../utils/indexedDb";
+import {
+  DEFAULT_PROFILE_ID,
+  getActiveProfile,
+  onActiveProfileChange,
+} from "../utils/serverProfiles";
+
+export type QueuedOperation =
+  | { type: "create"; request: SaveContentRequest }
+  | { type: "update"; entryId: number; request: UpdateEntryRequest }
+  | { type: "delete"; entryId: number };
+
+/**
+ * What the entry looked like in the editor when it was queued, so it can be
+ * shown in the entries list and reopened for conflict resolution
+ */
+export interface QueuedEntrySnapshot {
+  content: string;
+  tags: Tag[];
+  location: Tag | null;
+  createdAt: string;
+}
+
+export interface QueuedWrite {
+  id: string;
+  /** Server profile the write belongs to; older writes predate profiles */
+  profileId?: string;
+  operation: QueuedOperation;
+  snapshot?: QueuedEntrySnapshot;
+  queuedAt: string;
+  status: "pending" | "failed";
+  attempts: number;
+  error?: string;
+}
+
+type Listener = (writes: QueuedWrite[]) => void;
+
+const STORE = "outbox";
+const listeners = new Set<Listener>();
+let replaying: Promise<void> | null = null;
+/** Set when replay is requested during a run, so writes queued meanwhile go too */
+let replayAgain = false;
+
+/**
+ * Whether an error means the write never reached the server and should be
+ * queued rather than reported. A timeout doesn't count: the server may have
+ * stored the write already, and sending it again could duplicate it.
+ * @param error - Error thrown by an API call
+ */
+export function isRetryableOffline(error: unknown): boolean {
+  return isApiError(error) && error.isOffline;
+}
+
+/**
+ * Lists the active server profile's queued writes, oldest first
+ */
+export async function listQueuedWrites(): Promise<QueuedWrite[]> {
+  const activeId = getActiveProfile().id;
+  const writes = await idbGetAll<QueuedWrite>(STORE);
+  return writes
+    .filter((write) => (write.profileId ?? DEFAULT_PROFILE_ID) === activeId)
+    .sort((a, b) => a.id.localeCompare(b.id));
+}
+
+async function notify(): Promise<void> {
+  const writes = await listQueuedWrites();
+  listeners.forEach((listener) => listener(writes));
+}
+
+/**
+ * Subscribes to queue changes
+ * @param listener - Called with the full queue after every change
+ * @returns Unsubscribe function
+ */
+export function subscribeToQueue(listener: Listener): () => void {
+  listeners.add(listener);
+  listQueuedWrites()
+    .then(listener)
+    .catch((error) => console.error("Failed to read offline queue:", error));
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Adds a write to the end of the queue
+ * @param operation - The API call to replay later
+ * @param snapshot - Optional editor state for display and conflict resolution
+ * @returns The queued write
+ */
+export async function enqueueWrite(
+  operation: QueuedOperation,
+  snapshot?: QueuedEntrySnapshot
+): Promise<QueuedWrite> {
+  // Timestamp-prefixed ids keep the store's key order equal to queue order
+  const id = `${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+  const write: QueuedWrite = {
+    id,
+    profileId: getActiveProfile().id,
+    operation,
+    snapshot,
+    queuedAt: new Date().toISOString(),
+    status: "pending",
+    attempts: 0,
+  };
+  await idbPut(STORE, id, write);
+  await notify();
+  return write;
+}
+
+/**
+ * Removes a write without replaying it. Later writes of the same entry that
+ * it held back are replayed.
+ * @param id - Queued write ID
+ */
+export async function discardQueuedWrite(id: string): Promise<void> {
+  await idbDelete(STORE, id);
+  await notify();
+  if (navigator.onLine) replayQueue();
+}
+
+/**
+ * Entry a write targets; creates only have one when they bring their own ID
+ */
+function targetOf(operation: QueuedOperation): number | undefined {
+  return operation.type === "create" ? operation.request.id : operation.entryId;
+}
+
+/**
+ * Whether a new write has to go behind the queue to keep the server's order:
+ * an update or delete waits for any pending write, and every write waits
+ * for queued writes of the same entry
+ */
+function mustWaitForQueue(operation: QueuedOperation, writes: QueuedWrite[]): boolean {
+  const target = targetOf(operation);
+  return writes.some(
+    (write) =>
+      (operation.type !== "create" && write.status === "pending") ||
+      (target !== undefined && targetOf(write.operation) === target)
+  );
+}
+
+async function perform(operation: QueuedOperation): Promise<void> {
+  switch (operation.type) {
+    case "create":
+      await saveContent(operation.request);
+      break;
+    case "update":
+      await updateEntry(operation.entryId, operation.request);
+      break;
+    case "delete":
+      await deleteEntry(operation.entryId);
+      break;
+  }
+}
+
+/**
+ * Sends a write now, or queues it when the device is offline or the
+ * connection drops. While older writes it depends on are still queued, it
+ * is queued behind them and the queue is replayed, so the server sees the
+ * writes in the order they were made.
+ * @param operation - The API call to make
+ * @param snapshot - Editor state kept with the write if it is queued
+ * @param replaces - Queued write this one supersedes, e.g. a rejected write
+ * the user reopened and saved again; it is removed once this one is kept
+ * @returns Whether the write is still queued, and the new entry's ID when a
+ * create was sent right away
+ */
+export async function sendOrQueueWrite(
+  operation: QueuedOperation,
+  snapshot?: QueuedEntrySnapshot,
+  replaces?: string
+): Promise<{ queued: boolean; id?: number }> {
+  const queue = (await listQueuedWrites()).filter((write) => write.id !== replaces);
+  if (navigator.onLine && !mustWaitForQueue(operation, queue)) {
+    try {
+      let id: number | undefined;
+      if (operation.type === "create") {
+        const response = await saveContent(operation.request);
+        if (!response.success) throw new Error("Failed to save content");
+        id = response.id;
+      } else {
+        await perform(operation);
+      }
+      if (replaces) await discardQueuedWrite(replaces);
+      return { queued: false, id };
+    } catch (error) {
+      if (!isRetryableOffline(error)) throw error;
+    }
+  }
+
+  const write = await enqueueWrite(operation, snapshot);
+  if (replaces) await discardQueuedWrite(replaces);
+  if (!navigator.onLine) return { queued: true };
+  await replayQueue();
+  const queued = (await listQueuedWrites()).some((w) => w.id === write.id);
+  return { queued };
+}
+
+async function runReplay(): Promise<void> {
+  const profileId = getActiveProfile().id;
+  const writes = await listQueuedWrites();
+  // Entries with a rejected write: their later writes wait until the user
+  // retries or discards it, so they never land before it
+  const held = new Set<number>();
+
+  for (const write of writes) {
+    // Switched servers mid-replay: the rest belongs to the previous profile
+    if (getActiveProfile().id !== profileId) break;
+    const target = targetOf(write.operation);
+    if (write.status !== "pending") {
+      if (target !== undefined) held.add(target);
+      continue;
+    }
+    if (target !== undefined && held.has(target)) continue;
+
+    try {
+      await perform(write.operation);
+      await idbDelete(STORE, write.id);
+    } catch (error) {
+      if (isRetryableOffline(error)) {
+        // Still offline: keep this and everything after it for the next attempt
+        break;
+      }
+      // The server rejected the write; hand it back to the user
+      await idbPut<QueuedWrite>(STORE, write.id, {
+        ...write,
+        status: "failed",
+        attempts: write.attempts + 1,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      if (target !== undefined) held.add(target);
+    }
+    await notify();
+  }
+}
+
+/**
+ * Replays pending writes in order. Concurrent calls share one run, which
+ * goes over the queue again if it was asked to while running.
+ */
+export function replayQueue(): Promise<void> {
+  if (replaying) {
+    replayAgain = true;
+    return replaying;
+  }
+  replaying = (async () => {
+    do {
+      replayAgain = false;
+      await runReplay();
+    } while (replayAgain);
+  })()
+    .catch((error) => console.error("Offline queue replay failed:", error))
+    .finally(() => {
+      replaying = null;
+    });
+  return replaying;
+}
+
+/**
+ * Moves a failed write back to pending and replays the queue
+ * @param id - Queued write ID
+ */
+export async function retryQueuedWrite(id: string): Promise<void> {
+  const write = (await listQueuedWrites()).find((w) => w.id === id);
+  if (!write) return;
+  await idbPut<QueuedWrite>(STORE, id, {
+    ...write,
+    status: "pending",
+    error: undefined,
+  });
+  await notify();
+  await replayQueue();
+}
+
+/**
+ * Replays the queue now, every time the browser comes back online and
+ * whenever another server profile becomes active
+ * @returns Cleanup function that stops listening
+ */
+export function startOfflineSync(): () => void {
+  const handleOnline = () => {
+    replayQueue();
+  };
+  window.addEventListener("online", handleOnline);
+  const stopWatchingProfile = onActiveProfileChange(() => {
+    notify()
+      .then(() => (navigator.onLine ? replayQueue() : undefined))
+      .catch((error) => console.error("Failed to read offline queue:", error));
+  });
+  if (navigator.onLine) replayQueue();
+  return () => {
+    window.removeEventListener("online", handleOnline);
+    stopWatchingProfile();
+  };
+}
@@ -0,0 +1,44 @@
+// Cached read helpers built on the query cache
+import { searchTagSuggestions, getLatestLocation, type Tag } from "./api";
+import { fetchQuery } from "./queryCache";
+import { queryKeys } from "./queryKeys";
+import { loadTemplates, type LoadedTemplates } from "./templates";
+
+/**
+ * Tag suggestions change rarely; don't refetch them on every keystroke
+ */
+const SUGGESTIONS_STALE_MS = 60_000;
+
+/**
+ * Searches tag suggestions through the cache
+ * @param query - Search query for tag name or search hint
+ * @param type - Optional tag type filter
+ * @returns Promise with array of matching tags
+ */
+export function searchTagSuggestionsCached(
+  query: string,
+  type?: string
+): Promise<Tag[]> {
+  if (!query || query.trim() === "") return Promise.resolve([]);
+  return fetchQuery(
+    queryKeys.tagSuggestions(query, type),
+    () => searchTagSuggestions(query, type),
+    { staleTime: SUGGESTIONS_STALE_MS }
+  );
+}
+
+/**
+ * Gets the most recently used location tag through the cache
+ * @returns Promise with the most recent location tag or null
+ */
+export function getLatestLocationCached(): Promise<Tag | null> {
+  return fetchQuery(queryKeys.latestLocation(), () => getLatestLocation());
+}
+
+/**
+ * Loads the entry templates through the cache
+ * @returns Promise with the templates and where they are kept
+ */
+export function loadTemplatesCached(): Promise<LoadedTemplates> {
+  return fetchQuery(queryKeys.templates(), () => loadTemplates());
+}
@@ -0,0 +1,230 @@
+/**
+ * Client-side stale-while-revalidate cache for API reads.
+ * Entries are keyed by an array such as ["entry", 12] or ["tags"]; cached
+ * data is served instantly while a fresh copy is fetched in the background.
+ */
+
+export type QueryKey = ReadonlyArray<unknown>;
+
+export interface QueryState<T> {
+  data: T | undefined;
+  error: unknown;
+  updatedAt: number;
+  isFetching: boolean;
+  /** Set by invalidation; the next read refetches regardless of age */
+  isInvalidated: boolean;
+}
+
+export interface FetchQueryOptions {
+  /** How long data counts as fresh, in milliseconds */
+  staleTime?: number;
+}
+
+interface CacheRecord {
+  key: QueryKey;
+  state: QueryState<unknown>;
+  promise: Promise<unknown> | null;
+  listeners: Set<() => void>;
+  lastAccess: number;
+  /** Bumped by clearQueryCache so in-flight results from before are dropped */
+  generation: number;
+}
+
+/**
+ * Upper bound on cached keys; the least recently used unobserved ones go first
+ */
+const MAX_ENTRIES = 200;
+
+const cache = new Map<string, CacheRecord>();
+
+/**
+ * Serializes a query key into the string used for cache lookups
+ * @param key - Query key
+ */
+export function hashQueryKey(key: QueryKey): string {
+  return JSON.stringify(key);
+}
+
+function initialState(): QueryState<unknown> {
+  return {
+    data: undefined,
+    error: undefined,
+    updatedAt: 0,
+    isFetching: false,
+    isInvalidated: false,
+  };
+}
+
+function getRecord(key: QueryKey): CacheRecord {
+  const hash = hashQueryKey(key);
+  let record = cache.get(hash);
+  if (!record) {
+    record = {
+      key,
+      state: initialState(),
+      promise: null,
+      listeners: new Set(),
+      lastAccess: Date.now(),
+      generation: 0,
+    };
+    cache.set(hash, record);
+    evict();
+  }
+  record.lastAccess = Date.now();
+  return record;
+}
+
+function evict(): void {
+  if (cache.size <= MAX_ENTRIES) return;
+  const idle = [...cache.entries()]
+    .filter(([, record]) => record.listeners.size === 0 && !record.promise)
+    .sort(([, a], [, b]) => a.lastAccess - b.lastAccess);
+  for (const [hash] of idle.slice(0, cache.size - MAX_ENTRIES)) {
+    cache.delete(hash);
+  }
+}
+
+function setState(record: CacheRecord, patch: Partial<QueryState<unknown>>): void {
+  // Replace rather than mutate so subscribers get a new snapshot
+  record.state = { ...record.state, ...patch };
+  record.listeners.forEach((listener) => listener());
+}
+
+function isStale(state: QueryState<unknown>, staleTime: number): boolean {
+  return (
+    state.isInvalidated ||
+    state.updatedAt === 0 ||
+    Date.now() - state.updatedAt > staleTime
+  );
+}
+
+function runFetch<T>(record: CacheRecord, fetcher: () => Promise<T>): Promise<T> {
+  if (record.promise) return record.promise as Promise<T>;
+
+  const generation = record.generation;
+  setState(record, { isFetching: true });
+  const promise = fetcher()
+    .then((data) => {
+      if (record.generation !== generation) return data;
+      setState(record, {
+        data,
+        error: undefined,
+        updatedAt: Date.now(),
+        isFetching: false,
+        isInvalidated: false,
+      });
+      return data;
+    })
+    .catch((error) => {
+      if (record.generation === generation) {
+        setState(record, { error, isFetching: false });
+      }
+      throw error;
+    })
+    .finally(() => {
+      if (record.promise === promise) record.promise = null;
+    });
+  record.promise = promise;
+  return promise;
+}
+
+/**
+ * Reads a query through the cache.
+ * Fresh data is returned as-is; stale data is returned immediately while a
+ * background refetch runs; missing data is fetched and awaited. Concurrent
+ * calls for the same key share one request.
+ * @param key - Query key
+ * @param fetcher - Loads the data when the cache can't serve it
+ * @param options - Freshness options
+ * @returns Promise with the data
+ */
+export function fetchQuery<T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>,
+  options: FetchQueryOptions = {}
+): Promise<T> {
+  const { staleTime = 0 } = options;
+  const record = getRecord(key);
+  const { state } = record;
+
+  if (state.updatedAt === 0) {
+    return runFetch(record, fetcher);
+  }
+  if (isStale(state, staleTime)) {
+    runFetch(record, fetcher).catch(() => {
+      // Background revalidation errors are kept on the query state
+    });
+  }
+  return Promise.resolve(state.data as T);
+}
+
+/**
+ * Returns the current state of a query without fetching
+ * @param key - Query key
+ */
+export function getQueryState<T>(key: QueryKey): QueryState<T> {
+  return getRecord(key).state as QueryState<T>;
+}
+
+/**
+ * Writes data into the cache, e.g. after a mutation returns the new record
+ * @param key - Query key
+ * @param data - Data to store
+ */
+export function setQueryData<T>(key: QueryKey, data: T): void {
+  setState(getRecord(key), {
+    data,
+    error: undefined,
+    updatedAt: Date.now(),
+    isInvalidated: false,
+  });
+}
+
+/**
+ * Subscribes to changes of one query
+ * @param key - Query key
+ * @param listener - Called after every state change
+ * @returns Unsubscribe function
+ */
+export function subscribeToQuery(key: QueryKey, listener: () => void): () => void {
+  const record = getRecord(key);
+  record.listeners.add(listener);
+  return () => {
+    record.listeners.delete(listener);
+  };
+}
+
+function matchesPrefix(key: QueryKey, prefix: QueryKey): boolean {
+  return prefix.every(
+    (part, i) => hashQueryKey([part]) === hashQueryKey([key[i]])
+  );
+}
+
+/**
+ * Marks every query whose key starts with `prefix` as stale.
+ * Observed queries are told to revalidate; the rest refetch on next read.
+ * @param prefix - Key prefix, e.g. ["entries"] or ["entry", 12]
+ */
+export function invalidateQueries(prefix: QueryKey): void {
+  cache.forEach((record) => {
+    if (matchesPrefix(record.key, prefix)) {
+      setState(record, { isInvalidated: true });
+    }
+  });
+}
+
+/**
+ * Drops every cached query, e.g. when switching to a different server
+ */
+export function clearQueryCache(): void {
+  cache.forEach((record, hash) => {
+    record.generation++;
+    record.promise = null;
+    if (record.listeners.size === 0) {
+      cache.delete(hash);
+    } else {
+      // Observed queries stay registered and refetch from scratch
+      setState(record, initialState());
+    }
+  });
+}
@@ -0,0 +1,26 @@
+// Query cache keys, shared by readers and by the mutations that invalidate them
+import type { SearchEntriesOptions } from "./api";
+
+/**
+ * Every cached query key, grouped so mutations can invalidate by prefix
+ */
+export const queryKeys = {
+  tags: () => ["tags"] as const,
+  tagSuggestions: (query: string, type?: string) =>
+    ["tags", "suggestions", query.trim().toLowerCase(), type ?? null] as const,
+  latestLocation: () => ["tags", "latest-location"] as const,
+  entries: (search?: SearchEntriesOptions) =>
+    search
+      ? ([
+          "entries",
+          search.query?.trim() || "",
+          [...(search.tagIds ?? [])].sort((a, b) => a - b),
+          search.page ?? 1,
+          search.pageSize ?? 10,
+        ] as const)
+      : (["entries"] as const),
+  entry: (id: number) => ["entry", id] as const,
+  entryRevisions: (id: number) => ["entry", id, "revisions"] as const,
+  themes: () => ["themes"] as const,
+  templates: () => ["templates"] as const,
+};
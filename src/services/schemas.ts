@@ -0,0 +1,420 @@
+// Runtime validation of API responses
+import type {
+  Entry,
+  EntryRevision,
+  EntryTemplate,
+  FetchEntriesResponse,
+  SignedUrlResponse,
+  Summary,
+  SummaryCount,
+  SummaryHighlight,
+  Tag,
+  Theme,
+  ThemeColors,
+  ThemeConfig,
+  ThemeExport,
+  ThemeFormatting,
+  ThemeTypography,
+} from "./api";
+
+/**
+ * Thrown when a response doesn't match the expected shape.
+ * `path` names the offending field, e.g. "entries[3].createdAt".
+ */
+export class SchemaError extends Error {
+  readonly path: string;
+  readonly expected: string;
+
+  constructor(path: string, expected: string, received: unknown) {
+    super(`${path || "response"} should be ${expected} (got ${describe(received)})`);
+    this.name = "SchemaError";
+    this.path = path;
+    this.expected = expected;
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function at(path: string, key: string | number): string {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+// ---- Primitive readers ----
+
+function asObject(value: unknown, path: string): Record<string, unknown> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new SchemaError(path, "an object", value);
+  }
+  return value as Record<string, unknown>;
+}
+
+function asArray<T>(
+  value: unknown,
+  path: string,
+  item: (value: unknown, path: string) => T
+): T[] {
+  if (!Array.isArray(value)) throw new SchemaError(path, "an array", value);
+  return value.map((element, i) => item(element, at(path, i)));
+}
+
+function asString(value: unknown, path: string): string {
+  if (typeof value !== "string") throw new SchemaError(path, "a string", value);
+  return value;
+}
+
+function asNumber(value: unknown, path: string): number {
+  if (typeof value !== "number" || Number.isNaN(value)) {
+    throw new SchemaError(path, "a number", value);
+  }
+  return value;
+}
+
+function asNumberOrString(value: unknown, path: string): number | string {
+  if (typeof value === "number" || typeof value === "string") return value;
+  throw new SchemaError(path, "a string or number", value);
+}
+
+function asBoolean(value: unknown, path: string): boolean {
+  if (typeof value !== "boolean") throw new SchemaError(path, "a boolean", value);
+  return value;
+}
+
+/**
+ * Reads an optional field; undefined and null both count as missing
+ */
+function optional<T>(
+  value: unknown,
+  path: string,
+  read: (value: unknown, path: string) => T
+): T | undefined {
+  return value === undefined || value === null ? undefined : read(value, path);
+}
+
+// ---- Tags ----
+
+function readTag(value: unknown, path: string): Tag {
+  const raw = asObject(value, path);
+  const tag: Tag = {
+    id: asNumber(raw.id, at(path, "id")),
+    name: asString(raw.name, at(path, "name")),
+    // Entries embed tags as { id, name } only; fill in the rest
+    searchHint: optional(raw.searchHint, at(path, "searchHint"), asString) ?? "",
+    type: optional(raw.type, at(path, "type"), asString) ?? "tag",
+    config: optional(raw.config, at(path, "config"), asObject) ?? {},
+  };
+  const lastUsed = optional(raw.lastUsed, at(path, "lastUsed"), asString);
+  if (lastUsed !== undefined) tag.lastUsed = lastUsed;
+  if (raw.parent !== undefined) {
+    tag.parent = optional(raw.parent, at(path, "parent"), readTag) ?? null;
+  }
+  if (raw.children !== undefined) {
+    tag.children = optional(raw.children, at(path, "children"), (v, p) =>
+      asArray(v, p, readTag)
+    );
+  }
+  return tag;
+}
+
+/**
+ * Turns a full or partial tag object (such as the `{ id, name }` tags
+ * embedded in entries) into a complete Tag
+ * @param value - Tag-like object
+ * @throws SchemaError if id or name is missing
+ */
+export function normalizeTag(value: unknown): Tag {
+  return readTag(value, "");
+}
+
+// ---- Entries ----
+
+function readEntry(value: unknown, path: string): Entry {
+  const raw = asObject(value, path);
+  return {
+    id: asNumber(raw.id, at(path, "id")),
+    content: asString(raw.content, at(path, "content")),
+    searchHint: optional(raw.searchHint, at(path, "searchHint"), asString) ?? "",
+    isHighlighted:
+      optional(raw.isHighlighted, at(path, "isHighlighted"), asBoolean) ?? false,
+    mediaPaths:
+      optional(raw.mediaPaths, at(path, "mediaPaths"), (v, p) =>
+        asArray(v, p, asString)
+      ) ?? [],
+    location: optional(raw.location, at(path, "location"), readTag) ?? null,
+    createdAt: asString(raw.createdAt, at(path, "createdAt")),
+    tags:
+      optional(raw.tags, at(path, "tags"), (v, p) => asArray(v, p, readTag)) ??
+      [],
+  };
+}
+
+function readRevision(value: unknown, path: string): EntryRevision {
+  const raw = asObject(value, path);
+  return {
+    id: asNumber(raw.id, at(path, "id")),
+    entryId: asNumber(raw.entryId, at(path, "entryId")),
+    content: asString(raw.content, at(path, "content")),
+    tags:
+      optional(raw.tags, at(path, "tags"), (v, p) => asArray(v, p, readTag)) ?? [],
+    location: optional(raw.location, at(path, "location"), readTag) ?? null,
+    mediaPaths:
+      optional(raw.mediaPaths, at(path, "mediaPaths"), (v, p) => asArray(v, p, asString)) ??
+      [],
+    createdAt: asString(raw.createdAt, at(path, "createdAt")),
+  };
+}
+
+// ---- Themes ----
+
+const THEME_COLOR_KEYS = [
+  "text",
+  "secondary",
+  "tertiary",
+  "background",
+  "paper",
+  "border",
+  "accent",
+  "error",
+  "success",
+] as const;
+
+const EXPORT_PAGE_SIZES = ["A4", "A5", "Letter"] as const;
+
+function readThemeColors(value: unknown, path: string): ThemeColors {
+  const raw = asObject(value, path);
+  const colors = {} as ThemeColors;
+  THEME_COLOR_KEYS.forEach((key) => {
+    colors[key] = asString(raw[key], at(path, key));
+  });
+  return colors;
+}
+
+function readThemeTypography(value: unknown, path: string): ThemeTypography {
+  const raw = asObject(value, path);
+  return {
+    fontFamily: asString(raw.fontFamily, at(path, "fontFamily")),
+    fontSize: asString(raw.fontSize, at(path, "fontSize")),
+    lineHeight: asNumber(raw.lineHeight, at(path, "lineHeight")),
+    headingFont: asString(raw.headingFont, at(path, "headingFont")),
+  };
+}
+
+function readThemeFormatting(value: unknown, path: string): ThemeFormatting {
+  const raw = asObject(value, path);
+  return {
+    dateFormat: asString(raw.dateFormat, at(path, "dateFormat")),
+    timeFormat: asString(raw.timeFormat, at(path, "timeFormat")),
+    locale: asString(raw.locale, at(path, "locale")),
+  };
+}
+
+function readThemeExport(value: unknown, path: string): ThemeExport {
+  const raw = asObject(value, path);
+  const pageSize = asString(raw.pageSize, at(path, "pageSize"));
+  if (!(EXPORT_PAGE_SIZES as readonly string[]).includes(pageSize)) {
+    throw new SchemaError(at(path, "pageSize"), EXPORT_PAGE_SIZES.join(" | "), pageSize);
+  }
+  const marginsPath = at(path, "margins");
+  const margins = asObject(raw.margins, marginsPath);
+  return {
+    pageSize: pageSize as ThemeExport["pageSize"],
+    fontFamily: asString(raw.fontFamily, at(path, "fontFamily")),
+    fontSize: asString(raw.fontSize, at(path, "fontSize")),
+    lineHeight: asNumber(raw.lineHeight, at(path, "lineHeight")),
+    margins: {
+      top: asNumber(margins.top, at(marginsPath, "top")),
+      right: asNumber(margins.right, at(marginsPath, "right")),
+      bottom: asNumber(margins.bottom, at(marginsPath, "bottom")),
+      left: asNumber(margins.left, at(marginsPath, "left")),
+    },
+    showTags: asBoolean(raw.showTags, at(path, "showTags")),
+    showLocation: asBoolean(raw.showLocation, at(path, "showLocation")),
+  };
+}
+
+function readThemeConfig(value: unknown, path: string): ThemeConfig {
+  const raw = asObject(value, path);
+  return {
+    colors: readThemeColors(raw.colors, at(path, "colors")),
+    darkColors: readThemeColors(raw.darkColors, at(path, "darkColors")),
+    typography: readThemeTypography(raw.typography, at(path, "typography")),
+    formatting: readThemeFormatting(raw.formatting, at(path, "formatting")),
+    export: readThemeExport(raw.export, at(path, "export")),
+  };
+}
+
+function readTheme(value: unknown, path: string): Theme {
+  const raw = asObject(value, path);
+  return {
+    id: asNumber(raw.id, at(path, "id")),
+    name: asString(raw.name, at(path, "name")),
+    config: readThemeConfig(raw.config, at(path, "config")),
+    isDefault: asBoolean(raw.isDefault, at(path, "isDefault")),
+    createdAt: asString(raw.createdAt, at(path, "createdAt")),
+    updatedAt: asString(raw.updatedAt, at(path, "updatedAt")),
+  };
+}
+
+// ---- Media ----
+
+function readSignedUrl(value: unknown, path: string): SignedUrlResponse {
+  const raw = asObject(value, path);
+  return {
+    url: asString(raw.url, at(path, "url")),
+    signature: optional(raw.signature, at(path, "signature"), asString) ?? "",
+    expires: asNumber(raw.expires, at(path, "expires")),
+    filename: asString(raw.filename, at(path, "filename")),
+  };
+}
+
+// ---- Summaries ----
+
+const SUMMARY_PERIODS = ["week", "month", "year"] as const;
+
+function readCount(value: unknown, path: string): SummaryCount {
+  const raw = asObject(value, path);
+  return {
+    id: asNumber(raw.id, at(path, "id")),
+    name: asString(raw.name, at(path, "name")),
+    count: asNumber(raw.count, at(path, "count")),
+  };
+}
+
+function readHighlight(value: unknown, path: string): SummaryHighlight {
+  const raw = asObject(value, path);
+  return {
+    id: asNumber(raw.id, at(path, "id")),
+    createdAt: asString(raw.createdAt, at(path, "createdAt")),
+    excerpt: optional(raw.excerpt, at(path, "excerpt"), asString) ?? "",
+  };
+}
+
+function readSummary(value: unknown, path: string): Summary {
+  const raw = asObject(value, path);
+  const period = asString(raw.period, at(path, "period"));
+  if (!(SUMMARY_PERIODS as readonly string[]).includes(period)) {
+    throw new SchemaError(at(path, "period"), SUMMARY_PERIODS.join(" | "), period);
+  }
+  const list = <T>(key: string, read: (value: unknown, path: string) => T) =>
+    optional(raw[key], at(path, key), (v, p) => asArray(v, p, read)) ?? [];
+  return {
+    id: optional(raw.id, at(path, "id"), asNumber) ?? null,
+    period: period as Summary["period"],
+    startDate: asString(raw.startDate, at(path, "startDate")),
+    endDate: asString(raw.endDate, at(path, "endDate")),
+    entryCount: asNumber(raw.entryCount, at(path, "entryCount")),
+    topTags: list("topTags", readCount),
+    topLocations: list("topLocations", readCount),
+    highlights: list("highlights", readHighlight),
+    recap: optional(raw.recap, at(path, "recap"), asString) ?? "",
+    updatedAt: optional(raw.updatedAt, at(path, "updatedAt"), asString),
+  };
+}
+
+// ---- Templates ----
+
+function readWeekday(value: unknown, path: string): number {
+  const day = asNumber(value, path);
+  if (!Number.isInteger(day) || day < 0 || day > 6) {
+    throw new SchemaError(path, "a weekday from 0 to 6", value);
+  }
+  return day;
+}
+
+function readTemplate(value: unknown, path: string): EntryTemplate {
+  const raw = asObject(value, path);
+  return {
+    id: asNumber(raw.id, at(path, "id")),
+    name: asString(raw.name, at(path, "name")),
+    content: optional(raw.content, at(path, "content"), asString) ?? "",
+    tags:
+      optional(raw.tags, at(path, "tags"), (v, p) => asArray(v, p, readTag)) ?? [],
+    location: optional(raw.location, at(path, "location"), readTag) ?? null,
+    defaultWeekdays:
+      optional(raw.defaultWeekdays, at(path, "defaultWeekdays"), (v, p) =>
+        asArray(v, p, readWeekday)
+      ) ?? [],
+    updatedAt: optional(raw.updatedAt, at(path, "updatedAt"), asString),
+  };
+}
+
+// ---- Response parsers passed to apiRequest ----
+
+export const parseEntry = (data: unknown): Entry => readEntry(data, "");
+
+export const parseEntryRevisions = (data: unknown): EntryRevision[] =>
+  asArray(data, "", readRevision);
+
+export const parseTag = (data: unknown): Tag => readTag(data, "");
+
+export const parseTags = (data: unknown): Tag[] => asArray(data, "", readTag);
+
+export const parseTheme = (data: unknown): Theme => readTheme(data, "");
+
+export const parseThemes = (data: unknown): Theme[] =>
+  asArray(data, "", readTheme);
+
+export const parseThemeConfig = (data: unknown): ThemeConfig =>
+  readThemeConfig(data, "");
+
+export const parseSummary = (data: unknown): Summary => readSummary(data, "");
+
+export const parseTemplate = (data: unknown): EntryTemplate => readTemplate(data, "");
+
+export const parseTemplates = (data: unknown): EntryTemplate[] =>
+  asArray(data, "", readTemplate);
+
+export function parseFetchEntriesResponse(data: unknown): FetchEntriesResponse {
+  const raw = asObject(data, "");
+  return {
+    entries: asArray(raw.entries, "entries", readEntry),
+    total: asNumber(raw.total, "total"),
+    page: asNumber(raw.page, "page"),
+    pageSize: asNumber(raw.pageSize, "pageSize"),
+    hasMore: asBoolean(raw.hasMore, "hasMore"),
+  };
+}
+
+export const parseSignedUrl = (data: unknown): SignedUrlResponse =>
+  readSignedUrl(data, "");
+
+export const parseSignedUrls = (data: unknown): SignedUrlResponse[] =>
+  asArray(data, "", readSignedUrl);
+
+export function parseUploadedMedia(data: unknown): {
+  url: string;
+  path: string;
+  id: string;
+  filename?: string;
+} {
+  const raw = asObject(data, "");
+  return {
+    url: asString(raw.url, "url"),
+    path: asString(raw.path, "path"),
+    id: String(asNumberOrString(raw.id, "id")),
+    filename: optional(raw.filename, "filename", asString),
+  };
+}
+
+export function parseUploadSession(data: unknown): {
+  uploadId: string;
+  chunkSize: number;
+  receivedChunks: number[];
+} {
+  const raw = asObject(data, "");
+  return {
+    uploadId: String(asNumberOrString(raw.uploadId, "uploadId")),
+    chunkSize: asNumber(raw.chunkSize, "chunkSize"),
+    receivedChunks:
+      optional(raw.receivedChunks, "receivedChunks", (v, p) => asArray(v, p, asNumber)) ?? [],
+  };
+}
+
+export function parseMessage(data: unknown): { message: string } {
+  const raw = asObject(data, "");
+  return { message: optional(raw.message, "message", asString) ?? "" };
+}
@@ -0,0 +1,119 @@
+// Loads period summaries from the server, computing them from entries when
+// the server has none stored
+import {
+  fetchSummary,
+  generateSummary,
+  isApiError,
+  searchEntries,
+  type CallOptions,
+  type Entry,
+  type Summary,
+  type SummaryPeriod,
+} from "./api";
+import { buildSummary, fromDateKey } from "../utils/summaries";
+
+/**
+ * Where a summary shown to the user came from
+ */
+export type SummarySource = "server" | "local";
+
+export interface LoadedSummary {
+  summary: Summary;
+  source: SummarySource;
+}
+
+const LOCAL_PAGE_SIZE = 50;
+
+/**
+ * Pages of recent entries read for a local summary. The entries API can't
+ * filter by date, so periods further back than this are left to the server.
+ */
+const MAX_LOCAL_PAGES = 20;
+
+/**
+ * Collects the entries written since a date. Entries come newest first, so
+ * paging stops at the first page reaching past the start.
+ * @throws Error when the start lies beyond the most recent
+ * MAX_LOCAL_PAGES pages
+ */
+async function fetchEntriesSince(
+  startDate: string,
+  options: CallOptions
+): Promise<Entry[]> {
+  const start = fromDateKey(startDate).getTime();
+  const entries: Entry[] = [];
+  for (let page = 1; page <= MAX_LOCAL_PAGES; page++) {
+    const response = await searchEntries({ page, pageSize: LOCAL_PAGE_SIZE }, options);
+    entries.push(...response.entries);
+    const oldest = response.entries[response.entries.length - 1];
+    if (!response.hasMore || !oldest || new Date(oldest.createdAt).getTime() < start) {
+      return entries;
+    }
+  }
+  throw new Error(
+    "This period is too far back to summarize in the browser, and the server has no summary for it."
+  );
+}
+
+/**
+ * Computes a summary in the browser from the period's entries
+ * @param period - Summary period
+ * @param startDate - Period start in YYYY-MM-DD format
+ * @param options - Optional cancellation and timeout
+ * @returns Promise with an unsaved summary
+ */
+export async function computeLocalSummary(
+  period: SummaryPeriod,
+  startDate: string,
+  options: CallOptions = {}
+): Promise<Summary> {
+  return buildSummary(period, startDate, await fetchEntriesSince(startDate, options));
+}
+
+/**
+ * Loads the stored summary for a period, or computes one locally if the
+ * server has none
+ * @param period - Summary period
+ * @param startDate - Period start in YYYY-MM-DD format
+ * @param options - Optional cancellation and timeout
+ * @returns Promise with the summary and where it came from
+ */
+export async function loadSummary(
+  period: SummaryPeriod,
+  startDate: string,
+  options: CallOptions = {}
+): Promise<LoadedSummary> {
+  const stored = await fetchSummary(period, startDate, options);
+  if (stored) return { summary: stored, source: "server" };
+  return {
+    summary: await computeLocalSummary(period, startDate, options),
+    source: "local",
+  };
+}
+
+/**
+ * Regenerates a period's summary on the server. Servers without the
+ * generate endpoint get a locally computed summary instead, which can still
+ * be saved.
+ * @param period - Summary period
+ * @param startDate - Period start in YYYY-MM-DD format
+ * @param options - Optional cancellation and timeout
+ * @returns Promise with the new summary and where it came from
+ */
+export async function regenerateSummary(
+  period: SummaryPeriod,
+  startDate: string,
+  options: CallOptions = {}
+): Promise<LoadedSummary> {
+  try {
+    return { summary: await generateSummary(period, startDate, options), source: "server" };
+  } catch (error) {
+    const unsupported =
+      isApiError(error) && (error.isNotFound || error.status === 405);
+    if (!unsupported) throw error;
+    return {
+      summary: await computeLocalSummary(period, startDate, options),
+      source: "local",
+    };
+  }
+}
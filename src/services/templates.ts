@@ -0,0 +1,159 @@
+// Entry templates, stored on the server or, for servers without the
+// templates endpoints, in this browser. The last list loaded from the server
+// is kept too, so templates can be used offline.
+import {
+  createTemplate,
+  deleteTemplate,
+  fetchTemplates,
+  isApiError,
+  updateTemplate,
+  type CallOptions,
+  type EntryTemplate,
+  type TemplateRequest,
+} from "./api";
+import { invalidateQueries } from "./queryCache";
+import { queryKeys } from "./queryKeys";
+import { getActiveProfile } from "../utils/serverProfiles";
+
+/**
+ * Where the templates shown to the user are kept
+ */
+export type TemplateSource = "server" | "local";
+
+export interface LoadedTemplates {
+  templates: EntryTemplate[];
+  source: TemplateSource;
+}
+
+/**
+ * A template as edited in the form, before it has an ID
+ */
+export type TemplateFields = Omit<EntryTemplate, "id" | "updatedAt">;
+
+const STORAGE_KEY_PREFIX = "life-log-templates";
+const SERVER_COPY_KEY_PREFIX = "life-log-server-templates";
+
+function storageKey(): string {
+  return `${STORAGE_KEY_PREFIX}:${getActiveProfile().id}`;
+}
+
+function serverCopyKey(): string {
+  return `${SERVER_COPY_KEY_PREFIX}:${getActiveProfile().id}`;
+}
+
+function readStoredTemplates(key: string): EntryTemplate[] | null {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as EntryTemplate[]) : null;
+  } catch {
+    return null;
+  }
+}
+
+function readLocalTemplates(): EntryTemplate[] {
+  return readStoredTemplates(storageKey()) ?? [];
+}
+
+function writeLocalTemplates(templates: EntryTemplate[]): void {
+  localStorage.setItem(storageKey(), JSON.stringify(templates));
+}
+
+function writeServerCopy(templates: EntryTemplate[]): void {
+  try {
+    localStorage.setItem(serverCopyKey(), JSON.stringify(templates));
+  } catch (error) {
+    console.error("Failed to keep templates offline:", error);
+  }
+}
+
+function toRequest(fields: TemplateFields): TemplateRequest {
+  return {
+    name: fields.name,
+    content: fields.content,
+    tagIds: fields.tags.map((tag) => tag.id),
+    locationId: fields.location?.id ?? null,
+    defaultWeekdays: fields.defaultWeekdays,
+  };
+}
+
+function byName(a: EntryTemplate, b: EntryTemplate): number {
+  return a.name.localeCompare(b.name);
+}
+
+/**
+ * Loads the templates from the server, or the ones kept in this browser if
+ * the server has no templates endpoint. When the server can't be reached,
+ * the copy from the last successful load is used instead.
+ * @param options - Optional cancellation and timeout
+ * @returns Promise with the templates sorted by name and where they are kept
+ */
+export async function loadTemplates(options: CallOptions = {}): Promise<LoadedTemplates> {
+  try {
+    const templates = await fetchTemplates(options);
+    writeServerCopy(templates);
+    return { templates: templates.sort(byName), source: "server" };
+  } catch (error) {
+    if (!isApiError(error)) throw error;
+    if (error.isOffline || error.kind === "timeout") {
+      const serverCopy = readStoredTemplates(serverCopyKey());
+      if (serverCopy) return { templates: serverCopy.sort(byName), source: "server" };
+    } else if (!error.isNotFound && error.status !== 405) {
+      throw error;
+    }
+    return { templates: readLocalTemplates().sort(byName), source: "local" };
+  }
+}
+
+/**
+ * Creates or updates a template where the templates are kept
+ * @param fields - Template fields
+ * @param id - Template to update; null creates one
+ * @param source - Where the templates are kept, as reported by loadTemplates
+ * @returns Promise with the stored template
+ */
+export async function saveTemplate(
+  fields: TemplateFields,
+  id: number | null,
+  source: TemplateSource
+): Promise<EntryTemplate> {
+  let saved: EntryTemplate;
+  if (source === "server") {
+    saved =
+      id === null
+        ? await createTemplate(toRequest(fields))
+        : await updateTemplate(id, toRequest(fields));
+  } else {
+    saved = { ...fields, id: id ?? Date.now(), updatedAt: new Date().toISOString() };
+    const others = readLocalTemplates().filter((template) => template.id !== id);
+    writeLocalTemplates([...others, saved]);
+  }
+  invalidateQueries(queryKeys.templates());
+  return saved;
+}
+
+/**
+ * Deletes a template where the templates are kept
+ * @param id - Template ID
+ * @param source - Where the templates are kept, as reported by loadTemplates
+ */
+export async function removeTemplate(id: number, source: TemplateSource): Promise<void> {
+  if (source === "server") {
+    await deleteTemplate(id);
+  } else {
+    writeLocalTemplates(readLocalTemplates().filter((template) => template.id !== id));
+  }
+  invalidateQueries(queryKeys.templates());
+}
+
+/**
+ * The template new entries start from on a date's weekday
+ * @param templates - All templates
+ * @param date - Day of the new entry
+ * @returns The first template set as default for that weekday, if any
+ */
+export function defaultTemplateFor(
+  templates: EntryTemplate[],
+  date: Date
+): EntryTemplate | undefined {
+  return templates.find((template) => template.defaultWeekdays.includes(date.getDay()));
+}
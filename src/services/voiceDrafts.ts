@@ -0,0 +1,152 @@
+// Voice notes are kept in IndexedDB while they are recorded and until they
+// have been uploaded, so a reload or a closed tab doesn't lose them
+import { idbDelete, idbGet, idbGetAll, idbPut } from "../utils/indexedDb";
+
+export interface VoiceDraft {
+  id: string;
+  mimeType: string;
+  /** Recorded data so far, in order; together they form one playable file */
+  chunks: Blob[];
+  durationMs: number;
+  createdAt: string;
+  /** "recording" drafts were interrupted by a reload before they were stopped */
+  status: "recording" | "recorded";
+}
+
+type Listener = (drafts: VoiceDraft[]) => void;
+
+const STORE = "voiceDrafts";
+const listeners = new Set<Listener>();
+// Drafts this tab is still recording, as opposed to ones cut off by a reload
+const recordingHere = new Set<string>();
+
+/**
+ * File extensions by recorder MIME type. WebM audio gets ".weba" so it isn't
+ * mistaken for a video.
+ */
+const EXTENSIONS: Record<string, string> = {
+  "audio/webm": "weba",
+  "audio/ogg": "ogg",
+  "audio/mp4": "m4a",
+  "audio/mpeg": "mp3",
+  "audio/wav": "wav",
+};
+
+/**
+ * Lists saved voice drafts, oldest first
+ */
+export async function listVoiceDrafts(): Promise<VoiceDraft[]> {
+  const drafts = await idbGetAll<VoiceDraft>(STORE);
+  return drafts.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+async function notify(): Promise<void> {
+  const drafts = await listVoiceDrafts();
+  listeners.forEach((listener) => listener(drafts));
+}
+
+/**
+ * Whether this tab is still recording into a draft
+ * @param id - Draft ID
+ */
+export function isRecordingHere(id: string): boolean {
+  return recordingHere.has(id);
+}
+
+/**
+ * Subscribes to draft changes
+ * @param listener - Called with all drafts after every change
+ * @returns Unsubscribe function
+ */
+export function subscribeToVoiceDrafts(listener: Listener): () => void {
+  listeners.add(listener);
+  listVoiceDrafts()
+    .then(listener)
+    .catch((error) => console.error("Failed to read voice drafts:", error));
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Starts a draft for a new recording
+ * @param mimeType - MIME type the recorder produces
+ * @returns The new, empty draft
+ */
+export async function createVoiceDraft(mimeType: string): Promise<VoiceDraft> {
+  const draft: VoiceDraft = {
+    id: `${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+    mimeType,
+    chunks: [],
+    durationMs: 0,
+    createdAt: new Date().toISOString(),
+    status: "recording",
+  };
+  await idbPut(STORE, draft.id, draft);
+  recordingHere.add(draft.id);
+  await notify();
+  return draft;
+}
+
+/**
+ * Saves the recording so far. Called for every chunk the recorder emits;
+ * listeners aren't notified until the recording stops.
+ * @param id - Draft ID
+ * @param chunks - All chunks recorded so far
+ * @param durationMs - Recorded time, excluding pauses
+ */
+export async function saveVoiceDraftProgress(
+  id: string,
+  chunks: Blob[],
+  durationMs: number
+): Promise<void> {
+  const draft = await idbGet<VoiceDraft>(STORE, id);
+  if (!draft) return;
+  await idbPut<VoiceDraft>(STORE, id, { ...draft, chunks, durationMs });
+}
+
+/**
+ * Marks a recording as finished
+ * @param id - Draft ID
+ * @param chunks - All recorded chunks
+ * @param durationMs - Recorded time, excluding pauses
+ * @returns The finished draft, or undefined if it was discarded meanwhile
+ */
+export async function finishVoiceDraft(
+  id: string,
+  chunks: Blob[],
+  durationMs: number
+): Promise<VoiceDraft | undefined> {
+  recordingHere.delete(id);
+  const draft = await idbGet<VoiceDraft>(STORE, id);
+  if (!draft) return undefined;
+  const finished: VoiceDraft = { ...draft, chunks, durationMs, status: "recorded" };
+  await idbPut(STORE, id, finished);
+  await notify();
+  return finished;
+}
+
+/**
+ * Removes a draft, e.g. once it has been uploaded
+ * @param id - Draft ID
+ */
+export async function deleteVoiceDraft(id: string): Promise<void> {
+  recordingHere.delete(id);
+  await idbDelete(STORE, id);
+  await notify();
+}
+
+/**
+ * Turns a draft into a file for the media upload pipeline
+ * @param draft - Draft to convert
+ */
+export function voiceDraftFile(draft: VoiceDraft): File {
+  const baseType = draft.mimeType.split(";")[0];
+  const ext = EXTENSIONS[baseType] ?? "weba";
+  const stamp = draft.createdAt.slice(0, 19).replace(/[T:]/g, "-");
+  return new File(draft.chunks, `voice-note-${stamp}.${ext}`, {
+    type: draft.mimeType,
+    // Keeps the file's fingerprint stable so its upload can resume
+    lastModified: new Date(draft.createdAt).getTime(),
+  });
+}
@@ -1,33 +1,26 @@
-import Cookies from 'js-cookie';
-
-const API_KEY_COOKIE_NAME = 'lifelog_api_key';
-const COOKIE_EXPIRY_DAYS = 365; // Store for 1 year
+import { getActiveProfile, saveProfile } from './serverProfiles';
 
 /**
- * Saves the API key to a cookie
+ * Saves the API key on the active server profile
  * @param apiKey - The API key to store
  */
 export function saveApiKey(apiKey: string): void {
-  Cookies.set(API_KEY_COOKIE_NAME, apiKey, {
-    expires: COOKIE_EXPIRY_DAYS,
-    sameSite: 'strict',
-    secure: window.location.protocol === 'https:'
-  });
+  saveProfile({ ...getActiveProfile(), apiKey });
 }
 
 /**
- * Retrieves the API key from the cookie
+ * Retrieves the API key of the active server profile
  * @returns The stored API key or null if not found
  */
 export function getApiKey(): string | null {
-  return Cookies.get(API_KEY_COOKIE_NAME) || null;
+  return getActiveProfile().apiKey || null;
 }
 
 /**
- * Removes the API key from the cookie
+ * Removes the API key from the active server profile
  */
 export function clearApiKey(): void {
-  Cookies.remove(API_KEY_COOKIE_NAME);
+  saveProfile({ ...getActiveProfile(), apiKey: '' });
 }
 
 /**
@@ -0,0 +1,75 @@
+/**
+ * Styles that affect where text wraps and how tall lines are
+ */
+const MIRRORED_PROPERTIES = [
+  'boxSizing',
+  'width',
+  'borderTopWidth',
+  'borderRightWidth',
+  'borderBottomWidth',
+  'borderLeftWidth',
+  'paddingTop',
+  'paddingRight',
+  'paddingBottom',
+  'paddingLeft',
+  'fontFamily',
+  'fontSize',
+  'fontStyle',
+  'fontVariant',
+  'fontWeight',
+  'fontStretch',
+  'lineHeight',
+  'letterSpacing',
+  'wordSpacing',
+  'textIndent',
+  'textTransform',
+  'tabSize',
+] as const;
+
+export interface CaretCoordinates {
+  top: number;
+  left: number;
+  /** Height of the caret's line */
+  height: number;
+}
+
+/**
+ * Finds where a text offset is drawn inside a textarea by laying the text
+ * out again in a hidden copy with the same styles
+ * @param textarea - Textarea to measure
+ * @param offset - Text offset
+ * @returns Position relative to the textarea's border box, after scrolling
+ */
+export function getCaretCoordinates(
+  textarea: HTMLTextAreaElement,
+  offset: number
+): CaretCoordinates {
+  const style = getComputedStyle(textarea);
+  const mirror = document.createElement('div');
+  MIRRORED_PROPERTIES.forEach((property) => {
+    mirror.style[property] = style[property];
+  });
+  mirror.style.position = 'absolute';
+  mirror.style.visibility = 'hidden';
+  mirror.style.top = '0';
+  mirror.style.left = '-9999px';
+  mirror.style.whiteSpace = 'pre-wrap';
+  mirror.style.overflowWrap = 'break-word';
+  mirror.style.overflow = 'hidden';
+
+  mirror.textContent = textarea.value.slice(0, offset);
+  const marker = document.createElement('span');
+  // Something must follow the caret for the span to have a position
+  marker.textContent = textarea.value.slice(offset) || '.';
+  mirror.appendChild(marker);
+
+  document.body.appendChild(mirror);
+  const lineHeight = parseFloat(style.lineHeight) || parseFloat(style.fontSize) * 1.2;
+  const coordinates = {
+    top: marker.offsetTop - textarea.scrollTop,
+    left: marker.offsetLeft - textarea.scrollLeft,
+    height: lineHeight,
+  };
+  document.body.removeChild(mirror);
+  return coordinates;
+}
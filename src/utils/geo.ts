@@ -0,0 +1,105 @@
+/**
+ * Coordinates on location tags and distances between them and the device.
+ * A location tag's config holds `latitude`, `longitude` and an optional
+ * `radius` in meters, next to its colors.
+ */
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface PlaceArea extends Coordinates {
+  /** How far from the point still counts as being there, in meters */
+  radius: number;
+}
+
+/**
+ * Radius of a place whose config has coordinates but no radius
+ */
+export const DEFAULT_PLACE_RADIUS_M = 150;
+
+const EARTH_RADIUS_M = 6_371_000;
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Reads the area stored in a location tag's config
+ * @param config - Tag config
+ * @returns The area, or null when the config has no valid coordinates
+ */
+export function readPlaceArea(config: Record<string, unknown> | undefined): PlaceArea | null {
+  if (!config) return null;
+  const { latitude, longitude, radius } = config;
+  if (!isFiniteNumber(latitude) || !isFiniteNumber(longitude)) return null;
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  return {
+    latitude,
+    longitude,
+    radius: isFiniteNumber(radius) && radius > 0 ? radius : DEFAULT_PLACE_RADIUS_M,
+  };
+}
+
+/**
+ * Config fields that store an area on a location tag
+ * @param coordinates - Center of the place
+ * @param radius - Radius in meters
+ */
+export function placeAreaConfig(
+  coordinates: Coordinates,
+  radius: number = DEFAULT_PLACE_RADIUS_M
+): PlaceArea {
+  return {
+    // About 1 m of precision is plenty for a place
+    latitude: Math.round(coordinates.latitude * 1e5) / 1e5,
+    longitude: Math.round(coordinates.longitude * 1e5) / 1e5,
+    radius,
+  };
+}
+
+/**
+ * Great-circle distance between two points
+ * @returns Distance in meters
+ */
+export function distanceMeters(a: Coordinates, b: Coordinates): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Formats a distance for display, e.g. "80 m" or "2.4 km"
+ */
+export function formatDistance(meters: number): string {
+  if (meters < 1000) return `${Math.round(meters / 10) * 10} m`;
+  return `${(meters / 1000).toFixed(meters < 10_000 ? 1 : 0)} km`;
+}
+
+/**
+ * Asks the browser where the device is
+ * @param timeoutMs - How long to wait for a fix
+ * @returns The position, or null when it is unavailable or not allowed
+ */
+export function getCurrentCoordinates(timeoutMs = 10_000): Promise<Coordinates | null> {
+  if (typeof navigator === 'undefined' || !navigator.geolocation) {
+    return Promise.resolve(null);
+  }
+  return new Promise((resolve) => {
+    navigator.geolocation.getCurrentPosition(
+      (position) =>
+        resolve({
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+        }),
+      () => resolve(null),
+      // A fix from the last few minutes is as good as a new one
+      { enableHighAccuracy: false, timeout: timeoutMs, maximumAge: 5 * 60_000 }
+    );
+  });
+}
@@ -176,3 +176,13 @@ export async function processImages(
 
   return processed;
 }
+
+/**
+ * Formats a byte count for display, e.g. "1.4 MB"
+ * @param bytes - Size in bytes
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
@@ -0,0 +1,94 @@
+/**
+ * Minimal promise wrapper around the app's IndexedDB database.
+ * Every object store lives in one database; add new stores to STORES
+ * and bump DB_VERSION so existing installs create them on upgrade.
+ */
+
+const DB_NAME = "life-log";
+const DB_VERSION = 4;
+
+const STORES = ["outbox", "uploads", "voiceDrafts", "entryDrafts"] as const;
+
+export type StoreName = (typeof STORES)[number];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and upgrades when needed) the shared database
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      STORES.forEach((store) => {
+        if (!db.objectStoreNames.contains(store)) {
+          db.createObjectStore(store);
+        }
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+/**
+ * Runs a single request against a store inside its own transaction
+ */
+async function withStore<T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  run: (objectStore: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const request = run(tx.objectStore(store));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/**
+ * Reads one record
+ * @param store - Object store name
+ * @param key - Record key
+ * @returns The stored value or undefined
+ */
+export function idbGet<T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  return withStore<T | undefined>(store, "readonly", (s) => s.get(key));
+}
+
+/**
+ * Reads every record in a store, ordered by key
+ * @param store - Object store name
+ */
+export function idbGetAll<T>(store: StoreName): Promise<T[]> {
+  return withStore<T[]>(store, "readonly", (s) => s.getAll());
+}
+
+/**
+ * Inserts or replaces a record
+ * @param store - Object store name
+ * @param key - Record key
+ * @param value - Value to store (must be structured-cloneable)
+ */
+export async function idbPut<T>(store: StoreName, key: IDBValidKey, value: T): Promise<void> {
+  await withStore(store, "readwrite", (s) => s.put(value, key));
+}
+
+/**
+ * Removes a record
+ * @param store - Object store name
+ * @param key - Record key
+ */
+export async function idbDelete(store: StoreName, key: IDBValidKey): Promise<void> {
+  await withStore(store, "readwrite", (s) => s.delete(key));
+}
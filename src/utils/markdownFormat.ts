@@ -0,0 +1,310 @@
+/**
+ * Text edits behind the editor's formatting buttons and shortcuts. Each one
+ * takes the textarea's value and selection and returns the new ones, and
+ * toggles: applying it again to formatted text removes the formatting.
+ *
+ * Lines may end in the two spaces convertToMarkdownLineBreaks adds for hard
+ * breaks; inline markers are placed inside that whitespace and line prefixes
+ * leave line ends alone, so the breaks survive formatting.
+ */
+
+export type FormatAction =
+  | 'bold'
+  | 'italic'
+  | 'strikethrough'
+  | 'code'
+  | 'heading'
+  | 'quote'
+  | 'bulletList'
+  | 'numberedList'
+  | 'taskList';
+
+export interface TextSelection {
+  text: string;
+  start: number;
+  end: number;
+}
+
+const INLINE_MARKERS = {
+  bold: '**',
+  // Underscores, so italic can't be confused with half of a bold marker
+  italic: '_',
+  strikethrough: '~~',
+  code: '`',
+} as const;
+
+const FENCE = '```';
+
+const MAX_HEADING_LEVEL = 3;
+
+type LinePrefix = 'quote' | 'bulletList' | 'numberedList' | 'taskList';
+
+const LINE_PATTERNS: Record<LinePrefix | 'heading', RegExp> = {
+  quote: /^> ?/,
+  bulletList: /^(\s*)[-*+] (?!\[[ xX]\] )/,
+  numberedList: /^(\s*)\d+[.)] /,
+  taskList: /^(\s*)[-*+] \[[ xX]\] /,
+  heading: /^#{1,6} /,
+};
+
+const ANY_LIST = /^(\s*)([-*+] \[[ xX]\] |[-*+] |\d+[.)] )/;
+
+/**
+ * Applies a toolbar action to the selection
+ * @param selection - Current value and selection of the textarea
+ * @param action - Formatting to toggle
+ * @returns The new value and the selection to restore
+ */
+export function applyFormat(selection: TextSelection, action: FormatAction): TextSelection {
+  switch (action) {
+    case 'bold':
+    case 'italic':
+    case 'strikethrough':
+      return toggleInline(selection, INLINE_MARKERS[action]);
+    case 'code':
+      return spansLines(selection)
+        ? toggleFence(selection)
+        : toggleInline(selection, INLINE_MARKERS.code);
+    case 'heading':
+      return cycleHeading(selection);
+    default:
+      return toggleLinePrefix(selection, action);
+  }
+}
+
+/**
+ * Makes the selected lines headings of one level, or plain text again if
+ * they already are
+ * @param selection - Current value and selection of the textarea
+ * @param level - Heading level, 1–6
+ */
+export function setHeading(selection: TextSelection, level: number): TextSelection {
+  const prefix = `${'#'.repeat(level)} `;
+  return mapLines(selection, (lines) => {
+    const nonEmpty = lines.filter((line) => line.trim());
+    const already = nonEmpty.length > 0 && nonEmpty.every((line) => line.startsWith(prefix));
+    return lines.map((line) => {
+      if (!line.trim()) return line;
+      const plain = line.replace(LINE_PATTERNS.heading, '');
+      return already ? plain : prefix + plain;
+    });
+  });
+}
+
+function spansLines({ text, start, end }: TextSelection): boolean {
+  return text.slice(start, end).includes('\n');
+}
+
+function lineStartOf(text: string, index: number): number {
+  return text.lastIndexOf('\n', index - 1) + 1;
+}
+
+function lineEndOf(text: string, index: number): number {
+  const end = text.indexOf('\n', index);
+  return end === -1 ? text.length : end;
+}
+
+/**
+ * Wraps or unwraps the selection in an inline marker, line by line since
+ * inline formatting can't span paragraphs
+ */
+function toggleInline(selection: TextSelection, marker: string): TextSelection {
+  const { text, start, end } = selection;
+
+  if (start === end) {
+    // Empty marker pair around the cursor: take it out again
+    if (
+      text.slice(start - marker.length, start) === marker &&
+      text.slice(start, start + marker.length) === marker
+    ) {
+      return {
+        text: text.slice(0, start - marker.length) + text.slice(start + marker.length),
+        start: start - marker.length,
+        end: start - marker.length,
+      };
+    }
+    return {
+      text: text.slice(0, start) + marker + marker + text.slice(start),
+      start: start + marker.length,
+      end: start + marker.length,
+    };
+  }
+
+  // Markers just outside a single-line selection, e.g. after selecting the
+  // word inside **word**
+  if (
+    !spansLines(selection) &&
+    text.slice(start - marker.length, start) === marker &&
+    text.slice(end, end + marker.length) === marker
+  ) {
+    return {
+      text:
+        text.slice(0, start - marker.length) +
+        text.slice(start, end) +
+        text.slice(end + marker.length),
+      start: start - marker.length,
+      end: end - marker.length,
+    };
+  }
+
+  const segments = text.slice(start, end).split('\n').map(splitWhitespace);
+  const formatted = segments.filter((segment) => segment.core);
+  const unwrap =
+    formatted.length > 0 &&
+    formatted.every(
+      ({ core }) =>
+        core.length >= marker.length * 2 && core.startsWith(marker) && core.endsWith(marker)
+    );
+
+  const replaced = segments
+    .map(({ lead, core, trail }) => {
+      if (!core) return lead + trail;
+      const inner = unwrap ? core.slice(marker.length, -marker.length) : marker + core + marker;
+      return lead + inner + trail;
+    })
+    .join('\n');
+
+  return {
+    text: text.slice(0, start) + replaced + text.slice(end),
+    start,
+    end: start + replaced.length,
+  };
+}
+
+function splitWhitespace(segment: string): { lead: string; core: string; trail: string } {
+  const lead = segment.match(/^\s*/)?.[0] ?? '';
+  const rest = segment.slice(lead.length);
+  const trail = rest.match(/\s*$/)?.[0] ?? '';
+  return { lead, core: rest.slice(0, rest.length - trail.length), trail };
+}
+
+/**
+ * Wraps the selected lines in a code fence, or removes the fence around them
+ */
+function toggleFence(selection: TextSelection): TextSelection {
+  const { text } = selection;
+  const blockStart = lineStartOf(text, selection.start);
+  const blockEnd = lineEndOf(text, selection.end);
+
+  const before = text.slice(0, blockStart);
+  const after = text.slice(blockEnd);
+  const openLine = before.endsWith('\n') ? before.slice(lineStartOf(before, before.length - 1), -1) : '';
+  const closeLine = after.startsWith('\n') ? after.slice(1, lineEndOf(after, 1)) : '';
+
+  // The selection is the fenced block itself, as left after adding a fence
+  const lines = text.slice(blockStart, blockEnd).split('\n');
+  if (
+    lines.length >= 2 &&
+    lines[0].trim().startsWith(FENCE) &&
+    lines[lines.length - 1].trim() === FENCE
+  ) {
+    const block = lines.slice(1, -1).join('\n');
+    return {
+      text: before + block + after,
+      start: blockStart,
+      end: blockStart + block.length,
+    };
+  }
+
+  if (openLine.trim().startsWith(FENCE) && closeLine.trim() === FENCE) {
+    const fenceStart = blockStart - openLine.length - 1;
+    const block = text.slice(blockStart, blockEnd);
+    return {
+      text: text.slice(0, fenceStart) + block + text.slice(blockEnd + 1 + closeLine.length),
+      start: fenceStart,
+      end: fenceStart + block.length,
+    };
+  }
+
+  const block = `${FENCE}\n${text.slice(blockStart, blockEnd)}\n${FENCE}`;
+  return {
+    text: before + block + after,
+    start: blockStart,
+    end: blockStart + block.length,
+  };
+}
+
+/**
+ * Headings cycle from none through levels 1 to 3 and back to none
+ */
+function cycleHeading(selection: TextSelection): TextSelection {
+  const { text, start } = selection;
+  const line = text.slice(lineStartOf(text, start), lineEndOf(text, start));
+  const level = line.match(/^(#{1,6}) /)?.[1].length ?? 0;
+  if (level >= MAX_HEADING_LEVEL) {
+    // Same level again removes the heading
+    return setHeading(selection, level);
+  }
+  return setHeading(selection, level + 1);
+}
+
+function toggleLinePrefix(selection: TextSelection, kind: LinePrefix): TextSelection {
+  return mapLines(selection, (lines) => {
+    const nonEmpty = lines.filter((line) => line.trim());
+    const already =
+      nonEmpty.length > 0 && nonEmpty.every((line) => LINE_PATTERNS[kind].test(line));
+
+    if (kind === 'quote') {
+      return lines.map((line) =>
+        already ? line.replace(LINE_PATTERNS.quote, '') : line.trim() ? `> ${line}` : '>'
+      );
+    }
+
+    let number = 0;
+    return lines.map((line) => {
+      if (!line.trim()) return line;
+      if (already) return line.replace(LINE_PATTERNS[kind], '$1');
+      number += 1;
+      const [, indent = ''] = line.match(/^\s*/) ?? [];
+      const plain = line.replace(ANY_LIST, '').replace(/^\s*/, '');
+      const prefix =
+        kind === 'numberedList' ? `${number}. ` : kind === 'taskList' ? '- [ ] ' : '- ';
+      return indent + prefix + plain;
+    });
+  });
+}
+
+/**
+ * Rewrites every line the selection touches. A collapsed cursor moves with
+ * its line's text; otherwise the rewritten lines end up selected.
+ */
+function mapLines(
+  selection: TextSelection,
+  transform: (lines: string[]) => string[]
+): TextSelection {
+  const { text, start, end } = selection;
+  // A selection ending right at a line start doesn't include that line
+  const lastIndex = end > start && text[end - 1] === '\n' ? end - 1 : end;
+  const blockStart = lineStartOf(text, start);
+  const blockEnd = lineEndOf(text, lastIndex);
+
+  const lines = text.slice(blockStart, blockEnd).split('\n');
+  const replaced = transform(lines).join('\n');
+  const newText = text.slice(0, blockStart) + replaced + text.slice(blockEnd);
+
+  if (start === end && lines.length === 1) {
+    const cursor = Math.max(blockStart, start + replaced.length - lines[0].length);
+    return { text: newText, start: cursor, end: cursor };
+  }
+  return { text: newText, start: blockStart, end: blockStart + replaced.length };
+}
+
+/**
+ * Turns single newlines into Markdown hard breaks by ending the line in two
+ * spaces. Lines that already end in them are left alone, so text that was
+ * converted before (a saved entry or draft) comes out the same.
+ * @param text - Text as typed in the textarea
+ */
+export function convertToMarkdownLineBreaks(text: string): string {
+  return text
+    .split('\n\n')
+    .map((paragraph) =>
+      paragraph
+        .split('\n')
+        .map((line, index, lines) =>
+          index < lines.length - 1 ? line.replace(/ {2}$/, '') : line
+        )
+        .join('  \n')
+    )
+    .join('\n\n');
+}
@@ -0,0 +1,197 @@
+import { MEDIA_CONFIG } from '../config/constants';
+
+export type MediaKind = 'image' | 'video' | 'audio';
+
+/**
+ * What the editor knows about a clip, kept in the markdown image title
+ */
+export interface ClipInfo {
+  /** Uploaded poster frame filename, for videos */
+  poster?: string;
+  /** Length in seconds */
+  duration?: number;
+}
+
+const VIDEO_EXTENSIONS = ['mp4', 'm4v', 'mov', 'webm'];
+const AUDIO_EXTENSIONS = ['mp3', 'm4a', 'aac', 'wav', 'ogg', 'oga', 'opus', 'weba'];
+
+/**
+ * Longest time to wait for the browser to decode a clip's metadata or frame
+ */
+const PROBE_TIMEOUT_MS = 10_000;
+
+function extensionOf(name: string): string {
+  return name.split('.').pop()?.toLowerCase() ?? '';
+}
+
+/**
+ * Kind of an uploaded media file, from its extension. Anything not known
+ * to be video or audio is treated as an image.
+ * @param filename - Uploaded filename, e.g. "1712345678901.mp4"
+ */
+export function mediaKindOfFilename(filename: string): MediaKind {
+  const ext = extensionOf(filename);
+  if (VIDEO_EXTENSIONS.includes(ext)) return 'video';
+  if (AUDIO_EXTENSIONS.includes(ext)) return 'audio';
+  return 'image';
+}
+
+/**
+ * Kind of a file picked by the user
+ * @param file - File to check
+ * @returns The kind, or null if the file isn't an image, video or audio clip
+ */
+export function mediaKindOfFile(file: File): MediaKind | null {
+  const [type] = file.type.split('/');
+  if (type === 'image' || type === 'video' || type === 'audio') return type;
+  // Some platforms leave the type empty, e.g. for HEIC or .m4a files
+  const ext = extensionOf(file.name);
+  if (VIDEO_EXTENSIONS.includes(ext)) return 'video';
+  if (AUDIO_EXTENSIONS.includes(ext)) return 'audio';
+  if (['heic', 'heif'].includes(ext)) return 'image';
+  return null;
+}
+
+/**
+ * File types the attach button offers
+ */
+export const ACCEPTED_MEDIA_TYPES = [
+  'image/*',
+  ...MEDIA_CONFIG.ACCEPTED_VIDEO_TYPES,
+  ...MEDIA_CONFIG.ACCEPTED_AUDIO_TYPES,
+].join(',');
+
+/**
+ * Formats a clip length, e.g. "0:42" or "1:02:05"
+ * @param seconds - Length in seconds
+ */
+export function formatDuration(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
+
+/**
+ * Reads clip info from a markdown image title like "poster=1712.jpg duration=12.4"
+ * @param title - Title of the markdown image, if any
+ */
+export function parseClipTitle(title?: string | null): ClipInfo {
+  const info: ClipInfo = {};
+  (title ?? '').split(/\s+/).forEach((part) => {
+    const [key, value] = part.split('=');
+    if (key === 'poster' && value) info.poster = value;
+    if (key === 'duration' && value && Number.isFinite(Number(value))) {
+      info.duration = Number(value);
+    }
+  });
+  return info;
+}
+
+/**
+ * Markdown that embeds an uploaded file. Clips use image syntax too, with
+ * their poster and duration in the title so older viewers still show a link.
+ * @param kind - Kind of the uploaded file
+ * @param filename - Uploaded filename
+ * @param info - Poster and duration for clips
+ */
+export function mediaMarkdown(kind: MediaKind, filename: string, info: ClipInfo = {}): string {
+  if (kind === 'image') return `![image](${filename})`;
+  const label = kind === 'video' ? 'Video' : 'Audio';
+  const alt = info.duration !== undefined ? `${label} ${formatDuration(info.duration)}` : label;
+  const title = [
+    info.poster && `poster=${info.poster}`,
+    info.duration !== undefined && `duration=${info.duration.toFixed(1)}`,
+  ]
+    .filter(Boolean)
+    .join(' ');
+  return title ? `![${alt}](${filename} "${title}")` : `![${alt}](${filename})`;
+}
+
+function waitForEvent(target: EventTarget, event: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => finish(new Error(`Timed out waiting for ${event}`)), PROBE_TIMEOUT_MS);
+    const onEvent = () => finish();
+    const onError = () => finish(new Error('The file could not be decoded'));
+    function finish(error?: Error) {
+      clearTimeout(timer);
+      target.removeEventListener(event, onEvent);
+      target.removeEventListener('error', onError);
+      if (error) reject(error);
+      else resolve();
+    }
+    target.addEventListener(event, onEvent, { once: true });
+    target.addEventListener('error', onError, { once: true });
+  });
+}
+
+/**
+ * Recordings made with MediaRecorder report an infinite duration until the
+ * browser is made to seek to the end
+ */
+async function resolveDuration(element: HTMLMediaElement): Promise<number | null> {
+  if (Number.isFinite(element.duration)) return element.duration;
+  const changed = waitForEvent(element, 'durationchange');
+  element.currentTime = Number.MAX_SAFE_INTEGER;
+  await changed;
+  const duration = element.duration;
+  element.currentTime = 0;
+  return Number.isFinite(duration) ? duration : null;
+}
+
+async function captureFrame(video: HTMLVideoElement, duration: number | null): Promise<Blob | null> {
+  // A frame a little way in is more telling than the usually black first one
+  const seeked = waitForEvent(video, 'seeked');
+  video.currentTime = duration ? Math.min(1, duration / 4) : 0;
+  await seeked;
+  if (!video.videoWidth || !video.videoHeight) return null;
+
+  const scale = Math.min(1, MEDIA_CONFIG.POSTER_WIDTH / video.videoWidth);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(video.videoWidth * scale);
+  canvas.height = Math.round(video.videoHeight * scale);
+  canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return new Promise((resolve) => canvas.toBlob(resolve, 'image/jpeg', 0.8));
+}
+
+/**
+ * Reads a clip's duration and, for videos, grabs a poster frame, all in the
+ * browser. Anything the browser can't decode comes back as null rather than
+ * failing the upload.
+ * @param file - Video or audio file
+ * @param kind - Whether the file is a video or an audio clip
+ */
+export async function readClipMetadata(
+  file: File,
+  kind: 'video' | 'audio'
+): Promise<{ duration: number | null; poster: Blob | null }> {
+  const url = URL.createObjectURL(file);
+  const element = document.createElement(kind);
+  element.preload = 'auto';
+  element.muted = true;
+  if (element instanceof HTMLVideoElement) element.playsInline = true;
+
+  try {
+    const loaded = waitForEvent(element, kind === 'video' ? 'loadeddata' : 'loadedmetadata');
+    element.src = url;
+    await loaded;
+
+    const duration = await resolveDuration(element).catch(() => null);
+    const poster =
+      element instanceof HTMLVideoElement
+        ? await captureFrame(element, duration).catch((error) => {
+            console.error(`Failed to capture a poster frame for ${file.name}:`, error);
+            return null;
+          })
+        : null;
+    return { duration, poster };
+  } catch (error) {
+    console.error(`Failed to read metadata of ${file.name}:`, error);
+    return { duration: null, poster: null };
+  } finally {
+    element.removeAttribute('src');
+    element.load();
+    URL.revokeObjectURL(url);
+  }
+}
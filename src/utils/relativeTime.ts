@@ -0,0 +1,37 @@
+const formatter = new Intl.RelativeTimeFormat('en', { numeric: 'auto' });
+
+const UNITS: Array<[Intl.RelativeTimeFormatUnit, number]> = [
+  ['day', 24 * 60 * 60 * 1000],
+  ['hour', 60 * 60 * 1000],
+  ['minute', 60 * 1000],
+];
+
+/**
+ * Describes how long ago a moment was, e.g. "5 minutes ago" or "yesterday"
+ * @param iso - ISO timestamp in the past
+ * @param now - Reference time in milliseconds
+ * @returns "just now" for anything under a minute
+ */
+export function formatTimeAgo(iso: string, now: number = Date.now()): string {
+  const elapsed = now - new Date(iso).getTime();
+  for (const [unit, ms] of UNITS) {
+    if (elapsed >= ms) {
+      return formatter.format(-Math.floor(elapsed / ms), unit);
+    }
+  }
+  return 'just now';
+}
+
+/**
+ * Formats a timestamp as a datetime-local input value in local time
+ * @param iso - ISO timestamp
+ * @returns e.g. "2024-05-01T14:30"
+ */
+export function toDateTimeLocal(iso: string): string {
+  const date = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}`
+  );
+}
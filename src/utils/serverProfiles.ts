@@ -0,0 +1,163 @@
+import Cookies from 'js-cookie';
+import { API_CONFIG } from '../config/constants';
+
+/**
+ * A server the app can talk to, with the API key used for it
+ */
+export interface ServerProfile {
+  id: string;
+  name: string;
+  baseUrl: string;
+  apiKey: string;
+}
+
+interface StoredProfiles {
+  activeId: string;
+  profiles: ServerProfile[];
+}
+
+const STORAGE_KEY = 'life-log-server-profiles';
+const LEGACY_API_KEY_COOKIE_NAME = 'lifelog_api_key';
+
+/**
+ * ID of the profile created from the built-in server and the old API key cookie
+ */
+export const DEFAULT_PROFILE_ID = 'default';
+
+const listeners = new Set<() => void>();
+const activeListeners = new Set<() => void>();
+let state: StoredProfiles | null = null;
+
+function createDefaultState(): StoredProfiles {
+  // First run after upgrading: keep using the built-in server and saved key
+  return {
+    activeId: DEFAULT_PROFILE_ID,
+    profiles: [
+      {
+        id: DEFAULT_PROFILE_ID,
+        name: 'Default',
+        baseUrl: API_CONFIG.API_BASE_URL,
+        apiKey: Cookies.get(LEGACY_API_KEY_COOKIE_NAME) || '',
+      },
+    ],
+  };
+}
+
+function load(): StoredProfiles {
+  if (state) return state;
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? (JSON.parse(raw) as StoredProfiles) : null;
+    state =
+      parsed && Array.isArray(parsed.profiles) && parsed.profiles.length > 0
+        ? parsed
+        : createDefaultState();
+  } catch {
+    state = createDefaultState();
+  }
+  return state;
+}
+
+/**
+ * Identifies what requests depend on: which server and which key
+ */
+function connectionOf(stored: StoredProfiles): string {
+  const active = stored.profiles.find((p) => p.id === stored.activeId);
+  return active ? `${active.id}\n${active.baseUrl}\n${active.apiKey}` : '';
+}
+
+function commit(next: StoredProfiles): void {
+  const previousConnection = state ? connectionOf(state) : '';
+  state = next;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  // The old cookie is only read once, for migration
+  Cookies.remove(LEGACY_API_KEY_COOKIE_NAME);
+  listeners.forEach((listener) => listener());
+  if (connectionOf(next) !== previousConnection) {
+    activeListeners.forEach((listener) => listener());
+  }
+}
+
+/**
+ * Lists all saved server profiles
+ */
+export function listProfiles(): ServerProfile[] {
+  return load().profiles;
+}
+
+/**
+ * Returns the profile requests are currently sent to
+ */
+export function getActiveProfile(): ServerProfile {
+  const stored = load();
+  return stored.profiles.find((p) => p.id === stored.activeId) ?? stored.profiles[0];
+}
+
+/**
+ * Makes a profile the one requests are sent to
+ * @param id - Profile ID
+ */
+export function setActiveProfile(id: string): void {
+  const stored = load();
+  if (!stored.profiles.some((p) => p.id === id)) return;
+  commit({ ...stored, activeId: id });
+}
+
+/**
+ * Adds a profile, or replaces the one with the same ID
+ * @param profile - Profile to save
+ */
+export function saveProfile(profile: ServerProfile): void {
+  const stored = load();
+  const exists = stored.profiles.some((p) => p.id === profile.id);
+  commit({
+    ...stored,
+    profiles: exists
+      ? stored.profiles.map((p) => (p.id === profile.id ? profile : p))
+      : [...stored.profiles, profile],
+  });
+}
+
+/**
+ * Removes a profile. The last remaining profile can't be removed; removing
+ * the active one switches to the first remaining profile.
+ * @param id - Profile ID
+ */
+export function deleteProfile(id: string): void {
+  const stored = load();
+  const profiles = stored.profiles.filter((p) => p.id !== id);
+  if (profiles.length === 0) return;
+  commit({
+    activeId: stored.activeId === id ? profiles[0].id : stored.activeId,
+    profiles,
+  });
+}
+
+/**
+ * Generates an ID for a new profile
+ */
+export function createProfileId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+}
+
+/**
+ * Subscribes to any change to the saved profiles
+ * @returns Unsubscribe function
+ */
+export function subscribeToProfiles(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Subscribes to changes of the active server or its API key
+ * @returns Unsubscribe function
+ */
+export function onActiveProfileChange(listener: () => void): () => void {
+  activeListeners.add(listener);
+  return () => {
+    activeListeners.delete(listener);
+  };
+}
@@ -0,0 +1,193 @@
+import type { Entry, Summary, SummaryCount, SummaryPeriod } from '../services/api';
+
+/**
+ * How many tags and locations a summary lists
+ */
+const TOP_COUNT = 5;
+
+/**
+ * Highlighted entries kept in a summary, newest first
+ */
+const MAX_HIGHLIGHTS = 10;
+
+const EXCERPT_LENGTH = 140;
+
+/**
+ * Formats a date as YYYY-MM-DD in local time
+ */
+export function toDateKey(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+}
+
+/**
+ * Parses a YYYY-MM-DD key as local midnight
+ */
+export function fromDateKey(key: string): Date {
+  const [y, m, d] = key.split('-').map((part) => parseInt(part, 10));
+  return new Date(y, m - 1, d);
+}
+
+/**
+ * First day of the period containing a date. Weeks start on Monday.
+ * @param period - Summary period
+ * @param date - Any date inside the period
+ * @returns Start date as YYYY-MM-DD
+ */
+export function periodStart(period: SummaryPeriod, date: Date): string {
+  switch (period) {
+    case 'week': {
+      const daysSinceMonday = (date.getDay() + 6) % 7;
+      return toDateKey(
+        new Date(date.getFullYear(), date.getMonth(), date.getDate() - daysSinceMonday)
+      );
+    }
+    case 'month':
+      return toDateKey(new Date(date.getFullYear(), date.getMonth(), 1));
+    case 'year':
+      return toDateKey(new Date(date.getFullYear(), 0, 1));
+  }
+}
+
+/**
+ * Moves a period start forwards or backwards by whole periods
+ * @param period - Summary period
+ * @param startDate - Period start as YYYY-MM-DD
+ * @param delta - Number of periods to move; negative goes back
+ * @returns New period start as YYYY-MM-DD
+ */
+export function shiftPeriod(period: SummaryPeriod, startDate: string, delta: number): string {
+  const start = fromDateKey(startDate);
+  switch (period) {
+    case 'week':
+      return toDateKey(new Date(start.getFullYear(), start.getMonth(), start.getDate() + 7 * delta));
+    case 'month':
+      return toDateKey(new Date(start.getFullYear(), start.getMonth() + delta, 1));
+    case 'year':
+      return toDateKey(new Date(start.getFullYear() + delta, 0, 1));
+  }
+}
+
+/**
+ * Last day of a period, inclusive
+ * @param period - Summary period
+ * @param startDate - Period start as YYYY-MM-DD
+ * @returns End date as YYYY-MM-DD
+ */
+export function periodEnd(period: SummaryPeriod, startDate: string): string {
+  const next = fromDateKey(shiftPeriod(period, startDate, 1));
+  return toDateKey(new Date(next.getFullYear(), next.getMonth(), next.getDate() - 1));
+}
+
+/**
+ * Human-readable name of a period, e.g. "Week of Mar 4, 2024" or "March 2024"
+ */
+export function formatPeriodLabel(period: SummaryPeriod, startDate: string): string {
+  const start = fromDateKey(startDate);
+  switch (period) {
+    case 'week':
+      return `Week of ${start.toLocaleDateString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric',
+      })}`;
+    case 'month':
+      return start.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+    case 'year':
+      return String(start.getFullYear());
+  }
+}
+
+/**
+ * Whether an entry was written inside a period
+ */
+export function isInPeriod(entry: Entry, period: SummaryPeriod, startDate: string): boolean {
+  const createdAt = new Date(entry.createdAt).getTime();
+  const start = fromDateKey(startDate).getTime();
+  const end = fromDateKey(shiftPeriod(period, startDate, 1)).getTime();
+  return createdAt >= start && createdAt < end;
+}
+
+function topCounts(items: Array<{ id: number; name: string }>): SummaryCount[] {
+  const counts = new Map<number, SummaryCount>();
+  items.forEach(({ id, name }) => {
+    const current = counts.get(id);
+    counts.set(id, { id, name, count: (current?.count ?? 0) + 1 });
+  });
+  return [...counts.values()]
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+    .slice(0, TOP_COUNT);
+}
+
+/**
+ * Plain-text excerpt of an entry's markdown, for lists
+ */
+export function excerptOf(content: string): string {
+  const text = content
+    .replace(/!\[.*?\]\(.*?\)/g, ' ')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[#*_~`>]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH - 1)}…` : text;
+}
+
+function writeRecap(
+  period: SummaryPeriod,
+  entryCount: number,
+  topTags: SummaryCount[],
+  topLocations: SummaryCount[]
+): string {
+  if (entryCount === 0) return `Nothing was written this ${period}.`;
+
+  const sentences = [`${entryCount} entr${entryCount === 1 ? 'y' : 'ies'} this ${period}.`];
+  if (topLocations.length > 0) {
+    sentences.push(`Mostly written at ${topLocations[0].name}.`);
+  }
+  if (topTags.length > 0) {
+    sentences.push(`Most used tags: ${topTags.map((tag) => tag.name).join(', ')}.`);
+  }
+  return sentences.join(' ');
+}
+
+/**
+ * Computes a summary from the entries of a period
+ * @param period - Summary period
+ * @param startDate - Period start as YYYY-MM-DD
+ * @param entries - Entries to summarize; ones outside the period are ignored
+ * @returns Unsaved summary with a generated recap
+ */
+export function buildSummary(
+  period: SummaryPeriod,
+  startDate: string,
+  entries: Entry[]
+): Summary {
+  const inPeriod = entries.filter((entry) => isInPeriod(entry, period, startDate));
+  const topTags = topCounts(inPeriod.flatMap((entry) => entry.tags ?? []));
+  const topLocations = topCounts(
+    inPeriod.flatMap((entry) => (entry.location ? [entry.location] : []))
+  );
+  const highlights = inPeriod
+    .filter((entry) => entry.isHighlighted)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, MAX_HIGHLIGHTS)
+    .map((entry) => ({
+      id: entry.id,
+      createdAt: entry.createdAt,
+      excerpt: excerptOf(entry.content),
+    }));
+
+  return {
+    id: null,
+    period,
+    startDate,
+    endDate: periodEnd(period, startDate),
+    entryCount: inPeriod.length,
+    topTags,
+    topLocations,
+    highlights,
+    recap: writeRecap(period, inPeriod.length, topTags, topLocations),
+  };
+}
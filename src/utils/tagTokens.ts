@@ -0,0 +1,70 @@
+/**
+ * Inline tag syntax: `#tag` for tags and `@place` for the location, typed
+ * straight into the entry text
+ */
+
+const STORAGE_KEY = 'life-log-tag-tokens';
+
+/**
+ * What to do with the tokens when the entry is saved
+ */
+export type TagTokenMode = 'keep' | 'strip';
+
+export type TokenPrefix = '#' | '@';
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Prefix of the tokens for a tag type
+ * @param type - Tag type, e.g. "tag" or "location"
+ */
+export function tokenPrefixOf(type: string): TokenPrefix {
+  return type === 'location' ? '@' : '#';
+}
+
+/**
+ * The token that stands for a tag in the text. Spaces in the name become
+ * dashes so the token stays one word.
+ * @param tag - Tag name and type
+ */
+export function tagToken(tag: { name: string; type: string }): string {
+  return tokenPrefixOf(tag.type) + tag.name.trim().replace(/\s+/g, '-');
+}
+
+/**
+ * Removes the tokens of the given tags from the text, along with the space
+ * that separated each one from its neighbours
+ * @param content - Entry text
+ * @param tags - Tags and location of the entry
+ * @returns The text without their tokens
+ */
+export function stripTagTokens(content: string, tags: Array<{ name: string; type: string }>): string {
+  let stripped = content;
+  for (const tag of tags) {
+    const pattern = new RegExp(
+      `(^|[ \\t])${escapeRegExp(tagToken(tag))}([ \\t]?)(?=$|[\\s.,;:!?)])`,
+      'gim'
+    );
+    // Keep one space between the words on either side
+    stripped = stripped.replace(pattern, (_match, lead: string, trail: string) =>
+      lead && trail ? lead : ''
+    );
+  }
+  return stripped.trim();
+}
+
+/**
+ * Gets the saved choice of keeping or stripping tokens, keeping by default
+ */
+export function getTagTokenMode(): TagTokenMode {
+  return localStorage.getItem(STORAGE_KEY) === 'strip' ? 'strip' : 'keep';
+}
+
+/**
+ * Saves the choice of keeping or stripping tokens on save
+ */
+export function setTagTokenMode(mode: TagTokenMode): void {
+  localStorage.setItem(STORAGE_KEY, mode);
+}
@@ -0,0 +1,67 @@
+/**
+ * Runs async tasks with at most a fixed number in flight at once
+ */
+export interface TaskPool {
+  /**
+   * Queues a task and resolves with its result once it has run
+   * @param task - Work to start when a slot frees up
+   * @param signal - Aborting while still queued drops the task and rejects
+   * with an AbortError; a started task handles the signal itself
+   */
+  run<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T>;
+}
+
+interface QueuedTask {
+  start: () => void;
+}
+
+/**
+ * Creates a pool that runs tasks in the order they were queued
+ * @param limit - Maximum number of tasks running at the same time
+ */
+export function createTaskPool(limit: number): TaskPool {
+  const queue: QueuedTask[] = [];
+  let running = 0;
+
+  const next = () => {
+    while (running < limit && queue.length > 0) {
+      running++;
+      queue.shift()!.start();
+    }
+  };
+
+  return {
+    run<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+      return new Promise<T>((resolve, reject) => {
+        const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+        if (signal?.aborted) {
+          reject(abortError());
+          return;
+        }
+
+        const queued: QueuedTask = {
+          start: () => {
+            signal?.removeEventListener('abort', onAbort);
+            Promise.resolve()
+              .then(task)
+              .then(resolve, reject)
+              .finally(() => {
+                running--;
+                next();
+              });
+          },
+        };
+        const onAbort = () => {
+          const index = queue.indexOf(queued);
+          if (index === -1) return;
+          queue.splice(index, 1);
+          reject(abortError());
+        };
+
+        signal?.addEventListener('abort', onAbort, { once: true });
+        queue.push(queued);
+        next();
+      });
+    },
+  };
+}
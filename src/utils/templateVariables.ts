@@ -0,0 +1,48 @@
+/**
+ * Variables templates can use, written as {{name}}
+ */
+export const TEMPLATE_VARIABLES = ['date', 'time', 'weekday', 'lastLocation'] as const;
+
+export type TemplateVariable = (typeof TEMPLATE_VARIABLES)[number];
+
+/**
+ * Values for the template variables
+ * @param now - Time the template is applied
+ * @param lastLocation - Name of the most recently used location, if any
+ */
+export function templateValues(
+  now: Date,
+  lastLocation?: string | null
+): Record<TemplateVariable, string> {
+  return {
+    date: now.toLocaleDateString(undefined, { dateStyle: 'medium' }),
+    time: now.toLocaleTimeString(undefined, { timeStyle: 'short' }),
+    weekday: now.toLocaleDateString(undefined, { weekday: 'long' }),
+    lastLocation: lastLocation ?? '',
+  };
+}
+
+/**
+ * Replaces the {{variables}} in a template body. Unknown names are left as
+ * they are, so a typo shows up in the entry instead of vanishing.
+ * @param content - Template body
+ * @param values - Variable values
+ */
+export function fillTemplate(
+  content: string,
+  values: Record<TemplateVariable, string>
+): string {
+  return content.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    Object.hasOwn(values, name) ? values[name as TemplateVariable] : match
+  );
+}
+
+/**
+ * Localized name of a day of the week
+ * @param day - 0 for Sunday to 6 for Saturday
+ * @param style - Full or abbreviated name
+ */
+export function weekdayName(day: number, style: 'long' | 'short' = 'short'): string {
+  // 7 January 2024 was a Sunday
+  return new Date(2024, 0, 7 + day).toLocaleDateString(undefined, { weekday: style });
+}
@@ -0,0 +1,101 @@
+/**
+ * Word-level text diff for comparing entry revisions
+ */
+
+export interface DiffPart {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+/**
+ * Above this many word pairs the changed middle is shown as replaced
+ * wholesale instead of being diffed, to keep the table small
+ */
+const MAX_TABLE_SIZE = 4_000_000;
+
+/**
+ * Splits text into words and the whitespace between them, so whitespace
+ * changes show up and joining the tokens gives back the text
+ */
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) ?? [];
+}
+
+function push(parts: DiffPart[], type: DiffPart['type'], text: string): void {
+  const last = parts[parts.length - 1];
+  if (last?.type === type) {
+    last.text += text;
+  } else {
+    parts.push({ type, text });
+  }
+}
+
+/**
+ * Compares two texts word by word
+ * @param before - Older text
+ * @param after - Newer text
+ * @returns Runs of unchanged, inserted and deleted text in reading order
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // Most edits touch a small part of the text; skip the shared ends
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const parts: DiffPart[] = [];
+  push(parts, 'equal', a.slice(0, start).join(''));
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  if ((midA.length + 1) * (midB.length + 1) > MAX_TABLE_SIZE) {
+    push(parts, 'delete', midA.join(''));
+    push(parts, 'insert', midB.join(''));
+  } else {
+    diffMiddle(midA, midB, parts);
+  }
+
+  push(parts, 'equal', a.slice(endA).join(''));
+  return parts.filter((part) => part.text);
+}
+
+/**
+ * Longest common subsequence of the tokens, walked from the start so the
+ * parts come out in order
+ */
+function diffMiddle(a: string[], b: string[], parts: DiffPart[]): void {
+  const width = b.length + 1;
+  // lcs[i * width + j]: common length of a[i..] and b[j..]
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        a[i] === b[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(parts, 'equal', a[i]);
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      push(parts, 'delete', a[i++]);
+    } else {
+      push(parts, 'insert', b[j++]);
+    }
+  }
+  while (i < a.length) push(parts, 'delete', a[i++]);
+  while (j < b.length) push(parts, 'insert', b[j++]);
+}